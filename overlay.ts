@@ -5,17 +5,32 @@
  * Environment Variables (can be set via .env file or environment):
  *    BASE_URL           Base URL of the pipeline service
  *    DEFAULT_OVERLAY_URL Default overlay URL
+ *    LOG_LEVEL          Minimum log level: debug, info, warn or error (default: info)
+ *    LOG_FORMAT         Log output: text, or json for one JSON object per line (default: text)
  *
  * Usage:
- *    deno run --allow-net --allow-env --allow-read --env-file overlay.ts [command] [base_url]
+ *    deno run --allow-net --allow-env --allow-read --env-file overlay.ts [options] [command] [base_url]
  *
  * Commands:
  *    status              Show current overlay status
  *    enable              Enable/show the overlay
  *    disable             Disable/hide the overlay
- *    set-url URL         Change the overlay URL
+ *    set-url URL         Change the overlay URL (and show the overlay)
  *    refresh             Force reload current URL (clears cache)
  *
+ * Options:
+ *    --json              Print the result as one JSON object on stdout (log messages below warn are hidden)
+ *    --verify            Re-read the overlay after a change and fail if the pipeline did not apply it
+ *    --keep-visibility   set-url: leave the overlay visibility as it is
+ *
+ * Exit codes:
+ *    0  Success
+ *    1  Usage or unexpected error
+ *    2  Pipeline service unreachable
+ *    3  HTML overlay not initialized (also for status)
+ *    4  Request rejected by the pipeline
+ *    5  Change not applied (--verify)
+ *
  * Examples:
  *    deno run --allow-net --allow-env --allow-read --env-file overlay.ts status
  *    deno run --allow-net --allow-env --allow-read --env-file overlay.ts enable http://localhost:5000
@@ -23,187 +38,227 @@
  *    deno run --allow-net --allow-env --allow-read --env-file overlay.ts disable
  *    deno run --allow-net --allow-env --allow-read --env-file overlay.ts set-url https://sljeme360-overlay.widecast.workers.dev/
  *    deno run --allow-net --allow-env --allow-read --env-file overlay.ts refresh
+ *    deno run --allow-net --allow-env --allow-read --env-file overlay.ts --json --verify set-url https://example.com/ --keep-visibility
  */
 
-interface OverlayStatus {
-  enabled?: boolean;
-  visible?: boolean;
-  url?: string;
-  message?: string;
+import type { LoggingConfig } from "./src/logger.ts";
+import {
+  configureLogging,
+  createLogger,
+  getLogFormat,
+  loadLoggingConfig,
+} from "./src/logger.ts";
+
+import type {
+  OverlayErrorKind,
+  OverlayStatus,
+  OverlayUpdate,
+} from "./src/overlay/client.ts";
+import {
+  getOverlayStatus,
+  hideOverlay,
+  OverlayError,
+  refreshOverlay,
+  setOverlayUrl,
+  showOverlay,
+  verifyOverlay,
+} from "./src/overlay/client.ts";
+import { pipelineFetch } from "./src/switcher/client.ts";
+
+const log = createLogger("overlay");
+
+// Exit codes, so scripts can tell failures apart
+const EXIT_CODES: Record<"ok" | "error" | "usage" | OverlayErrorKind, number> = {
+  ok: 0,
+  error: 1,
+  usage: 1,
+  unreachable: 2,
+  "not-initialized": 3,
+  rejected: 4,
+  "not-applied": 5,
+};
+
+interface Options {
+  json: boolean;
+  verify: boolean;
+  keepVisibility: boolean;
 }
 
-// Configuration - read from environment variables with fallbacks
-// Note: .env file is automatically loaded via --env-file flag
-const DEFAULT_BASE_URL = Deno.env.get("BASE_URL");
+const FLAGS: Record<string, keyof Options> = {
+  "--json": "json",
+  "--verify": "verify",
+  "--keep-visibility": "keepVisibility",
+};
 
-async function getOverlayStatus(baseUrl: string): Promise<OverlayStatus | null> {
-  /** Get current HTML overlay status */
-  try {
-    const response = await fetch(`${baseUrl}/overlay/html`, {
-      signal: AbortSignal.timeout(5000),
-    });
-    if (response.ok) {
-      return await response.json();
-    } else {
-      console.error(`❌ Failed to get overlay status: ${response.status}`);
-      return null;
-    }
-  } catch (error) {
-    console.error(`❌ Error fetching overlay status: ${error}`);
-    return null;
+// Thrown for bad command lines; run() reports it and exits with EXIT_CODES.usage
+class UsageError extends Error {}
+
+function logSetupHint(): void {
+  /** Explain how to enable the overlay in the pipeline container */
+  log.warn("⚠️  HTML overlay not initialized. To enable it:");
+  log.warn("   1. Add to compose.yml environment:");
+  log.warn("      - ENABLE_HTML_OVERLAY=true");
+  log.warn("      - HTML_OVERLAY_URL=https://sljeme360-overlay.widecast.workers.dev/");
+  log.warn("   2. Restart: docker-compose restart");
+}
+
+function reportError(action: string, error: unknown): void {
+  /** Log a failed overlay request, with setup steps if the overlay is not initialized */
+  if (!(error instanceof OverlayError)) {
+    log.error(`❌ Error trying to ${action}: ${error}`, { error });
+    return;
+  }
+  log.error(`❌ Failed to ${action}: ${error.message}`, {
+    kind: error.kind,
+    status: error.status,
+  });
+  if (error.kind === "not-initialized") {
+    logSetupHint();
   }
 }
 
-async function showOverlay(baseUrl: string): Promise<boolean> {
-  /** Enable/show the HTML overlay */
-  try {
-    const response = await fetch(`${baseUrl}/overlay/html`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ visible: true }),
-      signal: AbortSignal.timeout(5000),
-    });
-    if (response.ok) {
-      const data: OverlayStatus = await response.json();
-      console.log(`✅ HTML overlay enabled`);
-      console.log(`   URL: ${data.url || "N/A"}`);
-      return true;
-    } else {
-      console.error(`❌ Failed to enable overlay: ${response.status}`);
-      if (response.status === 500) {
-        console.log("\n⚠️  HTML overlay not initialized. To enable it:");
-        console.log("   1. Add to compose.yml environment:");
-        console.log("      - ENABLE_HTML_OVERLAY=true");
-        console.log(
-          "      - HTML_OVERLAY_URL=https://sljeme360-overlay.widecast.workers.dev/"
-        );
-        console.log("   2. Restart: docker-compose restart");
-      }
-      return false;
-    }
-  } catch (error) {
-    console.error(`❌ Error enabling overlay: ${error}`);
-    return false;
+async function runStatus(baseUrl: string, options: Options): Promise<OverlayStatus> {
+  /** Print current HTML overlay status */
+  const status = await getOverlayStatus(baseUrl);
+  if (!options.json) {
+    printStatus(status);
   }
+  return status;
 }
 
-async function hideOverlay(baseUrl: string): Promise<boolean> {
-  /** Disable/hide the HTML overlay */
-  try {
-    const response = await fetch(`${baseUrl}/overlay/html`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ visible: false }),
-      signal: AbortSignal.timeout(5000),
-    });
-    if (response.ok) {
-      console.log(`✅ HTML overlay disabled`);
-      return true;
-    } else {
-      const text = await response.text();
-      console.error(
-        `❌ Failed to disable overlay: ${response.status} - ${text}`
-      );
-      return false;
-    }
-  } catch (error) {
-    console.error(`❌ Error disabling overlay: ${error}`);
-    return false;
+async function checkApplied(
+  baseUrl: string,
+  expected: OverlayUpdate,
+  data: OverlayStatus,
+  options: Options
+): Promise<OverlayStatus> {
+  /** With --verify, re-read the overlay and make sure the change was applied */
+  if (!options.verify) {
+    return data;
   }
+  const status = await verifyOverlay(baseUrl, expected);
+  log.info("✅ Verified: pipeline reports the change");
+  return status;
 }
 
-async function refreshOverlay(baseUrl: string): Promise<boolean> {
-  /** Force refresh the HTML overlay by reloading the current URL */
-  try {
-    // First get the current URL
-    const status = await getOverlayStatus(baseUrl);
-    if (!status || !status.enabled) {
-      console.error("❌ Overlay not initialized");
-      return false;
-    }
+async function runEnable(baseUrl: string, options: Options): Promise<OverlayStatus> {
+  /** Enable/show the HTML overlay */
+  const data = await checkApplied(baseUrl, { visible: true }, await showOverlay(baseUrl), options);
+  log.info(`✅ HTML overlay enabled (URL: ${data.url || "N/A"})`, {
+    url: data.url ?? null,
+  });
+  return data;
+}
 
-    const currentUrl = status.url;
-    if (!currentUrl) {
-      console.error("❌ No URL configured for overlay");
-      return false;
-    }
+async function runDisable(baseUrl: string, options: Options): Promise<OverlayStatus> {
+  /** Disable/hide the HTML overlay */
+  const data = await checkApplied(baseUrl, { visible: false }, await hideOverlay(baseUrl), options);
+  log.info(`✅ HTML overlay disabled`);
+  return data;
+}
 
-    // Re-set the same URL to trigger cache-busting
-    const response = await fetch(`${baseUrl}/overlay/html`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({ url: currentUrl }),
-      signal: AbortSignal.timeout(5000),
-    });
-    if (response.ok) {
-      console.log(`✅ HTML overlay refreshed: ${currentUrl}`);
-      console.log(`   Cache cleared and content reloaded`);
-      return true;
-    } else {
-      console.error(`❌ Failed to refresh overlay: ${response.status}`);
-      return false;
-    }
-  } catch (error) {
-    console.error(`❌ Error refreshing overlay: ${error}`);
-    return false;
-  }
+async function runRefresh(baseUrl: string, options: Options): Promise<OverlayStatus> {
+  /** Force refresh the HTML overlay by reloading the current URL */
+  let data = await refreshOverlay(baseUrl);
+  data = await checkApplied(baseUrl, data.url ? { url: data.url } : {}, data, options);
+  log.info(
+    `✅ HTML overlay refreshed: ${data.url || "N/A"}\n   Cache cleared and content reloaded`,
+    { url: data.url ?? null }
+  );
+  return data;
 }
 
-async function setOverlayUrl(
+async function runSetUrl(
   baseUrl: string,
   overlayUrl: string,
-  visible: boolean | null = null
-): Promise<boolean> {
+  visible: boolean | null,
+  options: Options
+): Promise<OverlayStatus> {
   /** Set the HTML overlay URL and optionally its visibility */
-  try {
-    const payload: { url: string; visible?: boolean } = { url: overlayUrl };
-    if (visible !== null) {
-      payload.visible = visible;
-    }
+  const expected: OverlayUpdate = visible !== null ? { url: overlayUrl, visible } : { url: overlayUrl };
+  const data = await checkApplied(
+    baseUrl,
+    expected,
+    await setOverlayUrl(baseUrl, overlayUrl, visible),
+    options
+  );
+  const status = data.visible !== undefined
+    ? `\n   Status: ${data.visible ? "enabled" : "disabled"}`
+    : "";
+  log.info(`✅ HTML overlay URL updated: ${overlayUrl}${status}`, {
+    url: overlayUrl,
+    visible: data.visible ?? null,
+  });
+  return data;
+}
 
-    const response = await fetch(`${baseUrl}/overlay/html`, {
-      method: "PUT",
-      headers: {
-        "Content-Type": "application/json",
+function errorKind(error: unknown): "error" | "usage" | OverlayErrorKind {
+  /** Failure kind used for the exit code and JSON output */
+  if (error instanceof OverlayError) {
+    return error.kind;
+  }
+  return error instanceof UsageError ? "usage" : "error";
+}
+
+function printResult(
+  command: string | null,
+  result: { overlay: OverlayStatus } | { error: unknown },
+  exitCode: number
+): void {
+  /** Print the result of a command as one JSON object (--json) */
+  const output = "overlay" in result
+    ? { command, ok: exitCode === EXIT_CODES.ok, exitCode, overlay: result.overlay }
+    : {
+      command,
+      ok: false,
+      exitCode,
+      error: {
+        kind: errorKind(result.error),
+        message: result.error instanceof Error ? result.error.message : String(result.error),
+        status: result.error instanceof OverlayError ? result.error.status : null,
       },
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(5000),
-    });
-    if (response.ok) {
-      const data: OverlayStatus = await response.json();
-      console.log(`✅ HTML overlay URL updated: ${overlayUrl}`);
-      if (data.visible !== undefined) {
-        const status = data.visible ? "enabled" : "disabled";
-        console.log(`   Status: ${status}`);
-      }
-      return true;
-    } else {
-      console.error(`❌ Failed to set overlay URL: ${response.status}`);
-      if (response.status === 500) {
-        console.log("\n⚠️  HTML overlay not initialized. To enable it:");
-        console.log("   1. Add to compose.yml environment:");
-        console.log("      - ENABLE_HTML_OVERLAY=true");
-        console.log(
-          "      - HTML_OVERLAY_URL=https://sljeme360-overlay.widecast.workers.dev/"
-        );
-        console.log("   2. Restart: docker-compose restart");
-      }
-      return false;
+    };
+  console.log(JSON.stringify(output));
+}
+
+async function execute(
+  command: string,
+  action: string,
+  options: Options,
+  run: () => Promise<OverlayStatus>
+): Promise<number> {
+  /** Run a command, report the result and return the exit code */
+  try {
+    const status = await run();
+    // An overlay that is not initialized still has a status; scripts see it in the exit code
+    const exitCode = command === "status" && !status.enabled
+      ? EXIT_CODES["not-initialized"]
+      : EXIT_CODES.ok;
+    if (options.json) {
+      printResult(command, { overlay: status }, exitCode);
     }
+    return exitCode;
   } catch (error) {
-    console.error(`❌ Error setting overlay URL: ${error}`);
-    return false;
+    reportError(action, error);
+    const exitCode = EXIT_CODES[errorKind(error)];
+    if (options.json) {
+      printResult(command, { error }, exitCode);
+    }
+    return exitCode;
   }
 }
 
 function printStatus(status: OverlayStatus): void {
   /** Print formatted overlay status */
+  if (getLogFormat() === "json") {
+    log.info("Overlay status", {
+      enabled: status.enabled || false,
+      visible: status.visible || false,
+      url: status.url ?? null,
+    });
+    return;
+  }
+
   console.log("\n" + "=".repeat(70));
   console.log("HTML Overlay Status");
   console.log("=".repeat(70));
@@ -240,43 +295,70 @@ function printUsage(): void {
 Overlay Manager - Control HTML overlay visibility and URL
 
 Usage:
-    deno run --allow-net --allow-env overlay.ts [command] [base_url]
+    deno run --allow-net --allow-env overlay.ts [options] [command] [base_url]
 
 Commands:
     status              Show current overlay status
     enable              Enable/show the overlay
     disable             Disable/hide the overlay
-    set-url URL         Change the overlay URL
+    set-url URL         Change the overlay URL (and show the overlay)
     refresh             Force reload current URL (clears cache)
 
+Options:
+    --json              Print the result as one JSON object
+    --verify            Fail if the pipeline did not apply the change
+    --keep-visibility   set-url: leave the overlay visibility as it is
+
+Exit codes:
+    0 success, 1 usage or unexpected error, 2 pipeline unreachable,
+    3 overlay not initialized, 4 request rejected, 5 change not applied (--verify)
+
 Examples:
     deno run --allow-net --allow-env overlay.ts status
     deno run --allow-net --allow-env overlay.ts enable http://localhost:5000
     deno run --allow-net --allow-env overlay.ts disable
     deno run --allow-net --allow-env overlay.ts set-url https://sljeme360-overlay.widecast.workers.dev/
     deno run --allow-net --allow-env overlay.ts refresh
+    deno run --allow-net --allow-env overlay.ts --json --verify set-url https://example.com/ --keep-visibility
 `);
 }
 
-async function main(): Promise<void> {
-  /** Main function */
-  const args = Deno.args;
+function usageError(message: string): never {
+  /** Stop with a usage error (reported by run) */
+  throw new UsageError(message);
+}
+
+function parseArgs(argv: string[]): { args: string[]; options: Options } {
+  /** Split command line arguments into positional arguments and options */
+  const args: string[] = [];
+  const options: Options = { json: false, verify: false, keepVisibility: false };
+  for (const arg of argv) {
+    if (!arg.startsWith("--")) {
+      args.push(arg);
+    } else if (arg in FLAGS) {
+      options[FLAGS[arg]] = true;
+    } else {
+      usageError(`Unknown option '${arg}'`);
+    }
+  }
+  return { args, options };
+}
+
+async function runCommand(argv: string[], defaultBaseUrl: string | undefined): Promise<number> {
+  /** Check the pipeline, run the command and return the exit code */
+  const { args, options } = parseArgs(argv);
 
   if (args.length < 1) {
-    console.error("❌ Error: Command required\n");
-    printUsage();
-    Deno.exit(1);
+    usageError("Command required");
   }
 
   const command = args[0].toLowerCase();
 
   // Determine base URL (priority: command line arg > env var > default)
-  let baseUrl = DEFAULT_BASE_URL;
+  let baseUrl = defaultBaseUrl;
 
   if (!baseUrl) {
-    console.error("❌ Error: BASE_URL environment variable is not set\n");
-    printUsage();
-    Deno.exit(1);
+    usageError("BASE_URL environment variable is not set");
   }
 
   if (command === "status" || command === "enable" || command === "disable" || command === "refresh") {
@@ -285,63 +367,116 @@ async function main(): Promise<void> {
     }
   } else if (command === "set-url") {
     if (args.length < 2) {
-      console.error("❌ Error: URL required for set-url command\n");
-      printUsage();
-      Deno.exit(1);
+      usageError("URL required for set-url command");
     }
     if (args.length > 2) {
       baseUrl = args[2];
     }
+  } else {
+    usageError(`Unknown command '${command}'`);
+  }
+  if (options.keepVisibility && command !== "set-url") {
+    usageError("--keep-visibility only applies to set-url");
   }
 
-  console.log(`Overlay Manager - Connecting to ${baseUrl}\n`);
+  log.info(`Overlay Manager - Connecting to ${baseUrl}`, { baseUrl });
 
   // Health check
   try {
-    const response = await fetch(`${baseUrl}/health`, {
-      signal: AbortSignal.timeout(5000),
+    const response = await pipelineFetch(`${baseUrl}/health`, {}, {
+      operation: "checkHealth",
+      idempotent: true,
     });
+    await response.body?.cancel();
     if (!response.ok) {
-      console.error("❌ Health check failed. Is the service running?");
-      Deno.exit(1);
+      throw new OverlayError(
+        "unreachable",
+        `Health check failed (${response.status}). Is the service running?`,
+        response.status
+      );
     }
   } catch (error) {
-    console.error(`❌ Cannot connect to service: ${error}`);
-    Deno.exit(1);
+    const failure = error instanceof OverlayError
+      ? error
+      : new OverlayError("unreachable", `Cannot connect to service: ${error}`);
+    log.error(`❌ ${failure.message}`, { status: failure.status });
+    if (options.json) {
+      printResult(command, { error: failure }, EXIT_CODES.unreachable);
+    }
+    return EXIT_CODES.unreachable;
   }
 
-  console.log("✅ Connected to pipeline service\n");
+  log.info("✅ Connected to pipeline service");
 
   // Execute command
+  let exitCode: number;
   if (command === "status") {
-    const status = await getOverlayStatus(baseUrl);
-    if (status) {
-      printStatus(status);
-    } else {
-      Deno.exit(1);
-    }
+    exitCode = await execute(command, "get overlay status", options, () => runStatus(baseUrl, options));
   } else if (command === "enable") {
-    const success = await showOverlay(baseUrl);
-    Deno.exit(success ? 0 : 1);
+    exitCode = await execute(command, "enable overlay", options, () => runEnable(baseUrl, options));
   } else if (command === "disable") {
-    const success = await hideOverlay(baseUrl);
-    Deno.exit(success ? 0 : 1);
+    exitCode = await execute(command, "disable overlay", options, () => runDisable(baseUrl, options));
   } else if (command === "refresh") {
-    const success = await refreshOverlay(baseUrl);
-    Deno.exit(success ? 0 : 1);
-  } else if (command === "set-url") {
+    exitCode = await execute(command, "refresh overlay", options, () => runRefresh(baseUrl, options));
+  } else {
     const overlayUrl = args[1];
     // By default, enable the overlay when setting a new URL
-    const success = await setOverlayUrl(baseUrl, overlayUrl, true);
-    Deno.exit(success ? 0 : 1);
+    const visible = options.keepVisibility ? null : true;
+    exitCode = await execute(
+      command,
+      "set overlay URL",
+      options,
+      () => runSetUrl(baseUrl, overlayUrl, visible, options)
+    );
+  }
+  return exitCode;
+}
+
+export async function run(
+  argv: string[],
+  loggingConfig: LoggingConfig,
+  defaultBaseUrl: string | undefined
+): Promise<number> {
+  /** Run a command line and return the exit code; with --json, usage errors are printed as JSON too */
+  const json = argv.includes("--json");
+  if (json && (loggingConfig.logLevel === "debug" || loggingConfig.logLevel === "info")) {
+    // Keep stdout for the JSON result; warnings and errors still go to stderr
+    configureLogging({ ...loggingConfig, logLevel: "warn" });
   } else {
-    console.error(`❌ Error: Unknown command '${command}'\n`);
-    printUsage();
-    Deno.exit(1);
+    configureLogging(loggingConfig);
   }
+
+  try {
+    return await runCommand(argv, defaultBaseUrl);
+  } catch (error) {
+    if (!(error instanceof UsageError)) {
+      throw error;
+    }
+    log.error(`❌ Error: ${error.message}`);
+    if (json) {
+      const command = argv.find((arg) => !arg.startsWith("--"))?.toLowerCase() ?? null;
+      printResult(command, { error }, EXIT_CODES.usage);
+    } else {
+      printUsage();
+    }
+    return EXIT_CODES.usage;
+  }
+}
+
+async function main(): Promise<void> {
+  /** Main function */
+  let loggingConfig;
+  try {
+    loggingConfig = loadLoggingConfig();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`❌ Error: ${message}`);
+    Deno.exit(EXIT_CODES.error);
+  }
+  // Note: .env file is automatically loaded via --env-file flag
+  Deno.exit(await run(Deno.args, loggingConfig, Deno.env.get("BASE_URL")));
 }
 
 if (import.meta.main) {
   main();
 }
-
@@ -0,0 +1,127 @@
+/**
+ * Leveled logger shared by the switcher and the overlay manager
+ *
+ * LOG_FORMAT=text prints messages as they always looked; LOG_FORMAT=json prints
+ * one JSON object per line with timestamp, level, component, message and the
+ * structured fields passed with the message.
+ */
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+export type LogFormat = "text" | "json";
+export type LogFields = Record<string, unknown>;
+
+export interface LoggingConfig {
+	logLevel: LogLevel;
+	logFormat: LogFormat;
+}
+
+export interface Logger {
+	debug(message: string, fields?: LogFields): void;
+	info(message: string, fields?: LogFields): void;
+	warn(message: string, fields?: LogFields): void;
+	error(message: string, fields?: LogFields): void;
+}
+
+export interface LogRecord {
+	timestamp: string;
+	level: LogLevel;
+	component: string;
+	message: string;
+	fields?: LogFields;
+}
+
+const LOG_LEVELS: LogLevel[] = ["debug", "info", "warn", "error"];
+const LOG_FORMATS: LogFormat[] = ["text", "json"];
+
+// Emoji decorating text messages; dropped from JSON messages along with line breaks and indentation
+const EMOJI = /[\p{Extended_Pictographic}\u{FE0F}\u{200D}\u{20E3}]/gu;
+
+let minLevel = LOG_LEVELS.indexOf("info");
+let format: LogFormat = "text";
+
+/**
+ * Parse LOG_LEVEL (default info)
+ */
+export function parseLogLevel(value: string | undefined): LogLevel {
+	const level = (value || "info").toLowerCase();
+	if (!LOG_LEVELS.includes(level as LogLevel)) {
+		throw new Error(`LOG_LEVEL must be one of ${LOG_LEVELS.join(", ")} (got "${value}")`);
+	}
+	return level as LogLevel;
+}
+
+/**
+ * Parse LOG_FORMAT (default text)
+ */
+export function parseLogFormat(value: string | undefined): LogFormat {
+	const logFormat = (value || "text").toLowerCase();
+	if (!LOG_FORMATS.includes(logFormat as LogFormat)) {
+		throw new Error(`LOG_FORMAT must be one of ${LOG_FORMATS.join(", ")} (got "${value}")`);
+	}
+	return logFormat as LogFormat;
+}
+
+/**
+ * Read LOG_LEVEL and LOG_FORMAT from the environment
+ */
+export function loadLoggingConfig(): LoggingConfig {
+	return {
+		logLevel: parseLogLevel(Deno.env.get("LOG_LEVEL")),
+		logFormat: parseLogFormat(Deno.env.get("LOG_FORMAT")),
+	};
+}
+
+/**
+ * Set the minimum level and output format for all loggers
+ */
+export function configureLogging(cfg: LoggingConfig): void {
+	minLevel = LOG_LEVELS.indexOf(cfg.logLevel);
+	format = cfg.logFormat;
+}
+
+/**
+ * Current output format (for output that is laid out differently per format, e.g. tables)
+ */
+export function getLogFormat(): LogFormat {
+	return format;
+}
+
+/**
+ * Format a record as a single output line
+ */
+export function formatLogRecord(record: LogRecord, logFormat: LogFormat): string {
+	if (logFormat === "text") {
+		return record.message;
+	}
+	return JSON.stringify({
+		timestamp: record.timestamp,
+		level: record.level,
+		component: record.component,
+		message: record.message.replace(EMOJI, "").replace(/\s+/g, " ").trim(),
+		...record.fields,
+	}, (_key, value) => value instanceof Error ? String(value) : value);
+}
+
+function write(component: string, level: LogLevel, message: string, fields?: LogFields): void {
+	if (LOG_LEVELS.indexOf(level) < minLevel) {
+		return;
+	}
+	const line = formatLogRecord({ timestamp: new Date().toISOString(), level, component, message, fields }, format);
+	if (level === "warn" || level === "error") {
+		console.error(line);
+	} else {
+		console.log(line);
+	}
+}
+
+/**
+ * Create a logger for a component (e.g. "rotation")
+ */
+export function createLogger(component: string): Logger {
+	return {
+		debug: (message, fields) => write(component, "debug", message, fields),
+		info: (message, fields) => write(component, "info", message, fields),
+		warn: (message, fields) => write(component, "warn", message, fields),
+		error: (message, fields) => write(component, "error", message, fields),
+	};
+}
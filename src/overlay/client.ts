@@ -0,0 +1,140 @@
+/**
+ * HTML overlay control on the pipeline service (/overlay/html)
+ *
+ * Shared by the overlay CLI and the switcher API. Requests go through the
+ * pipeline client, so they time out, retry and respect its circuit breaker.
+ * A 500 means the overlay is not initialized, so it is neither retried nor
+ * counted towards the breaker (which would pause rotation).
+ */
+
+import { pipelineFetch } from "../switcher/client.ts";
+
+export interface OverlayStatus {
+	enabled?: boolean;
+	visible?: boolean;
+	url?: string;
+	message?: string;
+}
+
+export interface OverlayUpdate {
+	url?: string;
+	visible?: boolean;
+}
+
+export type OverlayErrorKind = "unreachable" | "not-initialized" | "rejected" | "not-applied";
+
+/**
+ * Thrown when the pipeline cannot be reached or does not apply an overlay request
+ * "not-applied" means the pipeline accepted a change but does not report it (see verifyOverlay).
+ */
+export class OverlayError extends Error {
+	constructor(
+		readonly kind: OverlayErrorKind,
+		message: string,
+		readonly status: number | null = null
+	) {
+		super(message);
+		this.name = "OverlayError";
+	}
+}
+
+async function overlayRequest(baseUrl: string, init: RequestInit, operation: string): Promise<OverlayStatus> {
+	let response: Response;
+	try {
+		response = await pipelineFetch(`${baseUrl}/overlay/html`, init, {
+			operation,
+			idempotent: true,
+			permanentStatuses: [500],
+		});
+	} catch (error) {
+		throw new OverlayError("unreachable", `Cannot reach pipeline service: ${error}`);
+	}
+
+	const text = await response.text();
+	if (!response.ok) {
+		const detail = text.trim() ? `${response.status} - ${text.trim()}` : String(response.status);
+		// The pipeline answers 500 when it was started without ENABLE_HTML_OVERLAY
+		if (response.status === 500) {
+			throw new OverlayError("not-initialized", `HTML overlay not initialized (${detail})`, response.status);
+		}
+		throw new OverlayError("rejected", `Overlay request rejected: ${detail}`, response.status);
+	}
+	try {
+		return text ? JSON.parse(text) : {};
+	} catch (_error) {
+		return {};
+	}
+}
+
+/**
+ * Get the current HTML overlay status
+ */
+export function getOverlayStatus(baseUrl: string): Promise<OverlayStatus> {
+	return overlayRequest(baseUrl, {}, "getOverlay");
+}
+
+/**
+ * Change the overlay URL and/or visibility
+ * Setting a URL (even the current one) makes the pipeline reload it.
+ */
+export function updateOverlay(baseUrl: string, update: OverlayUpdate): Promise<OverlayStatus> {
+	return overlayRequest(baseUrl, {
+		method: "PUT",
+		headers: { "Content-Type": "application/json" },
+		body: JSON.stringify(update),
+	}, "setOverlay");
+}
+
+/**
+ * Enable/show the HTML overlay
+ */
+export function showOverlay(baseUrl: string): Promise<OverlayStatus> {
+	return updateOverlay(baseUrl, { visible: true });
+}
+
+/**
+ * Disable/hide the HTML overlay
+ */
+export function hideOverlay(baseUrl: string): Promise<OverlayStatus> {
+	return updateOverlay(baseUrl, { visible: false });
+}
+
+/**
+ * Set the HTML overlay URL and optionally its visibility
+ */
+export function setOverlayUrl(baseUrl: string, url: string, visible: boolean | null = null): Promise<OverlayStatus> {
+	return updateOverlay(baseUrl, visible !== null ? { url, visible } : { url });
+}
+
+/**
+ * Force the overlay to reload its current URL (clears the browser cache)
+ */
+export async function refreshOverlay(baseUrl: string): Promise<OverlayStatus> {
+	const status = await getOverlayStatus(baseUrl);
+	if (!status.enabled) {
+		throw new OverlayError("not-initialized", status.message || "HTML overlay not initialized");
+	}
+	if (!status.url) {
+		throw new OverlayError("rejected", "No URL configured for overlay");
+	}
+	return await updateOverlay(baseUrl, { url: status.url });
+}
+
+/**
+ * Re-read the overlay status and check that the pipeline applied an update
+ * @throws OverlayError "not-applied" listing the fields that differ
+ */
+export async function verifyOverlay(baseUrl: string, expected: OverlayUpdate): Promise<OverlayStatus> {
+	const status = await getOverlayStatus(baseUrl);
+	const mismatches: string[] = [];
+	if (expected.url !== undefined && status.url !== expected.url) {
+		mismatches.push(`url is ${status.url ?? "not set"}, expected ${expected.url}`);
+	}
+	if (expected.visible !== undefined && (status.visible ?? false) !== expected.visible) {
+		mismatches.push(`visible is ${status.visible ?? false}, expected ${expected.visible}`);
+	}
+	if (mismatches.length > 0) {
+		throw new OverlayError("not-applied", `Pipeline did not apply the change: ${mismatches.join("; ")}`);
+	}
+	return status;
+}
@@ -1,218 +1,612 @@
 /**
  * API server for remote control
+ *
+ * Routes are declared in a table with their auth, role and body schema;
+ * handleAPIRequest enforces them and GET /api/openapi.json is generated from it.
  */
 
-import type { SwitcherState, RotationScheduleItem } from "./types.ts";
-import { state, saveState } from "./state.ts";
-import { getSources, switchToSource } from "./pipeline.ts";
+import type { SwitcherState, RotationScheduleItem, NamedSchedule } from "./types.ts";
 import type { Config } from "./config.ts";
+import type { CommandResult, OverlayBindingsRequest, OverlayPlaylistRequest, OverlayRequest } from "./commands.ts";
+import {
+	getState,
+	updateState,
+	listSources,
+	switchSource,
+	cancelOverride,
+	setSchedule,
+	setSchedules,
+	setCameras,
+	getOverlay,
+	setOverlay,
+	updateOverlayBindings,
+	getOverlayPlaylist,
+	updateOverlayPlaylist,
+} from "./commands.ts";
+import { createEventStream, initEventStream } from "./sse.ts";
+import { handleWebSocket, initWebSocket } from "./ws.ts";
+import type { Role, TokenIdentity } from "./auth.ts";
+import { COMMAND_ROLES, forbiddenBody, hasRole, identifyToken, initAuth, stateUpdateRole } from "./auth.ts";
+import { AuthLockout, BodyTooLargeError, RateLimiter, parseBearerToken, readLimitedText } from "./security.ts";
+import { historyToCsv, parseHistoryQuery, queryHistory } from "./history.ts";
+import { state } from "./state.ts";
+import { getCurrentSources } from "./sources.ts";
+import { isSourceHealthy } from "./sourcelist.ts";
+import { getBreakerStatus } from "./client.ts";
+import { getConnectivity } from "./monitor.ts";
+import { isShuttingDown } from "./shutdown.ts";
+import { createLogger } from "../logger.ts";
+import {
+	apiRequestsTotal,
+	currentSourceGauge,
+	pipelineBreakerGauge,
+	pipelineLastSeenGauge,
+	pipelineUpGauge,
+	renderMetrics,
+	rotationEnabledGauge,
+	scheduleIndexGauge,
+	sourceHealthyGauge,
+} from "./metrics.ts";
+import { Router } from "./router.ts";
+import type { Route } from "./router.ts";
+import { corsHeaders } from "./cors.ts";
+import { buildOpenApiDocument } from "./openapi.ts";
+import type { Schema } from "./validation.ts";
+import {
+	validateRequestBody,
+	validationErrorBody,
+	stateUpdateSchema,
+	switchSourceSchema,
+	setScheduleSchema,
+	setSchedulesSchema,
+	setCamerasSchema,
+	setOverlaySchema,
+	setOverlayBindingsSchema,
+	setOverlayPlaylistSchema,
+} from "./validation.ts";
+
+const log = createLogger("api");
+
+const PANEL_URL = new URL("./panel.html", import.meta.url);
+
+// The page only talks to this server; inline script and styles keep it a single file
+const PANEL_HEADERS = {
+	"Content-Type": "text/html; charset=utf-8",
+	"Cache-Control": "no-cache",
+	"Content-Security-Policy":
+		"default-src 'none'; script-src 'unsafe-inline'; style-src 'unsafe-inline'; connect-src 'self'; frame-ancestors 'none'",
+	"X-Content-Type-Options": "nosniff",
+};
 
 let config: Config | null = null;
+let panelHtml: string | null = null;
+let server: Deno.HttpServer | null = null;
+let rateLimiter = new RateLimiter(0, 60);
+let authLockout = new AuthLockout(0, 300);
 
 /**
  * Initialize API server with configuration
  */
 export function initAPI(cfg: Config): void {
 	config = cfg;
+	initAuth(cfg);
+	rateLimiter = new RateLimiter(cfg.rateLimitRequests, cfg.rateLimitWindow);
+	authLockout = new AuthLockout(cfg.authMaxFailures, cfg.authLockoutSeconds);
 }
 
 /**
- * Authenticate API request
+ * Identify a token, counting failures towards the client's lockout
  */
-function authenticateRequest(request: Request): boolean {
-	if (!config || !config.apiToken) {
-		return false;
-	}
-	const authHeader = request.headers.get("Authorization");
-	if (!authHeader) {
-		return false;
+function identifyClient(token: string | null, clientIp: string): TokenIdentity | null {
+	const identity = token !== null ? identifyToken(token) : null;
+	if (identity !== null) {
+		authLockout.recordSuccess(clientIp);
+	} else if (authLockout.recordFailure(clientIp)) {
+		log.warn(`🔒 Locking out ${clientIp} after repeated authentication failures`, { clientIp });
 	}
-	const token = authHeader.replace("Bearer ", "").trim();
-	return token === config.apiToken;
+	return identity;
 }
 
 /**
- * Handle API request
+ * Authenticate API request, returning the token's identity
  */
-async function handleAPIRequest(request: Request): Promise<Response> {
-	if (!config) {
-		return new Response(JSON.stringify({ error: "API not initialized" }), {
-			status: 500,
-			headers: { "Content-Type": "application/json" },
-		});
+function authenticateRequest(request: Request, clientIp: string): TokenIdentity | null {
+	return identifyClient(parseBearerToken(request.headers.get("Authorization")), clientIp);
+}
+
+/**
+ * 403 response if the identity lacks the required role, otherwise null
+ */
+function authorize(identity: TokenIdentity, required: Role): Response | null {
+	if (hasRole(identity.role, required)) {
+		return null;
 	}
+	log.warn(`🚫 ${identity.label} (${identity.role}) denied: requires ${required}`, {
+		token: identity.label,
+		role: identity.role,
+		requiredRole: required,
+	});
+	return jsonResponse(forbiddenBody(required), 403);
+}
 
-	const url = new URL(request.url);
-	const path = url.pathname;
-	const method = request.method;
+/**
+ * Build a JSON response
+ */
+function jsonResponse(body: unknown, status: number = 200, headers: Record<string, string> = {}): Response {
+	return new Response(JSON.stringify(body), {
+		status,
+		headers: { "Content-Type": "application/json", ...headers },
+	});
+}
+
+/**
+ * Build a 429 response telling the client when to retry
+ */
+function tooManyRequests(error: string, retryAfterSeconds: number): Response {
+	return jsonResponse({ error, retryAfterSeconds }, 429, { "Retry-After": String(retryAfterSeconds) });
+}
 
-	// Health check doesn't require auth
-	if (path === "/api/health" && method === "GET") {
-		return new Response(JSON.stringify({ status: "ok" }), {
-			headers: { "Content-Type": "application/json" },
+/**
+ * Build a JSON response from a command result
+ */
+function commandResponse(result: CommandResult): Response {
+	return jsonResponse(result.body, result.status);
+}
+
+/**
+ * Update gauges that mirror current state before a scrape
+ */
+function collectStateMetrics(): void {
+	currentSourceGauge.set(state.currentSourceId ?? -1);
+	rotationEnabledGauge.set(state.rotationEnabled ? 1 : 0);
+	scheduleIndexGauge.set(state.currentScheduleIndex ?? -1);
+	pipelineBreakerGauge.set({ closed: 0, "half-open": 1, open: 2 }[getBreakerStatus().state]);
+	const connectivity = getConnectivity();
+	pipelineUpGauge.set(connectivity.reachable ? 1 : 0);
+	pipelineLastSeenGauge.set(connectivity.lastSeen !== null ? Date.parse(connectivity.lastSeen) / 1000 : 0);
+
+	// Rebuild so removed sources disappear
+	sourceHealthyGauge.reset();
+	for (const source of getCurrentSources()) {
+		sourceHealthyGauge.set(isSourceHealthy(source) ? 1 : 0, {
+			source: source.id,
+			name: source.name || `Source ${source.id}`,
 		});
 	}
+}
 
-	// All other endpoints require authentication
-	if (!authenticateRequest(request)) {
-		return new Response(JSON.stringify({ error: "Unauthorized" }), {
-			status: 401,
-			headers: { "Content-Type": "application/json" },
-		});
+/**
+ * Count an API request by route, method and status (unknown paths are "other")
+ */
+function recordRequestMetric(request: Request, status: number): void {
+	const match = router.match(request.method, new URL(request.url).pathname);
+	const route = match === null ? "other" : "route" in match ? match.route.path : match.path;
+	apiRequestsTotal.inc({ route, method: request.method, status });
+}
+
+/**
+ * Parse a JSON request body
+ * Returns the body, or an error response (413 over MAX_BODY_BYTES, 400 for malformed JSON)
+ */
+async function readBody(request: Request): Promise<unknown> {
+	try {
+		return JSON.parse(await readLimitedText(request, config!.maxBodyBytes));
+	} catch (error) {
+		if (error instanceof BodyTooLargeError) {
+			return jsonResponse({ error: "Request body too large", limit: error.limit }, 413);
+		}
+		return jsonResponse({ error: "Invalid request body" }, 400);
 	}
+}
 
-	// GET /api/state
-	if (path === "/api/state" && method === "GET") {
-		return new Response(JSON.stringify(state), {
-			headers: { "Content-Type": "application/json" },
+/**
+ * Validate a parsed request body
+ * Returns a 422 response listing every validation issue, or null if the body is valid
+ */
+async function validateBody(schema: Schema, body: unknown): Promise<Response | null> {
+	const issues = await validateRequestBody(schema, body, config!.baseUrl);
+	return issues.length > 0 ? jsonResponse(validationErrorBody(issues), 422) : null;
+}
+
+// Routes
+
+const router = new Router();
+
+router.add({
+	method: "GET",
+	path: "/api/health",
+	summary: "Health check",
+	description: "`status` is `degraded` while the pipeline service is unreachable; the API itself is up either way.",
+	tags: ["system"],
+	public: true,
+	handler: () => {
+		const pipeline = getConnectivity();
+		return jsonResponse({ status: pipeline.reachable ? "ok" : "degraded", pipeline });
+	},
+});
+
+router.add({
+	method: "GET",
+	path: "/metrics",
+	summary: "Prometheus metrics",
+	description: "Metrics in the Prometheus text exposition format.",
+	tags: ["system"],
+	public: true,
+	handler: () => {
+		collectStateMetrics();
+		return new Response(renderMetrics(), {
+			headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
 		});
-	}
+	},
+});
 
-	// PUT /api/state
-	if (path === "/api/state" && method === "PUT") {
-		try {
-			const body = await request.json() as Partial<SwitcherState>;
-			
-			if (body.rotationEnabled !== undefined) {
-				state.rotationEnabled = body.rotationEnabled;
-				// Clear fixedSourceId when rotation is enabled
-				if (state.rotationEnabled) {
-					state.fixedSourceId = null;
-				}
-			}
-			if (body.fixedSourceId !== undefined) {
-				state.fixedSourceId = body.fixedSourceId;
-			}
-			if (body.selectedCameraIds !== undefined) {
-				state.selectedCameraIds = body.selectedCameraIds;
-			}
-			if (body.rotationSchedule !== undefined) {
-				const oldScheduleLength = state.rotationSchedule.length;
-				state.rotationSchedule = body.rotationSchedule;
-				// Reset schedule index if schedule length changed or index is out of bounds
-				if (
-					state.currentScheduleIndex !== null &&
-					(oldScheduleLength !== body.rotationSchedule.length || 
-					 state.currentScheduleIndex >= body.rotationSchedule.length)
-				) {
-					state.currentScheduleIndex = body.rotationSchedule.length > 0 ? 0 : null;
-				}
+router.add({
+	method: "GET",
+	path: "/api/openapi.json",
+	summary: "OpenAPI document for this API",
+	tags: ["system"],
+	public: true,
+	handler: () => jsonResponse(buildOpenApiDocument(router.routes)),
+});
+
+router.add({
+	method: "GET",
+	path: "/",
+	summary: "Web control panel",
+	description: "Static HTML page; it asks for an API token and calls the routes below with it.",
+	tags: ["panel"],
+	public: true, // The page holds no data; its API calls are authenticated
+	responses: { 200: "text/html" },
+	handler: async () => {
+		panelHtml ??= await Deno.readTextFile(PANEL_URL);
+		return new Response(panelHtml, { headers: PANEL_HEADERS });
+	},
+});
+
+router.add({
+	method: "GET",
+	path: "/api/ws",
+	summary: "WebSocket control channel",
+	description:
+		"Upgrade to a WebSocket accepting the same commands as the REST routes. Authenticate with the " +
+		"Authorization header, a `token` query parameter, or a first message `{\"type\": \"auth\", \"token\": \"...\"}`.",
+	tags: ["events"],
+	public: true, // Authenticates itself, possibly after the upgrade
+	query: [{ name: "token", description: "API token", schema: { type: "string" } }],
+	responses: { 101: "Switching protocols", 401: "Invalid token", 426: "Not a WebSocket upgrade request" },
+	handler: ({ request, url, clientIp }) => {
+		const lockout = authLockout.check(clientIp);
+		if (!lockout.allowed) {
+			return tooManyRequests("Too many failed authentication attempts", lockout.retryAfterSeconds);
+		}
+
+		const token = url.searchParams.get("token");
+		const hasCredentials = token !== null || request.headers.has("Authorization");
+		const identity = token !== null ? identifyClient(token, clientIp) : hasCredentials
+			? authenticateRequest(request, clientIp)
+			: null;
+		if (hasCredentials && identity === null) {
+			return jsonResponse({ error: "Unauthorized" }, 401);
+		}
+		const identifyMessageToken = (messageToken: string) => {
+			if (!authLockout.check(clientIp).allowed) {
+				return null;
 			}
-			
-			await saveState();
-			
-			return new Response(JSON.stringify(state), {
-				headers: { "Content-Type": "application/json" },
-			});
-		} catch (_error) {
-			return new Response(JSON.stringify({ error: "Invalid request body" }), {
-				status: 400,
-				headers: { "Content-Type": "application/json" },
-			});
+			return identifyClient(messageToken, clientIp);
+		};
+		return handleWebSocket(request, identity, identifyMessageToken, () => rateLimiter.check(clientIp));
+	},
+});
+
+router.add({
+	method: "GET",
+	path: "/api/state",
+	summary: "Get the current state",
+	tags: ["state"],
+	role: COMMAND_ROLES.getState,
+	handler: () => commandResponse(getState()),
+});
+
+router.add<Partial<SwitcherState>>({
+	method: "PUT",
+	path: "/api/state",
+	summary: "Update the state",
+	description:
+		"Partial update; only provided fields change. Requires `operator` when only `rotationEnabled` " +
+		"and `fixedSourceId` are set, `admin` otherwise.",
+	tags: ["state"],
+	role: (body) => stateUpdateRole(body),
+	body: stateUpdateSchema,
+	responses: { 200: "The complete updated state" },
+	handler: async ({ body, identity }) => commandResponse(await updateState(body, identity!.label)),
+});
+
+router.add({
+	method: "GET",
+	path: "/api/events",
+	summary: "Server-Sent Events stream",
+	description: "Send `Last-Event-ID` to replay buffered events after that ID.",
+	tags: ["events"],
+	role: COMMAND_ROLES.events,
+	responses: { 200: "text/event-stream" },
+	handler: ({ request }) => {
+		const header = request.headers.get("Last-Event-ID");
+		const lastEventId = header !== null ? parseInt(header, 10) : NaN;
+		return createEventStream(isNaN(lastEventId) ? null : lastEventId);
+	},
+});
+
+router.add({
+	method: "GET",
+	path: "/api/history",
+	summary: "Query the switch history and audit log",
+	tags: ["history"],
+	role: COMMAND_ROLES.history,
+	query: [
+		{ name: "from", description: "Start of the time range (ISO 8601)", schema: { type: "string" } },
+		{ name: "to", description: "End of the time range (ISO 8601)", schema: { type: "string" } },
+		{ name: "sourceId", description: "Only switches to this source", schema: { type: "integer", minimum: 0 } },
+		{
+			name: "reason",
+			description: "Only switches with this reason",
+			schema: { type: "string", enum: ["rotation", "manual", "failover", "fixed"] },
+		},
+		{ name: "type", description: "Entry type", schema: { type: "string", enum: ["switch", "config"] } },
+		{
+			name: "limit",
+			description: "Number of most recent entries",
+			schema: { type: "integer", minimum: 1, maximum: 10000 },
+		},
+		{ name: "format", description: "Response format", schema: { type: "string", enum: ["json", "csv"] } },
+	],
+	responses: { 200: "Matching entries, oldest first", 422: "Invalid query parameters" },
+	handler: async ({ url }) => {
+		const query = parseHistoryQuery(url.searchParams);
+		if (Array.isArray(query)) {
+			return jsonResponse(validationErrorBody(query), 422);
+		}
+		const format = url.searchParams.get("format") ?? "json";
+		if (format !== "json" && format !== "csv") {
+			return jsonResponse(validationErrorBody([{ path: "format", message: "must be one of: json, csv" }]), 422);
 		}
-	}
 
-	// GET /api/sources
-	if (path === "/api/sources" && method === "GET") {
-		const sources = await getSources(config.baseUrl);
-		if (sources === null) {
-			return new Response(JSON.stringify({ error: "Failed to fetch sources" }), {
-				status: 500,
-				headers: { "Content-Type": "application/json" },
+		const entries = await queryHistory(query);
+		if (format === "csv") {
+			return new Response(historyToCsv(entries), {
+				headers: {
+					"Content-Type": "text/csv; charset=utf-8",
+					"Content-Disposition": 'attachment; filename="history.csv"',
+				},
 			});
 		}
-		return new Response(JSON.stringify({ sources }), {
-			headers: { "Content-Type": "application/json" },
-		});
+		return jsonResponse({ entries, count: entries.length });
+	},
+});
+
+router.add({
+	method: "GET",
+	path: "/api/sources",
+	summary: "List pipeline sources",
+	tags: ["sources"],
+	role: COMMAND_ROLES.getSources,
+	responses: { 200: "Sources from the pipeline service", 500: "Pipeline unavailable" },
+	handler: async () => commandResponse(await listSources(config!.baseUrl)),
+});
+
+router.add<{ id: number; holdSeconds?: number }>({
+	method: "PUT",
+	path: "/api/source/active",
+	summary: "Switch to a source",
+	description: "With `holdSeconds`, rotation is paused for that long and then resumes (a \"take\").",
+	tags: ["sources"],
+	role: COMMAND_ROLES.switchSource,
+	body: switchSourceSchema,
+	responses: { 200: "Switched", 404: "Source not found", 500: "Switch failed" },
+	handler: async ({ body, identity }) =>
+		commandResponse(await switchSource(config!.baseUrl, body.id, body.holdSeconds, identity!.label)),
+});
+
+router.add({
+	method: "DELETE",
+	path: "/api/override",
+	summary: "Cancel the manual override and resume the schedule",
+	tags: ["sources"],
+	role: COMMAND_ROLES.cancelOverride,
+	responses: { 200: "Override cancelled", 404: "No active override" },
+	handler: async ({ identity }) => commandResponse(await cancelOverride(identity!.label)),
+});
+
+router.add<{ schedule: RotationScheduleItem[] }>({
+	method: "PUT",
+	path: "/api/rotation/schedule",
+	summary: "Replace the default rotation schedule",
+	tags: ["rotation"],
+	role: COMMAND_ROLES.setSchedule,
+	body: setScheduleSchema,
+	handler: async ({ body, identity }) => commandResponse(await setSchedule(body.schedule, identity!.label)),
+});
+
+router.add<{ schedules: NamedSchedule[] }>({
+	method: "PUT",
+	path: "/api/rotation/schedules",
+	summary: "Replace the named schedules",
+	tags: ["rotation"],
+	role: COMMAND_ROLES.setSchedules,
+	body: setSchedulesSchema,
+	handler: async ({ body, identity }) => commandResponse(await setSchedules(body.schedules, identity!.label)),
+});
+
+router.add<{ cameraIds: number[] }>({
+	method: "PUT",
+	path: "/api/rotation/cameras",
+	summary: "Select the cameras used for rotation",
+	tags: ["rotation"],
+	role: COMMAND_ROLES.setCameras,
+	body: setCamerasSchema,
+	handler: async ({ body, identity }) => commandResponse(await setCameras(body.cameraIds, identity!.label)),
+});
+
+router.add({
+	method: "GET",
+	path: "/api/overlay",
+	summary: "Get the HTML overlay",
+	description:
+		"`desired` is what the switcher keeps applied; `actual` is the pipeline's status (null with `error` " +
+		"if unavailable); `bindings` and `default` pick the overlay on each switch.",
+	tags: ["overlay"],
+	role: COMMAND_ROLES.getOverlay,
+	handler: async () => commandResponse(await getOverlay()),
+});
+
+router.add<OverlayRequest>({
+	method: "PUT",
+	path: "/api/overlay",
+	summary: "Change the HTML overlay",
+	description:
+		"Only provided fields change; `null` stops managing a field. The settings are saved and re-applied " +
+		"after the pipeline restarts. `refresh` reloads the current URL. `pinned` keeps source switches " +
+		"and the overlay playlist from changing the overlay; unpinning applies the playlist or the live source's binding.",
+	tags: ["overlay"],
+	role: COMMAND_ROLES.setOverlay,
+	body: setOverlaySchema,
+	responses: { 200: "Applied", 500: "Saved but not applied (pipeline unavailable or overlay not initialized)" },
+	handler: async ({ body, identity }) => commandResponse(await setOverlay(body, identity!.label)),
+});
+
+router.add<OverlayBindingsRequest>({
+	method: "PUT",
+	path: "/api/overlay/bindings",
+	summary: "Replace the per-source overlay bindings",
+	description:
+		"On every successful switch the overlay follows the binding for the schedule item, then the source, " +
+		"then `default`. Only provided fields change; the live source's binding is applied right away.",
+	tags: ["overlay"],
+	role: COMMAND_ROLES.setOverlayBindings,
+	body: setOverlayBindingsSchema,
+	handler: async ({ body, identity }) => commandResponse(await updateOverlayBindings(body, identity!.label)),
+});
+
+router.add({
+	method: "GET",
+	path: "/api/overlay/playlist",
+	summary: "Get the overlay playlist",
+	description:
+		"`status.phase` is `showing` (entry `status.index`), `hidden` (gap after it), `idle` (no entry's " +
+		"window is active) or `stopped`; `status.until` is when the phase ends.",
+	tags: ["overlay"],
+	role: COMMAND_ROLES.getOverlayPlaylist,
+	handler: () => commandResponse(getOverlayPlaylist()),
+});
+
+router.add<OverlayPlaylistRequest>({
+	method: "PUT",
+	path: "/api/overlay/playlist",
+	summary: "Change the overlay playlist",
+	description:
+		"Only provided fields change. Entries are shown in turn for `durationSeconds`, then the overlay is " +
+		"hidden for `hideSeconds`; entries with a `window` are skipped while it is inactive. While enabled, " +
+		"overlay bindings are not applied; disabling it applies the live source's binding.",
+	tags: ["overlay"],
+	role: COMMAND_ROLES.setOverlayPlaylist,
+	body: setOverlayPlaylistSchema,
+	handler: async ({ body, identity }) => commandResponse(await updateOverlayPlaylist(body, identity!.label)),
+});
+
+/**
+ * Get the API routes (for documentation and tests)
+ */
+export function getRoutes(): readonly Route[] {
+	return router.routes;
+}
+
+/**
+ * Handle API request
+ */
+export async function handleAPIRequest(request: Request, clientIp: string): Promise<Response> {
+	if (!config) {
+		return jsonResponse({ error: "API not initialized" }, 500);
 	}
 
-	// PUT /api/source/active
-	if (path === "/api/source/active" && method === "PUT") {
-		try {
-			const body = await request.json() as { id: number };
-			const sources = await getSources(config.baseUrl);
-			if (sources === null) {
-				return new Response(JSON.stringify({ error: "Failed to fetch sources" }), {
-					status: 500,
-					headers: { "Content-Type": "application/json" },
-				});
-			}
-			
-			const source = sources.find(s => s.id === body.id);
-			if (!source) {
-				return new Response(JSON.stringify({ error: "Source not found" }), {
-					status: 404,
-					headers: { "Content-Type": "application/json" },
-				});
-			}
-			
-			const success = await switchToSource(config.baseUrl, body.id, source.name || `Source ${body.id}`);
-			if (success) {
-				return new Response(JSON.stringify({ success: true, sourceId: body.id }), {
-					headers: { "Content-Type": "application/json" },
-				});
-			} else {
-				return new Response(JSON.stringify({ error: "Failed to switch source" }), {
-					status: 500,
-					headers: { "Content-Type": "application/json" },
-				});
-			}
-		} catch (_error) {
-			return new Response(JSON.stringify({ error: "Invalid request body" }), {
-				status: 400,
-				headers: { "Content-Type": "application/json" },
+	const limit = rateLimiter.check(clientIp);
+	if (!limit.allowed) {
+		return tooManyRequests("Too many requests", limit.retryAfterSeconds);
+	}
+
+	const url = new URL(request.url);
+	const match = router.match(request.method, url.pathname);
+	if (match === null) {
+		return jsonResponse({ error: "Not found" }, 404);
+	}
+
+	if ("allowed" in match) {
+		const allow = [...match.allowed, "OPTIONS"];
+		if (request.method === "OPTIONS") {
+			return new Response(null, {
+				status: 204,
+				headers: { "Allow": allow.join(", "), ...corsHeaders(request.headers.get("Origin"), config.corsOrigins, allow) },
 			});
 		}
+		return jsonResponse({ error: "Method not allowed" }, 405, { "Allow": allow.join(", ") });
 	}
 
-	// PUT /api/rotation/schedule
-	if (path === "/api/rotation/schedule" && method === "PUT") {
-		try {
-			const body = await request.json() as { schedule: RotationScheduleItem[] };
-			const oldScheduleLength = state.rotationSchedule.length;
-			state.rotationSchedule = body.schedule;
-			// Reset schedule index if schedule length changed or index is out of bounds
-			if (
-				state.currentScheduleIndex !== null &&
-				(oldScheduleLength !== body.schedule.length || 
-				 state.currentScheduleIndex >= body.schedule.length)
-			) {
-				state.currentScheduleIndex = body.schedule.length > 0 ? 0 : null;
+	const { route, params } = match;
+	let identity: TokenIdentity | null = null;
+	if (!route.public) {
+		// Clients locked out after repeated auth failures are refused before their token is checked
+		const lockout = authLockout.check(clientIp);
+		if (!lockout.allowed) {
+			return tooManyRequests("Too many failed authentication attempts", lockout.retryAfterSeconds);
+		}
+		identity = authenticateRequest(request, clientIp);
+		if (identity === null) {
+			return jsonResponse({ error: "Unauthorized" }, 401);
+		}
+		if (typeof route.role !== "function") {
+			const denied = authorize(identity, route.role ?? "read");
+			if (denied) {
+				return denied;
 			}
-			await saveState();
-			return new Response(JSON.stringify({ success: true, schedule: state.rotationSchedule }), {
-				headers: { "Content-Type": "application/json" },
-			});
-		} catch (_error) {
-			return new Response(JSON.stringify({ error: "Invalid request body" }), {
-				status: 400,
-				headers: { "Content-Type": "application/json" },
-			});
 		}
 	}
 
-	// PUT /api/rotation/cameras
-	if (path === "/api/rotation/cameras" && method === "PUT") {
-		try {
-			const body = await request.json() as { cameraIds: number[] };
-			state.selectedCameraIds = body.cameraIds;
-			await saveState();
-			return new Response(JSON.stringify({ success: true, cameraIds: state.selectedCameraIds }), {
-				headers: { "Content-Type": "application/json" },
-			});
-		} catch (_error) {
-			return new Response(JSON.stringify({ error: "Invalid request body" }), {
-				status: 400,
-				headers: { "Content-Type": "application/json" },
-			});
+	let body: unknown = undefined;
+	if (route.body) {
+		body = await readBody(request);
+		if (body instanceof Response) {
+			return body;
+		}
+	}
+	// Authorize before validating, which may look up source IDs in the pipeline
+	if (typeof route.role === "function" && identity !== null) {
+		const denied = authorize(identity, route.role(body));
+		if (denied) {
+			return denied;
+		}
+	}
+	if (route.body) {
+		const invalid = await validateBody(route.body, body);
+		if (invalid) {
+			return invalid;
 		}
 	}
 
-	// 404 for unknown endpoints
-	return new Response(JSON.stringify({ error: "Not found" }), {
-		status: 404,
-		headers: { "Content-Type": "application/json" },
-	});
+	return await route.handler({ request, url, params, clientIp, identity, body });
+}
+
+/**
+ * Add CORS headers for allowed browser origins
+ */
+function applyCors(request: Request, response: Response): Response {
+	// WebSocket upgrades are not subject to CORS and have immutable headers
+	if (response.status === 101 || config!.corsOrigins.length === 0) {
+		return response;
+	}
+	for (const [name, value] of Object.entries(corsHeaders(request.headers.get("Origin"), config!.corsOrigins))) {
+		if (!response.headers.has(name)) {
+			response.headers.set(name, value);
+		}
+	}
+	return response;
 }
 
 /**
@@ -223,20 +617,46 @@ export function startAPIServer(): void {
 		throw new Error("API not initialized. Call initAPI() first.");
 	}
 
-	console.log(`🌐 Starting API server on port ${config.apiPort}...`);
-	
-	Deno.serve({ port: config.apiPort }, async (request) => {
+	log.info(`🌐 Starting API server on port ${config.apiPort}...`, { port: config.apiPort });
+
+	initEventStream();
+	initWebSocket(config);
+
+	// onListen replaces Deno's own "Listening on" line, which would break JSON log output
+	server = Deno.serve({ port: config.apiPort, onListen() {} }, async (request, info) => {
+		const clientIp = (info.remoteAddr as Deno.NetAddr).hostname;
+		const { pathname } = new URL(request.url);
+		const startedAt = Date.now();
+		let response: Response;
 		try {
-			return await handleAPIRequest(request);
+			response = isShuttingDown()
+				? jsonResponse({ error: "Shutting down" }, 503, { "Connection": "close" })
+				: await handleAPIRequest(request, clientIp);
 		} catch (error) {
-			console.error(`API error: ${error}`);
-			return new Response(JSON.stringify({ error: "Internal server error" }), {
-				status: 500,
-				headers: { "Content-Type": "application/json" },
-			});
+			log.error(`API error: ${error}`, { method: request.method, path: pathname, error });
+			response = jsonResponse({ error: "Internal server error" }, 500);
 		}
+		recordRequestMetric(request, response.status);
+		log.debug(`${request.method} ${pathname} ${response.status}`, {
+			method: request.method,
+			path: pathname,
+			status: response.status,
+			durationMs: Date.now() - startedAt,
+			clientIp,
+		});
+		return applyCors(request, response);
 	});
-	
-	console.log(`✅ API server running on http://localhost:${config.apiPort}`);
+
+	log.info(`✅ API server running on http://localhost:${config.apiPort}`);
 }
 
+/**
+ * Stop the API server, waiting for in-flight requests
+ * Close event streams and WebSockets first; they would keep it open.
+ */
+export async function stopAPIServer(): Promise<void> {
+	if (server !== null) {
+		await server.shutdown();
+		server = null;
+	}
+}
@@ -0,0 +1,107 @@
+/**
+ * API tokens and role-based access
+ *
+ * Roles are ordered: `read` < `operator` < `admin`; each role can do
+ * everything the roles below it can.
+ */
+
+import type { Config } from "./config.ts";
+import { timingSafeEqual } from "./security.ts";
+
+export type Role = "read" | "operator" | "admin";
+
+export const ROLES: Role[] = ["read", "operator", "admin"];
+
+export interface ApiToken {
+	label: string; // Recorded in logs and the history log
+	token: string;
+	role: Role;
+}
+
+export type TokenIdentity = Omit<ApiToken, "token">;
+
+// State fields an operator may change through PUT /api/state (rotation toggle, fixed source)
+const OPERATOR_STATE_FIELDS = ["rotationEnabled", "fixedSourceId"];
+
+/**
+ * Role required by each command (shared by REST routes and WebSocket commands)
+ * setState is resolved per request by stateUpdateRole.
+ */
+export const COMMAND_ROLES: Record<string, Role> = {
+	getState: "read",
+	getSources: "read",
+	events: "read",
+	history: "operator",
+	switchSource: "operator",
+	cancelOverride: "operator",
+	setState: "admin",
+	setSchedule: "admin",
+	setSchedules: "admin",
+	setCameras: "admin",
+	getOverlay: "read",
+	setOverlay: "operator",
+	setOverlayBindings: "admin",
+	getOverlayPlaylist: "read",
+	setOverlayPlaylist: "operator",
+};
+
+let tokens: ApiToken[] = [];
+
+/**
+ * Initialize the token registry with configuration
+ */
+export function initAuth(cfg: Config): void {
+	tokens = cfg.apiTokens;
+}
+
+/**
+ * Look up the identity for a token
+ * Every configured token is compared in constant time so the response time
+ * does not reveal how much of a guess matched.
+ */
+export function identifyToken(token: string): TokenIdentity | null {
+	let match: ApiToken | null = null;
+	for (const candidate of tokens) {
+		if (timingSafeEqual(token, candidate.token)) {
+			match = candidate;
+		}
+	}
+	return match !== null ? { label: match.label, role: match.role } : null;
+}
+
+/**
+ * Check whether a role includes the required role
+ */
+export function hasRole(role: Role, required: Role): boolean {
+	return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+/**
+ * Role needed for a partial state update: operator for rotation toggle and
+ * fixed source only, admin when it touches schedules or camera selection
+ * (a body that is not an object needs operator; validation refuses it)
+ */
+export function stateUpdateRole(body: unknown): Role {
+	if (typeof body !== "object" || body === null || Array.isArray(body)) {
+		return "operator";
+	}
+	const adminField = Object.keys(body).some((key) => !OPERATOR_STATE_FIELDS.includes(key));
+	return adminField ? "admin" : "operator";
+}
+
+/**
+ * Role needed to run a command, or null for unknown commands
+ */
+export function commandRole(command: string, body: Record<string, unknown> = {}): Role | null {
+	if (command === "setState") {
+		return stateUpdateRole(body);
+	}
+	return Object.hasOwn(COMMAND_ROLES, command) ? COMMAND_ROLES[command] : null;
+}
+
+/**
+ * Response body for a request outside the token's role (sent with status 403)
+ */
+export function forbiddenBody(required: Role): { error: string; requiredRole: Role } {
+	return { error: "Forbidden", requiredRole: required };
+}
@@ -3,6 +3,10 @@
  */
 
 import type { Config } from "./config.ts";
+import { cameraNotifyFailuresTotal } from "./metrics.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("camera");
 
 let config: Config | null = null;
 
@@ -37,15 +41,19 @@ export async function notifyCameraAPI(sourceId: number): Promise<void> {
 			signal: AbortSignal.timeout(5000),
 		});
 		if (response.ok) {
-			console.log(`   📡 Camera API notified: direction=${direction}`);
+			log.info(`   📡 Camera API notified: direction=${direction}`, { sourceId, direction, status: response.status });
 		} else {
+			cameraNotifyFailuresTotal.inc();
 			const text = await response.text();
-			console.error(
-				`   ⚠️  Camera API notification failed: ${response.status} - ${text}`
-			);
+			log.warn(`   ⚠️  Camera API notification failed: ${response.status} - ${text}`, {
+				sourceId,
+				direction,
+				status: response.status,
+			});
 		}
 	} catch (error) {
-		console.error(`   ⚠️  Camera API notification error: ${error}`);
+		cameraNotifyFailuresTotal.inc();
+		log.warn(`   ⚠️  Camera API notification error: ${error}`, { sourceId, direction, error });
 	}
 }
 
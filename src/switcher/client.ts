@@ -0,0 +1,252 @@
+/**
+ * Shared HTTP client for the pipeline service
+ *
+ * Requests time out, idempotent requests are retried with jittered exponential
+ * backoff, and a circuit breaker stops calling the pipeline after repeated
+ * failures until a trial request succeeds.
+ */
+
+import type { BreakerState, BreakerStatus } from "./types.ts";
+import type { Config } from "./config.ts";
+import { EventEmitter } from "./events.ts";
+import { pipelineRequestDuration, pipelineRetriesTotal } from "./metrics.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("client");
+
+export interface ClientOptions {
+	timeoutMs: number;
+	retries: number; // Extra attempts for idempotent requests
+	retryBaseMs: number;
+	retryMaxMs: number;
+	breakerThreshold: number; // Consecutive failed calls that open the breaker, 0 disables it
+	breakerResetMs: number; // How long the breaker stays open before a trial request
+}
+
+export interface RequestOptions {
+	operation: string; // Metric label, e.g. "getSources"
+	idempotent: boolean; // Safe to send again after a timeout or 5xx
+	permanentStatuses?: number[]; // 5xx answers that retrying cannot change: returned at once, not counted as failures
+}
+
+/**
+ * Thrown instead of calling the pipeline while the breaker is open
+ */
+export class CircuitOpenError extends Error {
+	constructor(readonly retryAt: string | null) {
+		super(`Pipeline circuit breaker is open${retryAt ? ` until ${retryAt}` : ""}`);
+		this.name = "CircuitOpenError";
+	}
+}
+
+/**
+ * Circuit breaker counting consecutive failed calls
+ * Open: calls are refused until resetMs has passed. Half-open: one trial call
+ * is let through; success closes the breaker, failure opens it again.
+ */
+export class CircuitBreaker {
+	private failures = 0;
+	private openedAt: number | null = null;
+	private trialInFlight = false;
+	private lastError: string | null = null;
+
+	constructor(
+		private readonly threshold: number,
+		private readonly resetMs: number
+	) {}
+
+	state(now: number = Date.now()): BreakerState {
+		if (this.openedAt === null) {
+			return "closed";
+		}
+		return now - this.openedAt >= this.resetMs ? "half-open" : "open";
+	}
+
+	/**
+	 * Whether a call may be made now (claims the trial call when half-open)
+	 */
+	allowRequest(now: number = Date.now()): boolean {
+		switch (this.state(now)) {
+			case "closed":
+				return true;
+			case "half-open":
+				if (this.trialInFlight) {
+					return false;
+				}
+				this.trialInFlight = true;
+				return true;
+			default:
+				return false;
+		}
+	}
+
+	/**
+	 * Record a successful call; returns true if this closed the breaker
+	 */
+	recordSuccess(): boolean {
+		const wasOpen = this.openedAt !== null;
+		this.failures = 0;
+		this.openedAt = null;
+		this.trialInFlight = false;
+		this.lastError = null;
+		return wasOpen;
+	}
+
+	/**
+	 * Record a failed call; returns true if this opened a closed breaker
+	 */
+	recordFailure(error: string, now: number = Date.now()): boolean {
+		this.failures++;
+		this.lastError = error;
+		if (this.openedAt !== null) {
+			// Failed trial - stay open for another reset period
+			this.openedAt = now;
+			this.trialInFlight = false;
+			return false;
+		}
+		if (this.threshold > 0 && this.failures >= this.threshold) {
+			this.openedAt = now;
+			return true;
+		}
+		return false;
+	}
+
+	status(now: number = Date.now()): BreakerStatus {
+		return {
+			state: this.state(now),
+			consecutiveFailures: this.failures,
+			openedAt: this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+			retryAt: this.openedAt !== null ? new Date(this.openedAt + this.resetMs).toISOString() : null,
+			lastError: this.lastError,
+		};
+	}
+}
+
+/**
+ * Backoff before a retry: exponential in the attempt, capped, with the upper half jittered
+ * @param attempt - 0 for the first retry
+ */
+export function backoffDelay(
+	attempt: number,
+	baseMs: number,
+	maxMs: number,
+	random: () => number = Math.random
+): number {
+	const cap = Math.min(maxMs, baseMs * 2 ** attempt);
+	return Math.round(cap / 2 + random() * cap / 2);
+}
+
+/**
+ * Event emitter for breaker transitions
+ * Events: "opened", "closed"
+ */
+export const breakerEvents = new EventEmitter<BreakerStatus>();
+
+// Until initPipelineClient: one attempt with the old 5s timeout and no breaker
+let options: ClientOptions = {
+	timeoutMs: 5000,
+	retries: 0,
+	retryBaseMs: 250,
+	retryMaxMs: 2000,
+	breakerThreshold: 0,
+	breakerResetMs: 30000,
+};
+let breaker = new CircuitBreaker(0, options.breakerResetMs);
+
+/**
+ * Initialize the client with configuration (resets the breaker)
+ */
+export function initPipelineClient(cfg: Config): void {
+	options = {
+		timeoutMs: cfg.pipelineTimeoutMs,
+		retries: cfg.pipelineRetries,
+		retryBaseMs: cfg.pipelineRetryBaseMs,
+		retryMaxMs: cfg.pipelineRetryMaxMs,
+		breakerThreshold: cfg.breakerThreshold,
+		breakerResetMs: cfg.breakerResetMs,
+	};
+	breaker = new CircuitBreaker(options.breakerThreshold, options.breakerResetMs);
+}
+
+/**
+ * Current breaker status
+ */
+export function getBreakerStatus(): BreakerStatus {
+	return breaker.status();
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function recordOutcome(error: string | null): void {
+	if (error === null) {
+		if (breaker.recordSuccess()) {
+			log.info("🔌 Pipeline service reachable again, resuming calls");
+			breakerEvents.emit("closed", breaker.status());
+		}
+		return;
+	}
+	if (breaker.recordFailure(error)) {
+		const status = breaker.status();
+		log.error(
+			`🔌 Pipeline service failed ${status.consecutiveFailures} times in a row, pausing calls until ${status.retryAt}`,
+			{ consecutiveFailures: status.consecutiveFailures, retryAt: status.retryAt, error }
+		);
+		breakerEvents.emit("opened", status);
+	}
+}
+
+/**
+ * Make a request to the pipeline service
+ * Network errors, timeouts and 5xx responses are retried for idempotent requests
+ * and count as one failed call towards the breaker, except for the request's
+ * permanentStatuses. Returns the final response (which may be a 5xx) or throws
+ * the final error, or CircuitOpenError without making a request.
+ */
+export async function pipelineFetch(url: string, init: RequestInit, request: RequestOptions): Promise<Response> {
+	const trial = breaker.state() === "half-open";
+	if (!breaker.allowRequest()) {
+		throw new CircuitOpenError(breaker.status().retryAt);
+	}
+
+	// A trial call is a single probe; retrying it would hold the breaker half-open
+	const attempts = request.idempotent && !trial ? options.retries + 1 : 1;
+	for (let attempt = 1; ; attempt++) {
+		const last = attempt >= attempts;
+		const endTimer = pipelineRequestDuration.startTimer({ operation: request.operation });
+		let failure: string;
+		try {
+			const response = await fetch(url, {
+				...init,
+				signal: AbortSignal.timeout(options.timeoutMs),
+			}).finally(endTimer);
+			if (response.status < 500 || request.permanentStatuses?.includes(response.status)) {
+				recordOutcome(null);
+				return response;
+			}
+			failure = `${response.status} ${response.statusText}`.trim();
+			if (last) {
+				recordOutcome(failure);
+				return response;
+			}
+			await response.body?.cancel();
+		} catch (error) {
+			failure = String(error);
+			if (last) {
+				recordOutcome(failure);
+				throw error;
+			}
+		}
+
+		const delay = backoffDelay(attempt - 1, options.retryBaseMs, options.retryMaxMs);
+		log.debug(`🔁 Pipeline ${request.operation} failed (${failure}), retry ${attempt}/${attempts - 1} in ${delay}ms`, {
+			operation: request.operation,
+			attempt,
+			delayMs: delay,
+			error: failure,
+		});
+		pipelineRetriesTotal.inc({ operation: request.operation });
+		await sleep(delay);
+	}
+}
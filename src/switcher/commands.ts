@@ -0,0 +1,283 @@
+/**
+ * Switcher commands shared by the REST and WebSocket APIs
+ *
+ * Commands that change configuration are recorded in the history log under
+ * the initiator's name.
+ */
+
+import type {
+	SwitcherState,
+	RotationScheduleItem,
+	NamedSchedule,
+	OverlaySettings,
+	OverlayBinding,
+	OverlayTarget,
+	OverlayPlaylist,
+} from "./types.ts";
+import { state, saveState } from "./state.ts";
+import { getSources, switchToSource } from "./pipeline.ts";
+import { endOverride, getRemainingSeconds, startOverride } from "./override.ts";
+import { clearFailover } from "./failover.ts";
+import { recordHistory } from "./history.ts";
+import { getBreakerStatus } from "./client.ts";
+import { getConnectivity } from "./monitor.ts";
+import { applyCurrentOverlayBinding, getActualOverlay, setDesiredOverlay, setOverlayBindings } from "./overlay.ts";
+import { applyCurrentOverlayPlaylist, getOverlayPlaylistStatus, setOverlayPlaylist } from "./playlist.ts";
+
+export interface CommandResult {
+	status: number;
+	body: unknown;
+}
+
+export interface OverlayRequest extends Partial<OverlaySettings> {
+	refresh?: boolean; // Reload the current URL
+}
+
+export interface OverlayBindingsRequest {
+	default?: OverlayTarget | null;
+	bindings?: OverlayBinding[];
+}
+
+export type OverlayPlaylistRequest = Partial<OverlayPlaylist>;
+
+/**
+ * Replace the default schedule
+ * Resets schedule index if it is the one running and its length changed or index is out of bounds
+ */
+function replaceSchedule(schedule: RotationScheduleItem[]): void {
+	const oldScheduleLength = state.rotationSchedule.length;
+	state.rotationSchedule = schedule;
+	if (
+		state.activeScheduleName === null &&
+		state.currentScheduleIndex !== null &&
+		(oldScheduleLength !== schedule.length ||
+		 state.currentScheduleIndex >= schedule.length)
+	) {
+		state.currentScheduleIndex = schedule.length > 0 ? 0 : null;
+	}
+}
+
+/**
+ * Record a configuration change in the history log
+ */
+async function recordChange(action: string, changes: unknown, initiator: string): Promise<void> {
+	await recordHistory({ type: "config", initiator, action, changes });
+}
+
+/**
+ * Current state with derived fields (override countdown, pipeline connectivity and breaker) for API clients
+ */
+export function getStateSnapshot(): Record<string, unknown> {
+	return {
+		...state,
+		override: state.override !== null
+			? { ...state.override, remainingSeconds: getRemainingSeconds(state.override) }
+			: null,
+		pipeline: getBreakerStatus(),
+		connectivity: getConnectivity(),
+	};
+}
+
+/**
+ * Get the current state
+ */
+export function getState(): CommandResult {
+	return { status: 200, body: getStateSnapshot() };
+}
+
+/**
+ * Apply a partial state update
+ */
+export async function updateState(body: Partial<SwitcherState>, initiator: string = "api"): Promise<CommandResult> {
+	if (body.rotationEnabled !== undefined) {
+		state.rotationEnabled = body.rotationEnabled;
+		// Clear fixedSourceId when rotation is enabled
+		if (state.rotationEnabled) {
+			state.fixedSourceId = null;
+		}
+	}
+	if (body.rotationMode !== undefined) {
+		state.rotationMode = body.rotationMode;
+	}
+	if (body.fixedSourceId !== undefined) {
+		state.fixedSourceId = body.fixedSourceId;
+	}
+	if (body.selectedCameraIds !== undefined) {
+		state.selectedCameraIds = body.selectedCameraIds;
+	}
+	if (body.rotationSchedule !== undefined) {
+		replaceSchedule(body.rotationSchedule);
+	}
+	if (body.schedules !== undefined) {
+		state.schedules = body.schedules;
+	}
+
+	await saveState();
+	await recordChange("updateState", body, initiator);
+
+	return { status: 200, body: getStateSnapshot() };
+}
+
+/**
+ * List sources from the pipeline service
+ */
+export async function listSources(baseUrl: string): Promise<CommandResult> {
+	const sources = await getSources(baseUrl);
+	if (sources === null) {
+		return { status: 500, body: { error: "Failed to fetch sources" } };
+	}
+	return { status: 200, body: { sources } };
+}
+
+/**
+ * Manually switch to a source
+ * @param holdSeconds - Pause rotation for this long, then resume the schedule ("take")
+ */
+export async function switchSource(
+	baseUrl: string,
+	id: number,
+	holdSeconds?: number,
+	initiator: string = "api"
+): Promise<CommandResult> {
+	const sources = await getSources(baseUrl);
+	if (sources === null) {
+		return { status: 500, body: { error: "Failed to fetch sources" } };
+	}
+
+	const source = sources.find(s => s.id === id);
+	if (!source) {
+		return { status: 404, body: { error: "Source not found" } };
+	}
+
+	const success = await switchToSource(baseUrl, id, source.name || `Source ${id}`, { reason: "manual", initiator });
+	if (success) {
+		// The operator's choice replaces a backup on air, so no failback may cut it short
+		await clearFailover();
+		if (holdSeconds !== undefined) {
+			const override = await startOverride(id, holdSeconds);
+			return { status: 200, body: { success: true, sourceId: id, override } };
+		}
+		return { status: 200, body: { success: true, sourceId: id } };
+	}
+	return { status: 500, body: { error: "Failed to switch source" } };
+}
+
+/**
+ * Cancel the active manual override and resume the schedule
+ */
+export async function cancelOverride(initiator: string = "api"): Promise<CommandResult> {
+	if (!await endOverride()) {
+		return { status: 404, body: { error: "No active override" } };
+	}
+	await recordChange("cancelOverride", null, initiator);
+	return { status: 200, body: { success: true } };
+}
+
+/**
+ * Replace the rotation schedule
+ */
+export async function setSchedule(schedule: RotationScheduleItem[], initiator: string = "api"): Promise<CommandResult> {
+	replaceSchedule(schedule);
+	await saveState();
+	await recordChange("setSchedule", { schedule }, initiator);
+	return { status: 200, body: { success: true, schedule: state.rotationSchedule } };
+}
+
+/**
+ * Replace the named schedules
+ * The rotation engine re-selects the active schedule on the resulting state change.
+ */
+export async function setSchedules(schedules: NamedSchedule[], initiator: string = "api"): Promise<CommandResult> {
+	state.schedules = schedules;
+	await saveState();
+	await recordChange("setSchedules", { schedules }, initiator);
+	return { status: 200, body: { success: true, schedules: state.schedules } };
+}
+
+/**
+ * Replace the cameras selected for rotation
+ */
+export async function setCameras(cameraIds: number[], initiator: string = "api"): Promise<CommandResult> {
+	state.selectedCameraIds = cameraIds;
+	await saveState();
+	await recordChange("setCameras", { cameraIds }, initiator);
+	return { status: 200, body: { success: true, cameraIds: state.selectedCameraIds } };
+}
+
+/**
+ * Get the desired overlay, the pipeline's current overlay status and the overlay bindings
+ */
+export async function getOverlay(): Promise<CommandResult> {
+	const config = { default: state.overlayDefault, bindings: state.overlayBindings };
+	try {
+		return { status: 200, body: { desired: state.overlay, actual: await getActualOverlay(), ...config } };
+	} catch (error) {
+		return { status: 200, body: { desired: state.overlay, actual: null, error: String(error), ...config } };
+	}
+}
+
+/**
+ * Change the desired overlay and apply it to the pipeline
+ * The change is kept even if the pipeline call fails, and applied when the pipeline is back.
+ * Unpinning applies the overlay playlist if it is enabled, otherwise the live source's overlay binding.
+ */
+export async function setOverlay(body: OverlayRequest, initiator: string = "api"): Promise<CommandResult> {
+	const { refresh, ...changes } = body;
+	let result: CommandResult;
+	try {
+		let actual = await setDesiredOverlay(changes, refresh ?? false);
+		if (body.pinned === false) {
+			if (state.overlayPlaylist.enabled) {
+				await applyCurrentOverlayPlaylist();
+			} else {
+				await applyCurrentOverlayBinding();
+			}
+			actual = await getActualOverlay();
+		}
+		result = { status: 200, body: { success: true, desired: state.overlay, actual } };
+	} catch (error) {
+		result = { status: 500, body: { error: "Failed to apply overlay", detail: String(error), desired: state.overlay } };
+	}
+	await recordChange("setOverlay", body, initiator);
+	return result;
+}
+
+/**
+ * Replace the per-source overlay bindings and/or the default, and apply them to the live source
+ */
+export async function updateOverlayBindings(
+	body: OverlayBindingsRequest,
+	initiator: string = "api"
+): Promise<CommandResult> {
+	await setOverlayBindings(
+		body.bindings ?? state.overlayBindings,
+		body.default !== undefined ? body.default : state.overlayDefault
+	);
+	await recordChange("setOverlayBindings", body, initiator);
+	await applyCurrentOverlayBinding();
+	return { status: 200, body: { success: true, default: state.overlayDefault, bindings: state.overlayBindings } };
+}
+
+/**
+ * Get the overlay playlist and what it is doing right now
+ */
+export function getOverlayPlaylist(): CommandResult {
+	return { status: 200, body: { ...state.overlayPlaylist, status: getOverlayPlaylistStatus() } };
+}
+
+/**
+ * Enable or disable the overlay playlist and/or replace its entries
+ * Disabling it hands the overlay back to the live source's binding.
+ */
+export async function updateOverlayPlaylist(
+	body: OverlayPlaylistRequest,
+	initiator: string = "api"
+): Promise<CommandResult> {
+	const wasEnabled = state.overlayPlaylist.enabled;
+	await setOverlayPlaylist({ ...state.overlayPlaylist, ...body });
+	await recordChange("setOverlayPlaylist", body, initiator);
+	if (wasEnabled && !state.overlayPlaylist.enabled) {
+		await applyCurrentOverlayBinding();
+	}
+	return { status: 200, body: { success: true, ...state.overlayPlaylist, status: getOverlayPlaylistStatus() } };
+}
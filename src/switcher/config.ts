@@ -2,22 +2,84 @@
  * Configuration management
  */
 
-export interface Config {
+import type { StateStoreType } from "./stores.ts";
+import type { ApiToken, Role } from "./auth.ts";
+import { ROLES } from "./auth.ts";
+import type { LoggingConfig } from "../logger.ts";
+import { parseLogFormat, parseLogLevel } from "../logger.ts";
+
+export interface Config extends LoggingConfig {
 	baseUrl: string;
 	apiPort: number;
-	apiToken: string;
+	apiTokens: ApiToken[];
 	cameraApiHost: string;
 	cameraApiToken: string | undefined;
 	sourceDirectionMap: Map<number, string>;
+	sourceRefreshInterval: number;
+	healthCheckInterval: number;
+	shutdownTimeout: number;
+	failoverChains: Map<number, number[]>;
+	failoverFallbackId: number | null;
+	failoverHoldDown: number;
+	stateStore: StateStoreType;
+	dataDir: string;
+	historyMaxBytes: number;
+	historyMaxFiles: number;
+	rateLimitRequests: number;
+	rateLimitWindow: number;
+	authMaxFailures: number;
+	authLockoutSeconds: number;
+	maxBodyBytes: number;
+	corsOrigins: string[];
+	pipelineTimeoutMs: number;
+	pipelineRetries: number;
+	pipelineRetryBaseMs: number;
+	pipelineRetryMaxMs: number;
+	breakerThreshold: number;
+	breakerResetMs: number;
+}
+
+type EnvGetter = (name: string) => string | undefined;
+
+/**
+ * Read a positive whole number from an environment variable
+ * @throws Error if the variable is set to anything else
+ */
+function parsePositiveInt(name: string, defaultValue: number, getEnv: EnvGetter): number {
+	const value = getEnv(name);
+	if (value === undefined || value.trim() === "") {
+		return defaultValue;
+	}
+	const parsed = Number(value.trim());
+	if (!Number.isInteger(parsed) || parsed < 1) {
+		throw new Error(`${name} must be a positive whole number (got "${value}")`);
+	}
+	return parsed;
+}
+
+/**
+ * Read a whole number that may be 0 (usually "disabled") from an environment variable
+ * @throws Error if the variable is set to anything else
+ */
+function parseNonNegativeInt(name: string, defaultValue: number, getEnv: EnvGetter): number {
+	const value = getEnv(name);
+	if (value === undefined || value.trim() === "") {
+		return defaultValue;
+	}
+	const parsed = Number(value.trim());
+	if (!Number.isInteger(parsed) || parsed < 0) {
+		throw new Error(`${name} must be a whole number, 0 or more (got "${value}")`);
+	}
+	return parsed;
 }
 
 /**
  * Parse source-to-direction mapping from environment variable
  * Format: "1:N,2:E,3:W,4:S" or similar
  */
-function parseSourceDirectionMap(): Map<number, string> {
+function parseSourceDirectionMap(getEnv: EnvGetter): Map<number, string> {
 	const map = new Map<number, string>();
-	const mapStr = Deno.env.get("SOURCE_DIRECTION_MAP");
+	const mapStr = getEnv("SOURCE_DIRECTION_MAP");
 	if (mapStr) {
 		const pairs = mapStr.split(",");
 		for (const pair of pairs) {
@@ -31,27 +93,141 @@ function parseSourceDirectionMap(): Map<number, string> {
 	return map;
 }
 
+/**
+ * Parse per-source failover chains from environment variable
+ * Format: "1:2|3,2:1|3" (source 1 fails over to 2, then 3)
+ */
+function parseFailoverChains(getEnv: EnvGetter): Map<number, number[]> {
+	const map = new Map<number, number[]>();
+	const chainStr = getEnv("FAILOVER_CHAINS");
+	if (chainStr) {
+		const pairs = chainStr.split(",");
+		for (const pair of pairs) {
+			const [sourceId, backups] = pair.split(":").map((s) => s.trim());
+			const id = parseInt(sourceId, 10);
+			if (isNaN(id) || !backups) {
+				continue;
+			}
+			const chain = backups
+				.split("|")
+				.map((b) => parseInt(b.trim(), 10))
+				.filter((b) => !isNaN(b) && b !== id);
+			if (chain.length > 0) {
+				map.set(id, chain);
+			}
+		}
+	}
+	return map;
+}
+
+/**
+ * Load API tokens from a JSON file
+ * Format: { "tokens": [{ "label": "overlay-page", "token": "...", "role": "read" }, ...] }
+ */
+export function loadApiTokens(path: string): ApiToken[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(Deno.readTextFileSync(path));
+	} catch (error) {
+		throw new Error(`Cannot read API_TOKENS_FILE ${path}: ${error}`);
+	}
+
+	const entries = (data as { tokens?: unknown })?.tokens;
+	if (!Array.isArray(entries)) {
+		throw new Error(`API_TOKENS_FILE ${path} must contain a "tokens" array`);
+	}
+
+	const labels = new Set<string>();
+	const values = new Set<string>();
+	return entries.map((entry, index) => {
+		const { label, token, role } = (entry ?? {}) as Record<string, unknown>;
+		if (typeof label !== "string" || label === "") {
+			throw new Error(`API_TOKENS_FILE tokens[${index}]: label must be a non-empty string`);
+		}
+		if (typeof token !== "string" || token.length < 16) {
+			throw new Error(`API_TOKENS_FILE tokens[${index}] (${label}): token must be at least 16 characters`);
+		}
+		if (!ROLES.includes(role as Role)) {
+			throw new Error(`API_TOKENS_FILE tokens[${index}] (${label}): role must be one of ${ROLES.join(", ")}`);
+		}
+		if (labels.has(label) || values.has(token)) {
+			throw new Error(`API_TOKENS_FILE tokens[${index}] (${label}): duplicate label or token`);
+		}
+		labels.add(label);
+		values.add(token);
+		return { label, token, role: role as Role };
+	});
+}
+
 /**
  * Load configuration from environment variables and command line arguments
  */
-export function loadConfig(baseUrlArg?: string): Config {
-	const baseUrl = baseUrlArg || Deno.env.get("BASE_URL");
+export function loadConfig(
+	baseUrlArg?: string,
+	getEnv: EnvGetter = (name) => Deno.env.get(name)
+): Config {
+	const baseUrl = baseUrlArg || getEnv("BASE_URL");
 	if (!baseUrl) {
 		throw new Error("BASE_URL environment variable is not set");
 	}
 
-	const apiToken = Deno.env.get("API_TOKEN");
-	if (!apiToken) {
-		throw new Error("API_TOKEN environment variable is not set");
+	// API_TOKEN is an admin token labelled "admin"; API_TOKENS_FILE adds labelled tokens with roles
+	const apiToken = getEnv("API_TOKEN");
+	const apiTokensFile = getEnv("API_TOKENS_FILE");
+	if (!apiToken && !apiTokensFile) {
+		throw new Error("API_TOKEN or API_TOKENS_FILE environment variable must be set");
+	}
+	const apiTokens = apiTokensFile ? loadApiTokens(apiTokensFile) : [];
+	if (apiToken) {
+		if (apiTokens.some((t) => t.token === apiToken || t.label === "admin")) {
+			throw new Error('API_TOKEN duplicates a token or the "admin" label in API_TOKENS_FILE');
+		}
+		apiTokens.push({ label: "admin", token: apiToken, role: "admin" });
+	}
+
+	const fallbackId = getEnv("FAILOVER_FALLBACK_SOURCE");
+
+	const stateStore = getEnv("STATE_STORE") || "file";
+	if (!["file", "kv", "memory"].includes(stateStore)) {
+		throw new Error(`STATE_STORE must be one of file, kv, memory (got "${stateStore}")`);
 	}
 
 	return {
 		baseUrl,
-		apiPort: parseInt(Deno.env.get("API_PORT") || "3000", 10),
-		apiToken,
-		cameraApiHost: Deno.env.get("CAMERA_API_HOST") || "http://localhost:3000",
-		cameraApiToken: Deno.env.get("CAMERA_API_TOKEN"),
-		sourceDirectionMap: parseSourceDirectionMap(),
+		apiPort: parseInt(getEnv("API_PORT") || "3000", 10),
+		apiTokens,
+		cameraApiHost: getEnv("CAMERA_API_HOST") || "http://localhost:3000",
+		cameraApiToken: getEnv("CAMERA_API_TOKEN"),
+		sourceDirectionMap: parseSourceDirectionMap(getEnv),
+		sourceRefreshInterval: parsePositiveInt("SOURCE_REFRESH_INTERVAL", 15, getEnv),
+		healthCheckInterval: parsePositiveInt("HEALTH_CHECK_INTERVAL", 10, getEnv),
+		shutdownTimeout: parsePositiveInt("SHUTDOWN_TIMEOUT", 8, getEnv),
+		logLevel: parseLogLevel(getEnv("LOG_LEVEL")),
+		logFormat: parseLogFormat(getEnv("LOG_FORMAT")),
+		failoverChains: parseFailoverChains(getEnv),
+		failoverFallbackId: fallbackId !== undefined && !isNaN(parseInt(fallbackId, 10))
+			? parseInt(fallbackId, 10)
+			: null,
+		failoverHoldDown: parsePositiveInt("FAILOVER_HOLD_DOWN", 30, getEnv),
+		stateStore: stateStore as StateStoreType,
+		dataDir: getEnv("DATA_DIR") || "./data",
+		historyMaxBytes: parsePositiveInt("HISTORY_MAX_BYTES", 5242880, getEnv),
+		historyMaxFiles: parsePositiveInt("HISTORY_MAX_FILES", 5, getEnv),
+		rateLimitRequests: parseNonNegativeInt("RATE_LIMIT_REQUESTS", 120, getEnv),
+		rateLimitWindow: parsePositiveInt("RATE_LIMIT_WINDOW", 60, getEnv),
+		authMaxFailures: parseNonNegativeInt("AUTH_MAX_FAILURES", 5, getEnv),
+		authLockoutSeconds: parsePositiveInt("AUTH_LOCKOUT_SECONDS", 300, getEnv),
+		maxBodyBytes: parsePositiveInt("MAX_BODY_BYTES", 65536, getEnv),
+		corsOrigins: (getEnv("CORS_ORIGINS") || "")
+			.split(",")
+			.map((origin) => origin.trim())
+			.filter((origin) => origin !== ""),
+		pipelineTimeoutMs: parsePositiveInt("PIPELINE_TIMEOUT_MS", 5000, getEnv),
+		pipelineRetries: parseNonNegativeInt("PIPELINE_RETRIES", 2, getEnv),
+		pipelineRetryBaseMs: parsePositiveInt("PIPELINE_RETRY_BASE_MS", 250, getEnv),
+		pipelineRetryMaxMs: parsePositiveInt("PIPELINE_RETRY_MAX_MS", 2000, getEnv),
+		breakerThreshold: parseNonNegativeInt("PIPELINE_BREAKER_FAILURES", 5, getEnv),
+		breakerResetMs: parsePositiveInt("PIPELINE_BREAKER_RESET_MS", 30000, getEnv),
 	};
 }
 
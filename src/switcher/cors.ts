@@ -0,0 +1,40 @@
+/**
+ * CORS headers for browser dashboards on other origins
+ */
+
+const ALLOWED_HEADERS = "Authorization, Content-Type, Last-Event-ID";
+const EXPOSED_HEADERS = "Retry-After";
+const PREFLIGHT_MAX_AGE_SECONDS = 600;
+
+/**
+ * Check whether an origin is allowed ("*" allows every origin)
+ */
+export function isOriginAllowed(origin: string, allowedOrigins: string[]): boolean {
+	return allowedOrigins.includes("*") || allowedOrigins.includes(origin);
+}
+
+/**
+ * CORS headers for a response, or none when the origin is not allowed
+ * @param methods - Methods the path supports; set for preflight (OPTIONS) responses
+ */
+export function corsHeaders(
+	origin: string | null,
+	allowedOrigins: string[],
+	methods?: string[]
+): Record<string, string> {
+	if (origin === null || !isOriginAllowed(origin, allowedOrigins)) {
+		return {};
+	}
+
+	const headers: Record<string, string> = {
+		"Access-Control-Allow-Origin": origin,
+		"Access-Control-Expose-Headers": EXPOSED_HEADERS,
+		"Vary": "Origin",
+	};
+	if (methods !== undefined) {
+		headers["Access-Control-Allow-Methods"] = methods.join(", ");
+		headers["Access-Control-Allow-Headers"] = ALLOWED_HEADERS;
+		headers["Access-Control-Max-Age"] = String(PREFLIGHT_MAX_AGE_SECONDS);
+	}
+	return headers;
+}
@@ -0,0 +1,30 @@
+/**
+ * Simple typed EventEmitter shared by switcher modules
+ */
+
+export class EventEmitter<T = void> {
+	private listeners: Map<string, Set<(payload: T) => void>> = new Map();
+
+	on(event: string, listener: (payload: T) => void): void {
+		if (!this.listeners.has(event)) {
+			this.listeners.set(event, new Set());
+		}
+		this.listeners.get(event)!.add(listener);
+	}
+
+	off(event: string, listener: (payload: T) => void): void {
+		this.listeners.get(event)?.delete(listener);
+	}
+
+	emit(event: string, payload: T): void {
+		this.listeners.get(event)?.forEach((listener) => listener(payload));
+	}
+
+	removeAllListeners(event?: string): void {
+		if (event) {
+			this.listeners.delete(event);
+		} else {
+			this.listeners.clear();
+		}
+	}
+}
@@ -0,0 +1,212 @@
+/**
+ * Automatic failover to backup sources when the active source goes unhealthy
+ */
+
+import type { Source } from "./types.ts";
+import type { Config } from "./config.ts";
+import { state, saveState } from "./state.ts";
+import { switchToSource } from "./pipeline.ts";
+import { getCurrentSources } from "./sources.ts";
+import { isSourceHealthy } from "./sourcelist.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("failover");
+
+export interface FailoverPolicy {
+	chains: Map<number, number[]>;
+	fallbackSourceId: number | null;
+	holdDownSeconds: number;
+}
+
+let policy: FailoverPolicy = {
+	chains: new Map(),
+	fallbackSourceId: null,
+	holdDownSeconds: 30,
+};
+let failbackTimer: number | null = null;
+
+/**
+ * Initialize failover with configuration
+ */
+export function initFailover(cfg: Config): void {
+	policy = {
+		chains: cfg.failoverChains,
+		fallbackSourceId: cfg.failoverFallbackId,
+		holdDownSeconds: cfg.failoverHoldDown,
+	};
+}
+
+/**
+ * Check whether a source can be put on air
+ */
+export function isSourceUsable(source: Source | undefined): boolean {
+	return source !== undefined && (source.enabled || false) && isSourceHealthy(source);
+}
+
+/**
+ * Pick the first usable backup for a source: its own chain first, then the global fallback
+ */
+export function selectBackupSource(
+	primaryId: number,
+	sources: Source[],
+	failoverPolicy: FailoverPolicy,
+	exclude: number[] = []
+): Source | null {
+	const candidates = [...(failoverPolicy.chains.get(primaryId) || [])];
+	if (failoverPolicy.fallbackSourceId !== null) {
+		candidates.push(failoverPolicy.fallbackSourceId);
+	}
+
+	for (const id of candidates) {
+		if (id === primaryId || exclude.includes(id)) {
+			continue;
+		}
+		const source = sources.find((s) => s.id === id);
+		if (isSourceUsable(source)) {
+			return source!;
+		}
+	}
+	return null;
+}
+
+/**
+ * Cancel a pending failback
+ */
+function cancelFailbackTimer(): void {
+	if (failbackTimer !== null) {
+		clearTimeout(failbackTimer);
+		failbackTimer = null;
+	}
+}
+
+/**
+ * Cancel pending failover work (on shutdown)
+ */
+export function stopFailover(): void {
+	cancelFailbackTimer();
+}
+
+/**
+ * Forget the current failover (the primary source is being replaced anyway)
+ */
+export async function clearFailover(): Promise<void> {
+	cancelFailbackTimer();
+	if (state.failover !== null) {
+		state.failover = null;
+		await saveState(false);
+	}
+}
+
+/**
+ * Switch from a failed primary source to its first usable backup
+ * Returns true if a backup was put on air
+ */
+export async function activateFailover(baseUrl: string, primaryId: number): Promise<boolean> {
+	const sources = getCurrentSources();
+	const exclude = state.failover ? [state.failover.backupSourceId] : [];
+	const backup = selectBackupSource(primaryId, sources, policy, exclude) ??
+		selectBackupSource(primaryId, sources, policy);
+	if (!backup) {
+		log.error(`❌ Source ${primaryId} is unhealthy and no backup source is available`, { sourceId: primaryId });
+		return false;
+	}
+
+	if (state.currentSourceId !== backup.id) {
+		log.warn(`🔀 Source ${primaryId} is unhealthy, failing over to source ${backup.id}`, {
+			sourceId: primaryId,
+			backupSourceId: backup.id,
+		});
+		const success = await switchToSource(baseUrl, backup.id, backup.name || `Source ${backup.id}`, {
+			reason: "failover",
+		});
+		if (!success) {
+			return false;
+		}
+	}
+
+	state.failover = {
+		originalSourceId: primaryId,
+		backupSourceId: backup.id,
+		since: state.failover?.since ?? new Date().toISOString(),
+		recoveredAt: null,
+	};
+	await saveState(false);
+	return true;
+}
+
+/**
+ * Switch back to the original source once it has stayed healthy for the hold-down time
+ */
+async function failBack(baseUrl: string): Promise<void> {
+	failbackTimer = null;
+	if (state.failover === null) {
+		return;
+	}
+
+	const originalId = state.failover.originalSourceId;
+	const original = getCurrentSources().find((s) => s.id === originalId);
+	if (!isSourceUsable(original)) {
+		state.failover.recoveredAt = null;
+		await saveState(false);
+		return;
+	}
+
+	log.info(`↩️  Source ${originalId} recovered, failing back`, { sourceId: originalId });
+	const success = await switchToSource(baseUrl, originalId, original!.name || `Source ${originalId}`, {
+		reason: "failover",
+	});
+	if (success) {
+		state.failover = null;
+		await saveState(false);
+	}
+}
+
+/**
+ * Re-evaluate failover after the source list changed
+ * @param primaryId - Source that should be on air (fixed source or current rotation camera)
+ */
+export async function evaluateFailover(baseUrl: string, primaryId: number | null): Promise<void> {
+	const sources = getCurrentSources();
+
+	if (state.failover !== null) {
+		const original = sources.find((s) => s.id === state.failover!.originalSourceId);
+
+		if (isSourceUsable(original)) {
+			// Original is back - start hold-down before failing back to avoid flapping
+			if (failbackTimer === null) {
+				state.failover.recoveredAt = new Date().toISOString();
+				await saveState(false);
+				log.info(
+					`   Source ${state.failover.originalSourceId} healthy again, failing back in ${policy.holdDownSeconds}s`,
+					{ sourceId: state.failover.originalSourceId, durationMs: policy.holdDownSeconds * 1000 }
+				);
+				failbackTimer = setTimeout(() => {
+					failBack(baseUrl);
+				}, policy.holdDownSeconds * 1000);
+			}
+			return;
+		}
+
+		// Original still down (or went down again during hold-down)
+		cancelFailbackTimer();
+		if (state.failover.recoveredAt !== null) {
+			state.failover.recoveredAt = null;
+			await saveState(false);
+		}
+
+		const backup = sources.find((s) => s.id === state.failover!.backupSourceId);
+		if (!isSourceUsable(backup)) {
+			await activateFailover(baseUrl, state.failover.originalSourceId);
+		}
+		return;
+	}
+
+	// No failover active - only act if the primary is the live source and it failed
+	if (primaryId === null || state.currentSourceId !== primaryId) {
+		return;
+	}
+	const primary = sources.find((s) => s.id === primaryId);
+	if (!isSourceUsable(primary)) {
+		await activateFailover(baseUrl, primaryId);
+	}
+}
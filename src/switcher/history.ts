@@ -0,0 +1,291 @@
+/**
+ * Switch history and audit log
+ *
+ * Entries are appended as JSON lines to history.jsonl in the data directory.
+ * When the file reaches the size limit it is rotated to history.jsonl.1,
+ * older files shift up, and the oldest beyond the file limit is deleted.
+ */
+
+import type { Config } from "./config.ts";
+import type { HistoryEntry, SwitchReason } from "./types.ts";
+import type { ValidationIssue } from "./validation.ts";
+import { trackOperation } from "./shutdown.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("history");
+
+const SWITCH_REASONS: SwitchReason[] = ["rotation", "manual", "failover", "fixed"];
+const MAX_RESPONSE_LENGTH = 500;
+const DEFAULT_QUERY_LIMIT = 1000;
+const MAX_QUERY_LIMIT = 10000;
+
+export interface HistoryQuery {
+	from?: Date;
+	to?: Date;
+	sourceId?: number;
+	reason?: SwitchReason;
+	type?: HistoryEntry["type"];
+	limit?: number; // Most recent entries returned (default 1000)
+}
+
+let historyFile: string | null = null;
+let dataDir = "";
+let maxBytes = 5 * 1024 * 1024;
+let maxFiles = 5;
+let pending: Promise<void> = Promise.resolve();
+
+/**
+ * Initialize the history log with configuration
+ * Nothing is recorded until this is called.
+ */
+export function initHistory(cfg: Config): void {
+	dataDir = cfg.dataDir;
+	historyFile = `${cfg.dataDir}/history.jsonl`;
+	maxBytes = cfg.historyMaxBytes;
+	maxFiles = Math.max(1, cfg.historyMaxFiles);
+}
+
+/**
+ * Truncate a pipeline response body for storage
+ */
+export function truncateResponse(text: string): string {
+	return text.length > MAX_RESPONSE_LENGTH ? `${text.slice(0, MAX_RESPONSE_LENGTH)}…` : text;
+}
+
+/**
+ * Size of a file in bytes, or 0 if it does not exist
+ */
+async function fileSize(path: string): Promise<number> {
+	try {
+		return (await Deno.stat(path)).size;
+	} catch (error) {
+		if (error instanceof Deno.errors.NotFound) {
+			return 0;
+		}
+		throw error;
+	}
+}
+
+/**
+ * Shift history.jsonl → .1 → .2 …, dropping the oldest file
+ */
+async function rotate(file: string): Promise<void> {
+	for (let i = maxFiles - 1; i >= 1; i--) {
+		const from = i === 1 ? file : `${file}.${i - 1}`;
+		try {
+			await Deno.rename(from, `${file}.${i}`);
+		} catch (error) {
+			if (!(error instanceof Deno.errors.NotFound)) {
+				throw error;
+			}
+		}
+	}
+	if (maxFiles === 1) {
+		await Deno.remove(file).catch(() => {});
+	}
+}
+
+async function append(file: string, line: string): Promise<void> {
+	await Deno.mkdir(dataDir, { recursive: true });
+	const size = await fileSize(file);
+	if (size > 0 && size + line.length > maxBytes) {
+		await rotate(file);
+	}
+	await Deno.writeTextFile(file, line, { append: true });
+}
+
+/**
+ * Append an entry to the history log
+ * Writes are serialized; errors are logged, never thrown.
+ */
+export function recordHistory(entry: Omit<HistoryEntry, "timestamp"> & { timestamp?: string }): Promise<void> {
+	if (historyFile === null) {
+		return Promise.resolve();
+	}
+
+	const file = historyFile;
+	const line = JSON.stringify({ timestamp: new Date().toISOString(), ...entry }) + "\n";
+	pending = pending
+		.then(() => append(file, line))
+		.catch((error) => log.error(`⚠️  Error writing history: ${error}`, { error }));
+	return trackOperation(pending);
+}
+
+/**
+ * Read every entry from the current and rotated files, oldest first
+ */
+async function readAll(file: string): Promise<HistoryEntry[]> {
+	const paths: string[] = [];
+	for (let i = maxFiles - 1; i >= 1; i--) {
+		paths.push(`${file}.${i}`);
+	}
+	paths.push(file);
+
+	const entries: HistoryEntry[] = [];
+	for (const path of paths) {
+		let text: string;
+		try {
+			text = await Deno.readTextFile(path);
+		} catch (error) {
+			if (error instanceof Deno.errors.NotFound) {
+				continue;
+			}
+			throw error;
+		}
+		for (const line of text.split("\n")) {
+			if (line.trim() === "") {
+				continue;
+			}
+			try {
+				entries.push(JSON.parse(line) as HistoryEntry);
+			} catch (_error) {
+				// Skip a torn line from a crash mid-write
+			}
+		}
+	}
+	return entries;
+}
+
+/**
+ * Query the history log, returning matching entries oldest first
+ */
+export async function queryHistory(query: HistoryQuery = {}): Promise<HistoryEntry[]> {
+	if (historyFile === null) {
+		return [];
+	}
+	await pending;
+
+	const from = query.from?.getTime();
+	const to = query.to?.getTime();
+	const matches = (await readAll(historyFile)).filter((entry) => {
+		const time = Date.parse(entry.timestamp);
+		if (from !== undefined && time < from) {
+			return false;
+		}
+		if (to !== undefined && time > to) {
+			return false;
+		}
+		if (query.sourceId !== undefined && entry.sourceId !== query.sourceId) {
+			return false;
+		}
+		if (query.reason !== undefined && entry.reason !== query.reason) {
+			return false;
+		}
+		if (query.type !== undefined && entry.type !== query.type) {
+			return false;
+		}
+		return true;
+	});
+
+	const limit = query.limit ?? DEFAULT_QUERY_LIMIT;
+	return matches.slice(Math.max(0, matches.length - limit));
+}
+
+/**
+ * Parse history query parameters from a request URL
+ * Returns the query, or the list of invalid parameters.
+ */
+export function parseHistoryQuery(params: URLSearchParams): HistoryQuery | ValidationIssue[] {
+	const query: HistoryQuery = {};
+	const issues: ValidationIssue[] = [];
+
+	for (const key of ["from", "to"] as const) {
+		const value = params.get(key);
+		if (value !== null) {
+			const date = new Date(value);
+			if (isNaN(date.getTime())) {
+				issues.push({ path: key, message: "must be an ISO 8601 timestamp" });
+			} else {
+				query[key] = date;
+			}
+		}
+	}
+
+	const sourceId = params.get("sourceId");
+	if (sourceId !== null) {
+		const id = Number(sourceId);
+		if (!Number.isInteger(id) || id < 0) {
+			issues.push({ path: "sourceId", message: "must be a source ID" });
+		} else {
+			query.sourceId = id;
+		}
+	}
+
+	const reason = params.get("reason");
+	if (reason !== null) {
+		if (!SWITCH_REASONS.includes(reason as SwitchReason)) {
+			issues.push({ path: "reason", message: `must be one of: ${SWITCH_REASONS.join(", ")}` });
+		} else {
+			query.reason = reason as SwitchReason;
+		}
+	}
+
+	const type = params.get("type");
+	if (type !== null) {
+		if (type !== "switch" && type !== "config") {
+			issues.push({ path: "type", message: "must be one of: switch, config" });
+		} else {
+			query.type = type;
+		}
+	}
+
+	const limit = params.get("limit");
+	if (limit !== null) {
+		const n = Number(limit);
+		if (!Number.isInteger(n) || n < 1 || n > MAX_QUERY_LIMIT) {
+			issues.push({ path: "limit", message: `must be an integer between 1 and ${MAX_QUERY_LIMIT}` });
+		} else {
+			query.limit = n;
+		}
+	}
+
+	return issues.length > 0 ? issues : query;
+}
+
+/**
+ * Quote a CSV field if needed
+ */
+function csvField(value: unknown): string {
+	if (value === undefined || value === null) {
+		return "";
+	}
+	const text = typeof value === "string" ? value : JSON.stringify(value);
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format history entries as CSV
+ */
+export function historyToCsv(entries: HistoryEntry[]): string {
+	const header = [
+		"timestamp",
+		"type",
+		"initiator",
+		"reason",
+		"sourceId",
+		"sourceName",
+		"success",
+		"pipelineStatus",
+		"pipelineResponse",
+		"error",
+		"action",
+		"changes",
+	];
+	const rows = entries.map((e) =>
+		[
+			e.timestamp,
+			e.type,
+			e.initiator,
+			e.reason,
+			e.sourceId,
+			e.sourceName,
+			e.success,
+			e.pipelineStatus,
+			e.pipelineResponse,
+			e.error,
+			e.action,
+			e.changes,
+		].map(csvField).join(",")
+	);
+	return [header.join(","), ...rows].join("\r\n") + "\r\n";
+}
@@ -0,0 +1,206 @@
+/**
+ * Prometheus metrics
+ *
+ * A minimal registry of counters, gauges and histograms rendered in the
+ * Prometheus text exposition format by GET /metrics.
+ */
+
+export type Labels = Record<string, string | number>;
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabel(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/**
+ * Render labels as `{a="1",b="2"}` (sorted by name), or "" when there are none
+ */
+function formatLabels(labels: Labels): string {
+	const keys = Object.keys(labels).sort();
+	if (keys.length === 0) {
+		return "";
+	}
+	return `{${keys.map((k) => `${k}="${escapeLabel(String(labels[k]))}"`).join(",")}}`;
+}
+
+abstract class Metric {
+	constructor(
+		readonly name: string,
+		readonly help: string,
+		readonly type: "counter" | "gauge" | "histogram"
+	) {}
+
+	protected abstract samples(): string[];
+
+	render(): string {
+		return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join("\n");
+	}
+
+	abstract reset(): void;
+}
+
+/**
+ * Labelled values keyed by their formatted label set
+ */
+abstract class ValueMetric extends Metric {
+	protected values = new Map<string, number>();
+
+	protected samples(): string[] {
+		return [...this.values].map(([labels, value]) => `${this.name}${labels} ${value}`);
+	}
+
+	get(labels: Labels = {}): number {
+		return this.values.get(formatLabels(labels)) ?? 0;
+	}
+
+	reset(): void {
+		this.values.clear();
+	}
+}
+
+export class Counter extends ValueMetric {
+	constructor(name: string, help: string) {
+		super(name, help, "counter");
+	}
+
+	inc(labels: Labels = {}, amount: number = 1): void {
+		const key = formatLabels(labels);
+		this.values.set(key, (this.values.get(key) ?? 0) + amount);
+	}
+}
+
+export class Gauge extends ValueMetric {
+	constructor(name: string, help: string) {
+		super(name, help, "gauge");
+	}
+
+	set(value: number, labels: Labels = {}): void {
+		this.values.set(formatLabels(labels), value);
+	}
+}
+
+interface HistogramSeries {
+	labels: Labels;
+	counts: number[]; // Per bucket, not cumulative
+	sum: number;
+	count: number;
+}
+
+export class Histogram extends Metric {
+	private series = new Map<string, HistogramSeries>();
+
+	constructor(name: string, help: string, private readonly buckets: number[] = DEFAULT_BUCKETS) {
+		super(name, help, "histogram");
+	}
+
+	observe(value: number, labels: Labels = {}): void {
+		const key = formatLabels(labels);
+		let series = this.series.get(key);
+		if (!series) {
+			series = { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+			this.series.set(key, series);
+		}
+		const bucket = this.buckets.findIndex((le) => value <= le);
+		if (bucket !== -1) {
+			series.counts[bucket]++;
+		}
+		series.sum += value;
+		series.count++;
+	}
+
+	/**
+	 * Start timing; call the returned function to record the elapsed seconds
+	 */
+	startTimer(labels: Labels = {}): () => void {
+		const start = performance.now();
+		return () => this.observe((performance.now() - start) / 1000, labels);
+	}
+
+	protected samples(): string[] {
+		const lines: string[] = [];
+		for (const [key, series] of this.series) {
+			let cumulative = 0;
+			this.buckets.forEach((le, i) => {
+				cumulative += series.counts[i];
+				lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le })} ${cumulative}`);
+			});
+			lines.push(`${this.name}_bucket${formatLabels({ ...series.labels, le: "+Inf" })} ${series.count}`);
+			lines.push(`${this.name}_sum${key} ${series.sum}`);
+			lines.push(`${this.name}_count${key} ${series.count}`);
+		}
+		return lines;
+	}
+
+	reset(): void {
+		this.series.clear();
+	}
+}
+
+const registry: Metric[] = [];
+
+function register<T extends Metric>(metric: T): T {
+	registry.push(metric);
+	return metric;
+}
+
+// Switcher metrics
+
+export const switchesTotal = register(
+	new Counter("switcher_switches_total", "Successful source switches by source and reason")
+);
+export const switchFailuresTotal = register(
+	new Counter("switcher_switch_failures_total", "Failed source switches by source and reason")
+);
+export const cameraNotifyFailuresTotal = register(
+	new Counter("switcher_camera_notify_failures_total", "Failed camera API notifications")
+);
+export const pipelineRequestDuration = register(
+	new Histogram("switcher_pipeline_request_duration_seconds", "Pipeline service request latency by operation")
+);
+export const pipelineRetriesTotal = register(
+	new Counter("switcher_pipeline_retries_total", "Pipeline service request retries by operation")
+);
+export const pipelineBreakerGauge = register(
+	new Gauge("switcher_pipeline_breaker_state", "Pipeline circuit breaker: 0 closed, 1 half-open, 2 open")
+);
+export const pipelineUpGauge = register(
+	new Gauge("switcher_pipeline_up", "1 if the last pipeline health check succeeded, 0 otherwise")
+);
+export const pipelineLastSeenGauge = register(
+	new Gauge("switcher_pipeline_last_seen_timestamp_seconds", "Unix time of the last successful pipeline health check (0 if never)")
+);
+export const currentSourceGauge = register(
+	new Gauge("switcher_current_source", "ID of the live source (-1 if none)")
+);
+export const rotationEnabledGauge = register(
+	new Gauge("switcher_rotation_enabled", "1 if rotation is enabled, 0 otherwise")
+);
+export const scheduleIndexGauge = register(
+	new Gauge("switcher_schedule_index", "Index of the current schedule item (-1 if none)")
+);
+export const sourceHealthyGauge = register(
+	new Gauge("switcher_source_healthy", "1 if the pipeline reports the source healthy, 0 otherwise")
+);
+export const apiRequestsTotal = register(
+	new Counter("switcher_api_requests_total", "API requests by route, method and status")
+);
+
+/**
+ * Render every registered metric in the Prometheus text format
+ */
+export function renderMetrics(): string {
+	return registry.map((metric) => metric.render()).join("\n") + "\n";
+}
+
+/**
+ * Clear all recorded values - for tests
+ */
+export function resetMetrics(): void {
+	for (const metric of registry) {
+		metric.reset();
+	}
+}
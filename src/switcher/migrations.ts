@@ -0,0 +1,121 @@
+/**
+ * Persisted state schema versions and migrations
+ *
+ * Each migration upgrades state from version `from` to `from + 1`. State saved
+ * before versioning was introduced has no schemaVersion and is treated as version 1.
+ */
+
+export const CURRENT_SCHEMA_VERSION = 5;
+
+export interface Migration {
+	from: number;
+	description: string;
+	migrate(data: Record<string, unknown>): Record<string, unknown>;
+}
+
+/**
+ * Thrown when persisted state was written by a newer switcher
+ */
+export class StateVersionError extends Error {
+	constructor(public readonly version: number) {
+		super(
+			`Saved state has schema version ${version}, but this switcher only supports up to ` +
+			`version ${CURRENT_SCHEMA_VERSION}. Upgrade the switcher or remove the saved state.`
+		);
+		this.name = "StateVersionError";
+	}
+}
+
+/**
+ * Registered migrations, ordered by source version
+ */
+export const migrations: Migration[] = [
+	{
+		from: 1,
+		description: "Add rotation mode, named schedules and override; drop stale failover",
+		migrate(data) {
+			const { failover: _failover, ...rest } = data;
+			return {
+				...rest,
+				rotationMode: data.rotationMode ?? "sequential",
+				currentScheduleIndex: data.currentScheduleIndex ?? null,
+				schedules: data.schedules ?? [],
+				activeScheduleName: data.activeScheduleName ?? null,
+				override: data.override ?? null,
+			};
+		},
+	},
+	{
+		from: 2,
+		description: "Add desired overlay settings",
+		migrate(data) {
+			return {
+				...data,
+				overlay: data.overlay ?? { url: null, visible: null },
+			};
+		},
+	},
+	{
+		from: 3,
+		description: "Add per-source overlay bindings and overlay pinning",
+		migrate(data) {
+			return {
+				...data,
+				overlay: { pinned: false, ...(data.overlay as Record<string, unknown>) },
+				overlayBindings: data.overlayBindings ?? [],
+				overlayDefault: data.overlayDefault ?? null,
+			};
+		},
+	},
+	{
+		from: 4,
+		description: "Add the overlay playlist (disabled)",
+		migrate(data) {
+			return {
+				...data,
+				overlayPlaylist: data.overlayPlaylist ?? { enabled: false, entries: [] },
+				overlayPlaylistIndex: data.overlayPlaylistIndex ?? null,
+			};
+		},
+	},
+];
+
+/**
+ * Read the schema version of persisted state
+ */
+export function getSchemaVersion(data: Record<string, unknown>): number {
+	const version = data.schemaVersion;
+	if (version === undefined) {
+		return 1;
+	}
+	if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+		throw new Error(`Saved state has an invalid schemaVersion: ${JSON.stringify(version)}`);
+	}
+	return version;
+}
+
+/**
+ * Upgrade persisted state to the current schema version
+ * @throws StateVersionError if the state is newer than this switcher supports
+ */
+export function migrateState(
+	data: Record<string, unknown>
+): { data: Record<string, unknown>; fromVersion: number; applied: string[] } {
+	const fromVersion = getSchemaVersion(data);
+	if (fromVersion > CURRENT_SCHEMA_VERSION) {
+		throw new StateVersionError(fromVersion);
+	}
+
+	let migrated = data;
+	const applied: string[] = [];
+	for (let version = fromVersion; version < CURRENT_SCHEMA_VERSION; version++) {
+		const migration = migrations.find((m) => m.from === version);
+		if (!migration) {
+			throw new Error(`No migration registered from schema version ${version}`);
+		}
+		migrated = { ...migration.migrate(migrated), schemaVersion: version + 1 };
+		applied.push(`v${version} → v${version + 1}: ${migration.description}`);
+	}
+
+	return { data: migrated, fromVersion, applied };
+}
@@ -0,0 +1,82 @@
+/**
+ * Rotation modes - choose the next schedule item and its duration
+ */
+
+import type { RotationMode, RotationScheduleItem } from "./types.ts";
+
+export type RandomFn = () => number;
+
+/**
+ * Random permutation of schedule indices for one shuffle cycle
+ * The first item never shows the camera that ended the previous cycle (when avoidable).
+ */
+export function createShuffleCycle(
+	schedule: RotationScheduleItem[],
+	lastCameraId: number | null,
+	random: RandomFn = Math.random
+): number[] {
+	const order = schedule.map((_, i) => i);
+	for (let i = order.length - 1; i > 0; i--) {
+		const j = Math.floor(random() * (i + 1));
+		[order[i], order[j]] = [order[j], order[i]];
+	}
+
+	if (lastCameraId !== null && order.length > 1 && schedule[order[0]].cameraId === lastCameraId) {
+		const swapWith = order.findIndex((index) => schedule[index].cameraId !== lastCameraId);
+		if (swapWith > 0) {
+			[order[0], order[swapWith]] = [order[swapWith], order[0]];
+		}
+	}
+
+	return order;
+}
+
+/**
+ * Weighted random pick of a schedule index
+ * Items default to weight 1; the last camera is skipped when any other item can be picked.
+ * Returns null when every item has weight 0.
+ */
+export function pickWeightedIndex(
+	schedule: RotationScheduleItem[],
+	lastCameraId: number | null,
+	random: RandomFn = Math.random
+): number | null {
+	let candidates = schedule
+		.map((item, index) => ({ index, weight: item.weight ?? 1 }))
+		.filter((c) => c.weight > 0);
+
+	const others = candidates.filter((c) => schedule[c.index].cameraId !== lastCameraId);
+	if (others.length > 0) {
+		candidates = others;
+	}
+	if (candidates.length === 0) {
+		return null;
+	}
+
+	const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+	let target = random() * total;
+	for (const candidate of candidates) {
+		target -= candidate.weight;
+		if (target < 0) {
+			return candidate.index;
+		}
+	}
+	return candidates[candidates.length - 1].index;
+}
+
+/**
+ * Duration for a schedule item
+ * In weighted mode a min/max range picks a random whole number of seconds within it.
+ */
+export function pickDuration(
+	item: RotationScheduleItem,
+	mode: RotationMode,
+	random: RandomFn = Math.random
+): number {
+	if (mode === "weighted" && item.minDurationSeconds !== undefined && item.maxDurationSeconds !== undefined) {
+		const min = Math.min(item.minDurationSeconds, item.maxDurationSeconds);
+		const max = Math.max(item.minDurationSeconds, item.maxDurationSeconds);
+		return min + Math.floor(random() * (max - min + 1));
+	}
+	return item.durationSeconds;
+}
@@ -0,0 +1,106 @@
+/**
+ * Pipeline health monitoring - probes the pipeline's /health endpoint on an
+ * interval and tracks when it was last reachable
+ */
+
+import type { PipelineConnectivity } from "./types.ts";
+import { EventEmitter } from "./events.ts";
+import { checkHealth } from "./pipeline.ts";
+import { refreshSources } from "./sources.ts";
+import { getBreakerStatus } from "./client.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("monitor");
+
+/**
+ * Event emitter for pipeline reachability
+ * Events: "reachable", "unreachable" (on change), "checked" (after every health check)
+ */
+export const monitorEvents = new EventEmitter<PipelineConnectivity>();
+
+let connectivity: PipelineConnectivity = {
+	reachable: null,
+	lastSeen: null,
+	lastCheck: null,
+	consecutiveFailures: 0,
+};
+let monitorTimer: number | null = null;
+
+/**
+ * Current pipeline connectivity
+ */
+export function getConnectivity(): PipelineConnectivity {
+	return { ...connectivity };
+}
+
+/**
+ * Record a health check result and emit an event when reachability changes
+ */
+export function recordHealthCheck(healthy: boolean, now: Date = new Date()): void {
+	const previous = connectivity.reachable;
+	connectivity = {
+		reachable: healthy,
+		lastSeen: healthy ? now.toISOString() : connectivity.lastSeen,
+		lastCheck: now.toISOString(),
+		consecutiveFailures: healthy ? 0 : connectivity.consecutiveFailures + 1,
+	};
+
+	monitorEvents.emit("checked", getConnectivity());
+	if (previous === healthy) {
+		return;
+	}
+	if (healthy) {
+		log.info("💚 Pipeline service is reachable");
+		monitorEvents.emit("reachable", getConnectivity());
+	} else {
+		const lastSeen = connectivity.lastSeen ? ` (last seen ${connectivity.lastSeen})` : "";
+		log.error(`💔 Pipeline service is unreachable${lastSeen}`, { lastSeen: connectivity.lastSeen });
+		monitorEvents.emit("unreachable", getConnectivity());
+	}
+}
+
+/**
+ * Probe the pipeline once
+ * While the circuit breaker is open the client would refuse the call, so the
+ * check is recorded as failed without contacting the pipeline.
+ */
+export async function checkPipeline(baseUrl: string): Promise<boolean> {
+	if (getBreakerStatus().state === "open") {
+		recordHealthCheck(false);
+		return false;
+	}
+	const healthy = await checkHealth(baseUrl);
+	recordHealthCheck(healthy);
+	return healthy;
+}
+
+/**
+ * Start periodic health checks
+ * When the pipeline comes back, the source list is refreshed right away.
+ */
+export function startHealthMonitor(baseUrl: string, intervalSeconds: number): void {
+	stopHealthMonitor();
+	monitorTimer = setInterval(async () => {
+		const wasReachable = connectivity.reachable;
+		if (await checkPipeline(baseUrl) && wasReachable === false) {
+			await refreshSources(baseUrl);
+		}
+	}, intervalSeconds * 1000);
+}
+
+/**
+ * Stop periodic health checks
+ */
+export function stopHealthMonitor(): void {
+	if (monitorTimer !== null) {
+		clearInterval(monitorTimer);
+		monitorTimer = null;
+	}
+}
+
+/**
+ * Reset connectivity - for tests
+ */
+export function resetConnectivity(): void {
+	connectivity = { reachable: null, lastSeen: null, lastCheck: null, consecutiveFailures: 0 };
+}
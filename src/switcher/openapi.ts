@@ -0,0 +1,150 @@
+/**
+ * OpenAPI document generated from the router's routes
+ */
+
+import type { Route } from "./router.ts";
+import type { Schema } from "./validation.ts";
+
+const errorSchema: Schema = {
+	type: "object",
+	properties: {
+		error: { type: "string" },
+	},
+	required: ["error"],
+};
+
+const validationErrorSchema: Schema = {
+	type: "object",
+	properties: {
+		error: { type: "string" },
+		details: {
+			type: "array",
+			items: {
+				type: "object",
+				properties: {
+					path: { type: "string", description: "Location of the invalid value, e.g. $.schedule[0].cameraId" },
+					message: { type: "string" },
+				},
+				required: ["path", "message"],
+			},
+		},
+	},
+	required: ["error", "details"],
+};
+
+/**
+ * Convert an Express-style path ("/a/:id") to an OpenAPI path ("/a/{id}")
+ */
+function toOpenApiPath(path: string): { path: string; params: string[] } {
+	const params: string[] = [];
+	const converted = path
+		.split("/")
+		.map((segment) => {
+			if (segment.startsWith(":")) {
+				params.push(segment.slice(1));
+				return `{${segment.slice(1)}}`;
+			}
+			return segment;
+		})
+		.join("/");
+	return { path: converted, params };
+}
+
+/**
+ * Build the OpenAPI operation object for a route
+ */
+function buildOperation(route: Route): Record<string, unknown> {
+	const { params } = toOpenApiPath(route.path);
+	const parameters = [
+		...params.map((name) => ({ name, in: "path", required: true, schema: { type: "string" } })),
+		...(route.query ?? []).map((q) => ({
+			name: q.name,
+			in: "query",
+			required: false,
+			description: q.description,
+			schema: structuredClone(q.schema),
+		})),
+	];
+
+	const responses: Record<string, unknown> = {};
+	for (const [status, description] of Object.entries(route.responses ?? { 200: "OK" })) {
+		responses[status] = { description };
+	}
+	if (route.body) {
+		responses["400"] = { $ref: "#/components/responses/BadRequest" };
+		responses["413"] = { $ref: "#/components/responses/PayloadTooLarge" };
+		responses["422"] = { $ref: "#/components/responses/ValidationFailed" };
+	}
+	if (!route.public) {
+		responses["401"] = { $ref: "#/components/responses/Unauthorized" };
+		responses["403"] = { $ref: "#/components/responses/Forbidden" };
+	}
+	responses["429"] = { $ref: "#/components/responses/TooManyRequests" };
+
+	const operation: Record<string, unknown> = {
+		operationId: `${route.method.toLowerCase()}${route.path.replace(/[/:]+(\w)/g, (_, c: string) => c.toUpperCase())}`,
+		summary: route.summary,
+		tags: route.tags ?? [],
+		security: route.public ? [] : [{ bearerAuth: [] }],
+		responses,
+	};
+	if (route.description) {
+		operation.description = route.description;
+	}
+	if (typeof route.role !== "function" && !route.public) {
+		operation["x-required-role"] = route.role ?? "read";
+	}
+	if (parameters.length > 0) {
+		operation.parameters = parameters;
+	}
+	if (route.body) {
+		operation.requestBody = {
+			required: true,
+			content: { "application/json": { schema: structuredClone(route.body) } },
+		};
+	}
+	return operation;
+}
+
+/**
+ * Build an OpenAPI 3.0 document describing the routes
+ */
+export function buildOpenApiDocument(routes: readonly Route[], version: string = "1.0.0"): Record<string, unknown> {
+	const paths: Record<string, Record<string, unknown>> = {};
+	for (const route of routes) {
+		const { path } = toOpenApiPath(route.path);
+		paths[path] ??= {};
+		paths[path][route.method.toLowerCase()] = buildOperation(route);
+	}
+
+	const errorResponse = (description: string, schema: Schema = errorSchema) => ({
+		description,
+		content: { "application/json": { schema } },
+	});
+
+	return {
+		openapi: "3.0.3",
+		info: {
+			title: "Switcher API",
+			version,
+			description: "Remote control for the camera source switcher. Roles are ordered read < operator < admin.",
+		},
+		paths,
+		components: {
+			securitySchemes: {
+				bearerAuth: { type: "http", scheme: "bearer" },
+			},
+			responses: {
+				BadRequest: errorResponse("Malformed JSON body"),
+				Unauthorized: errorResponse("Missing or invalid bearer token"),
+				Forbidden: errorResponse("The token's role does not allow this request"),
+				PayloadTooLarge: errorResponse("Request body larger than MAX_BODY_BYTES"),
+				ValidationFailed: errorResponse("Request failed validation", validationErrorSchema),
+				TooManyRequests: {
+					...errorResponse("Rate limited or locked out after failed authentication"),
+					headers: { "Retry-After": { schema: { type: "integer" }, description: "Seconds to wait" } },
+				},
+			},
+		},
+	};
+}
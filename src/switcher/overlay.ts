@@ -0,0 +1,231 @@
+/**
+ * Desired HTML overlay - persisted with the switcher state and kept applied
+ * on the pipeline, including after the pipeline restarts and loses it
+ *
+ * Overlay bindings change the desired overlay on every successful switch to
+ * match the live source, unless the overlay is pinned or the overlay playlist
+ * (playlist.ts) is in charge.
+ */
+
+import type { OverlayBinding, OverlaySettings, OverlayTarget, SwitchEvent } from "./types.ts";
+import type { Config } from "./config.ts";
+import type { OverlayStatus, OverlayUpdate } from "../overlay/client.ts";
+import { getOverlayStatus, refreshOverlay, updateOverlay } from "../overlay/client.ts";
+import { state, saveState } from "./state.ts";
+import { EventEmitter } from "./events.ts";
+import { monitorEvents } from "./monitor.ts";
+import { switchEvents } from "./pipeline.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("overlay");
+
+/**
+ * Event emitter for desired overlay changes
+ * Events: "changed"
+ */
+export const overlayEvents = new EventEmitter<OverlaySettings>();
+
+let baseUrl: string | null = null;
+let reconciling = false;
+let lastReconcileError: string | null = null; // Logged once, not on every health check
+
+/**
+ * Initialize overlay control with configuration
+ * Every successful pipeline health check re-applies the desired overlay if the pipeline lost it.
+ */
+export function initOverlay(cfg: Config): void {
+	if (baseUrl === null) {
+		monitorEvents.on("checked", (connectivity) => {
+			if (connectivity.reachable) {
+				reconcileOverlay();
+			}
+		});
+		switchEvents.on("switched", (event: SwitchEvent) => {
+			applyOverlayBinding(liveItem(event.sourceId, event.reason === "rotation"));
+		});
+	}
+	baseUrl = cfg.baseUrl;
+}
+
+/**
+ * What is on air, for picking an overlay binding
+ */
+export interface LiveItem {
+	sourceId: number;
+	scheduleName: string | null; // Set with scheduleIndex while rotation plays a schedule item
+	scheduleIndex: number | null;
+}
+
+function liveItem(sourceId: number, fromRotation: boolean): LiveItem {
+	return fromRotation && state.currentScheduleIndex !== null
+		? { sourceId, scheduleName: state.activeScheduleName, scheduleIndex: state.currentScheduleIndex }
+		: { sourceId, scheduleName: null, scheduleIndex: null };
+}
+
+/**
+ * Overlay for what is on air: a binding for its schedule item, then one for
+ * the source, then the default. Null leaves the overlay as it is.
+ */
+export function resolveOverlayTarget(
+	item: LiveItem,
+	bindings: OverlayBinding[],
+	fallback: OverlayTarget | null
+): OverlayTarget | null {
+	const forSource = bindings.filter((b) => b.sourceId === item.sourceId);
+	const forItem = forSource.find((b) =>
+		b.scheduleIndex !== undefined &&
+		b.scheduleIndex === item.scheduleIndex &&
+		(b.scheduleName ?? null) === item.scheduleName
+	);
+	const binding = forItem ?? forSource.find((b) => b.scheduleIndex === undefined);
+	if (binding) {
+		return binding.url !== undefined ? { url: binding.url, visible: binding.visible } : { visible: binding.visible };
+	}
+	return fallback;
+}
+
+/**
+ * Fields of the desired overlay that have to change to show a target
+ * Unchanged fields are left out, so the page only reloads when the URL changes.
+ */
+export function overlayChanges(target: OverlayTarget): Partial<OverlaySettings> {
+	const changes: Partial<OverlaySettings> = {};
+	if (target.url !== undefined && target.url !== state.overlay.url) {
+		changes.url = target.url;
+	}
+	if (target.visible !== state.overlay.visible) {
+		changes.visible = target.visible;
+	}
+	return changes;
+}
+
+/**
+ * Apply the bound overlay for what is on air
+ * Skipped while the overlay is pinned or the overlay playlist is enabled.
+ */
+export async function applyOverlayBinding(item: LiveItem): Promise<void> {
+	if (state.overlay.pinned || state.overlayPlaylist.enabled || baseUrl === null) {
+		return;
+	}
+	const target = resolveOverlayTarget(item, state.overlayBindings, state.overlayDefault);
+	if (target === null) {
+		return;
+	}
+
+	const changes = overlayChanges(target);
+	if (Object.keys(changes).length === 0) {
+		return;
+	}
+
+	log.info(`🖼️  Overlay for source ${item.sourceId}: ${target.visible ? "visible" : "hidden"}`, {
+		sourceId: item.sourceId,
+		scheduleIndex: item.scheduleIndex,
+		...changes,
+	});
+	try {
+		await setDesiredOverlay(changes);
+	} catch (error) {
+		log.warn(`⚠️  Could not apply overlay for source ${item.sourceId}: ${error}`, { sourceId: item.sourceId, error });
+	}
+}
+
+/**
+ * Apply the bound overlay for the current source (after bindings change or the overlay is unpinned)
+ */
+export async function applyCurrentOverlayBinding(): Promise<void> {
+	if (state.currentSourceId !== null) {
+		const fromRotation = state.rotationEnabled && state.override === null && state.failover === null;
+		await applyOverlayBinding(liveItem(state.currentSourceId, fromRotation));
+	}
+}
+
+/**
+ * Replace the overlay bindings and default
+ */
+export async function setOverlayBindings(bindings: OverlayBinding[], fallback: OverlayTarget | null): Promise<void> {
+	state.overlayBindings = bindings;
+	state.overlayDefault = fallback;
+	await saveState(false);
+	overlayEvents.emit("changed", state.overlay);
+}
+
+/**
+ * Fields of the desired overlay that differ from the pipeline's status
+ */
+export function overlayDifference(desired: OverlaySettings, actual: OverlayStatus): OverlayUpdate {
+	const update: OverlayUpdate = {};
+	if (desired.url !== null && actual.url !== desired.url) {
+		update.url = desired.url;
+	}
+	if (desired.visible !== null && (actual.visible ?? false) !== desired.visible) {
+		update.visible = desired.visible;
+	}
+	return update;
+}
+
+/**
+ * Current overlay status from the pipeline
+ */
+export function getActualOverlay(): Promise<OverlayStatus> {
+	return getOverlayStatus(baseUrl!);
+}
+
+/**
+ * Change the desired overlay and apply the change to the pipeline
+ * Only the given fields are sent, so changing visibility does not reload the page.
+ * The desired overlay is saved first; if the pipeline call fails it is applied
+ * once the pipeline is reachable again.
+ * @param refresh - Also reload the current URL when no new URL is given
+ */
+export async function setDesiredOverlay(
+	changes: Partial<OverlaySettings>,
+	refresh: boolean = false
+): Promise<OverlayStatus> {
+	state.overlay = { ...state.overlay, ...changes };
+	await saveState(false);
+	overlayEvents.emit("changed", state.overlay);
+
+	const update: OverlayUpdate = {};
+	if (typeof changes.url === "string") {
+		update.url = changes.url;
+	}
+	if (typeof changes.visible === "boolean") {
+		update.visible = changes.visible;
+	}
+	if (refresh && update.url === undefined) {
+		await refreshOverlay(baseUrl!);
+	}
+	return Object.keys(update).length > 0 ? await updateOverlay(baseUrl!, update) : await getOverlayStatus(baseUrl!);
+}
+
+/**
+ * Re-apply the desired overlay where the pipeline's status differs
+ * Returns true if an update was sent.
+ */
+export async function reconcileOverlay(): Promise<boolean> {
+	const desired = state.overlay;
+	if (baseUrl === null || reconciling || (desired.url === null && desired.visible === null)) {
+		return false;
+	}
+
+	reconciling = true;
+	try {
+		const update = overlayDifference(desired, await getOverlayStatus(baseUrl));
+		if (Object.keys(update).length === 0) {
+			lastReconcileError = null;
+			return false;
+		}
+		log.info("🖼️  Re-applying overlay settings", { ...update });
+		await updateOverlay(baseUrl, update);
+		lastReconcileError = null;
+		return true;
+	} catch (error) {
+		if (String(error) !== lastReconcileError) {
+			log.warn(`⚠️  Could not re-apply overlay settings: ${error}`, { error });
+			lastReconcileError = String(error);
+		}
+		return false;
+	} finally {
+		reconciling = false;
+	}
+}
@@ -0,0 +1,53 @@
+/**
+ * Timed manual override ("take") - pauses rotation and resumes it when the hold expires
+ */
+
+import type { ManualOverride } from "./types.ts";
+import { state, saveState } from "./state.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("override");
+
+/**
+ * Seconds left before an override expires (never negative)
+ */
+export function getRemainingSeconds(override: ManualOverride, now: number = Date.now()): number {
+	return Math.max(0, Math.ceil((Date.parse(override.expiresAt) - now) / 1000));
+}
+
+/**
+ * Start an override after the source has been switched
+ * Remembers the schedule index rotation would have played next so it can resume there.
+ */
+export async function startOverride(sourceId: number, holdSeconds: number): Promise<ManualOverride> {
+	const now = Date.now();
+	const override: ManualOverride = {
+		sourceId,
+		startedAt: new Date(now).toISOString(),
+		expiresAt: new Date(now + holdSeconds * 1000).toISOString(),
+		resumeScheduleIndex: state.override?.resumeScheduleIndex ?? state.currentScheduleIndex,
+	};
+
+	state.override = override;
+	await saveState();
+	return override;
+}
+
+/**
+ * End the active override (expired or cancelled) and resume the schedule
+ * Returns false if no override was active.
+ */
+export async function endOverride(): Promise<boolean> {
+	if (state.override === null) {
+		return false;
+	}
+
+	log.info(`⏯️  Manual override of source ${state.override.sourceId} ended, resuming`, {
+		sourceId: state.override.sourceId,
+		scheduleIndex: state.override.resumeScheduleIndex,
+	});
+	state.currentScheduleIndex = state.override.resumeScheduleIndex;
+	state.override = null;
+	await saveState();
+	return true;
+}
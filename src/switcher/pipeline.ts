@@ -2,58 +2,119 @@
  * Pipeline service client
  */
 
-import type { Source, SourcesResponse } from "./types.ts";
+import type { Source, SourcesResponse, SwitchContext, SwitchEvent } from "./types.ts";
 import { state, saveState } from "./state.ts";
 import { notifyCameraAPI } from "./camera.ts";
+import { EventEmitter } from "./events.ts";
+import { recordHistory, truncateResponse } from "./history.ts";
+import { switchesTotal, switchFailuresTotal } from "./metrics.ts";
+import { CircuitOpenError, pipelineFetch } from "./client.ts";
+import { trackOperation } from "./shutdown.ts";
+import { createLogger, getLogFormat } from "../logger.ts";
+
+const log = createLogger("pipeline");
+
+/**
+ * Event emitter for source switch results
+ * Events: "switched", "switchFailed"
+ */
+export const switchEvents = new EventEmitter<SwitchEvent>();
 
 /**
  * Fetch list of all available sources from the pipeline API
  */
 export async function getSources(baseUrl: string): Promise<Source[] | null> {
 	try {
-		const response = await fetch(`${baseUrl}/sources`, {
-			signal: AbortSignal.timeout(5000),
-		});
+		const response = await pipelineFetch(`${baseUrl}/sources`, {}, { operation: "getSources", idempotent: true });
 		if (response.ok) {
 			const data: SourcesResponse = await response.json();
 			return data.sources || [];
 		} else {
-			console.error(`❌ Failed to get sources: ${response.status}`);
+			log.error(`❌ Failed to get sources: ${response.status}`, { status: response.status });
 			return null;
 		}
 	} catch (error) {
-		console.error(`❌ Error fetching sources: ${error}`);
+		if (!(error instanceof CircuitOpenError)) {
+			log.error(`❌ Error fetching sources: ${error}`, { error });
+		}
 		return null;
 	}
 }
 
 /**
  * Switch to a specific source
+ * Tracked so shutdown waits for the switch, its state write and camera notification.
+ * @param context - Reason and initiator, recorded in the history log
  */
-export async function switchToSource(
+export function switchToSource(
 	baseUrl: string,
 	sourceId: number,
 	sourceName: string,
+	context: SwitchContext,
 	notifyCamera: boolean = true
 ): Promise<boolean> {
+	return trackOperation(performSwitch(baseUrl, sourceId, sourceName, context, notifyCamera));
+}
+
+async function performSwitch(
+	baseUrl: string,
+	sourceId: number,
+	sourceName: string,
+	context: SwitchContext,
+	notifyCamera: boolean
+): Promise<boolean> {
+	const { reason } = context;
+	const initiator = context.initiator ?? "system";
+	const startedAt = Date.now();
 	try {
-		const response = await fetch(`${baseUrl}/source/active`, {
+		// Setting the active source twice has the same effect, so the switch is retried
+		const response = await pipelineFetch(`${baseUrl}/source/active`, {
 			method: "PUT",
 			headers: {
 				"Content-Type": "application/json",
 			},
 			body: JSON.stringify({ id: sourceId }),
-			signal: AbortSignal.timeout(5000),
+		}, { operation: "switchToSource", idempotent: true });
+		const text = await response.text();
+		await recordHistory({
+			type: "switch",
+			initiator,
+			sourceId,
+			sourceName,
+			reason,
+			success: response.ok,
+			pipelineStatus: response.status,
+			pipelineResponse: truncateResponse(text),
 		});
+
 		if (response.ok) {
-			const timestamp = new Date().toISOString().replace("T", " ").slice(0, 19);
-			console.log(`[${timestamp}] ✅ Switched to source ${sourceId}: ${sourceName}`);
+			switchesTotal.inc({ source: sourceId, reason });
+			// JSON records carry their own timestamp
+			const timestamp = getLogFormat() === "text"
+				? `[${new Date().toISOString().replace("T", " ").slice(0, 19)}] `
+				: "";
+			const by = context.initiator ? ` by ${context.initiator}` : "";
+			log.info(`${timestamp}✅ Switched to source ${sourceId}: ${sourceName} (${reason}${by})`, {
+				sourceId,
+				sourceName,
+				reason,
+				initiator,
+				status: response.status,
+				durationMs: Date.now() - startedAt,
+			});
 
 			// Update state (don't emit event - this is operational state, not configuration)
 			state.currentSourceId = sourceId;
 			state.lastSwitchTime = new Date().toISOString();
 			await saveState(false);
 
+			switchEvents.emit("switched", {
+				sourceId,
+				sourceName,
+				timestamp: state.lastSwitchTime,
+				reason,
+			});
+
 			// Notify camera API after successful switch
 			if (notifyCamera) {
 				await notifyCameraAPI(sourceId);
@@ -61,14 +122,41 @@ export async function switchToSource(
 
 			return true;
 		} else {
-			const text = await response.text();
-			console.error(
-				`❌ Failed to switch to source ${sourceId}: ${response.status} - ${text}`
-			);
+			switchFailuresTotal.inc({ source: sourceId, reason });
+			log.error(`❌ Failed to switch to source ${sourceId}: ${response.status} - ${text}`, {
+				sourceId,
+				reason,
+				status: response.status,
+				durationMs: Date.now() - startedAt,
+			});
+			switchEvents.emit("switchFailed", {
+				sourceId,
+				sourceName,
+				timestamp: new Date().toISOString(),
+				reason,
+				error: `${response.status} - ${text}`,
+			});
 			return false;
 		}
 	} catch (error) {
-		console.error(`❌ Error switching source: ${error}`);
+		log.error(`❌ Error switching source: ${error}`, { sourceId, reason, error, durationMs: Date.now() - startedAt });
+		switchFailuresTotal.inc({ source: sourceId, reason });
+		await recordHistory({
+			type: "switch",
+			initiator,
+			sourceId,
+			sourceName,
+			reason,
+			success: false,
+			error: String(error),
+		});
+		switchEvents.emit("switchFailed", {
+			sourceId,
+			sourceName,
+			timestamp: new Date().toISOString(),
+			reason,
+			error: String(error),
+		});
 		return false;
 	}
 }
@@ -78,49 +166,9 @@ export async function switchToSource(
  */
 export async function checkHealth(baseUrl: string): Promise<boolean> {
 	try {
-		const response = await fetch(`${baseUrl}/health`, {
-			signal: AbortSignal.timeout(5000),
-		});
+		const response = await pipelineFetch(`${baseUrl}/health`, {}, { operation: "checkHealth", idempotent: true });
 		return response.ok;
 	} catch (_error) {
 		return false;
 	}
 }
-
-/**
- * Print formatted list of sources
- */
-export function printSourcesList(sources: Source[]): void {
-	console.log("\n" + "=".repeat(70));
-	console.log("Available Sources:");
-	console.log("=".repeat(70));
-
-	if (sources.length === 0) {
-		console.log("No sources configured.");
-		return;
-	}
-
-	for (const source of sources) {
-		const sourceId = source.id;
-		const name = source.name || "Unnamed";
-		const sourceType = source.source_type || "unknown";
-		const enabled = source.enabled || false;
-		const healthy = source.is_healthy || false;
-
-		const status = enabled ? "✓" : "✗";
-		const health = healthy ? "●" : "○";
-
-		console.log(`  ${status} ID ${sourceId}: ${name}`);
-		console.log(
-			`     Type: ${sourceType} | Health: ${health} ${healthy ? "(healthy)" : "(unhealthy)"}`
-		);
-
-		if (sourceType === "srt") {
-			const uri = source.uri || "N/A";
-			console.log(`     URI: ${uri}`);
-		}
-	}
-
-	console.log("=".repeat(70) + "\n");
-}
-
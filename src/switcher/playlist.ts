@@ -0,0 +1,191 @@
+/**
+ * Overlay playlist - shows overlay pages in turn, each for its duration and
+ * optionally followed by a hidden gap, independently of camera rotation
+ *
+ * Entry windows are checked when an entry is due; while no entry's window is
+ * active the overlay is hidden and the playlist checks again every minute.
+ * While the overlay is pinned the playlist keeps its timing but leaves the
+ * overlay alone.
+ */
+
+import type { OverlayPlaylist, OverlayPlaylistEntry, OverlayPlaylistStatus, OverlayTarget } from "./types.ts";
+import { state, saveState } from "./state.ts";
+import { isWindowActive } from "./schedules.ts";
+import { overlayChanges, overlayEvents, setDesiredOverlay } from "./overlay.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("playlist");
+
+const IDLE_CHECK_INTERVAL_MS = 60000;
+
+let started = false;
+let timer: number | null = null;
+let generation = 0; // Bumped on every restart so steps of an old run stop
+let status: OverlayPlaylistStatus = { phase: "stopped", index: null, until: null };
+
+/**
+ * Index of the first entry from fromIndex on (wrapping around) whose window is active
+ * Returns null if no entry can be played now.
+ */
+export function nextPlaylistEntry(entries: OverlayPlaylistEntry[], fromIndex: number, now: Date): number | null {
+	for (let offset = 0; offset < entries.length; offset++) {
+		const index = (fromIndex + offset) % entries.length;
+		const window = entries[index].window;
+		if (window === undefined || isWindowActive(window, now)) {
+			return index;
+		}
+	}
+	return null;
+}
+
+/**
+ * What the playlist is doing right now
+ */
+export function getOverlayPlaylistStatus(): OverlayPlaylistStatus {
+	return { ...status };
+}
+
+/**
+ * Overlay the playlist wants for its current phase (null while stopped)
+ */
+function currentTarget(): OverlayTarget | null {
+	switch (status.phase) {
+		case "showing":
+			return { url: state.overlayPlaylist.entries[status.index!].url, visible: true };
+		case "hidden":
+		case "idle":
+			return { visible: false };
+		default:
+			return null;
+	}
+}
+
+async function applyTarget(target: OverlayTarget, index: number | null): Promise<void> {
+	if (state.overlay.pinned) {
+		return;
+	}
+	const changes = overlayChanges(target);
+	if (Object.keys(changes).length === 0) {
+		return;
+	}
+
+	const entry = index !== null ? `entry ${index + 1}` : "no entry active";
+	log.info(`🎞️  Overlay playlist: ${entry}, ${target.visible ? "visible" : "hidden"}`, { index, ...changes });
+	try {
+		await setDesiredOverlay(changes);
+	} catch (error) {
+		log.warn(`⚠️  Could not apply overlay playlist ${entry}: ${error}`, { index, error });
+	}
+}
+
+function setPhase(phase: OverlayPlaylistStatus["phase"], index: number | null, ms: number, next: () => void): void {
+	status = { phase, index, until: new Date(Date.now() + ms).toISOString() };
+	timer = setTimeout(() => {
+		timer = null;
+		next();
+	}, ms);
+}
+
+/**
+ * Show the next playable entry from fromIndex on, or hide the overlay until one is
+ */
+async function playFrom(fromIndex: number, run: number): Promise<void> {
+	const entries = state.overlayPlaylist.entries;
+	const index = nextPlaylistEntry(entries, fromIndex, new Date());
+	if (index === null) {
+		setPhase("idle", null, IDLE_CHECK_INTERVAL_MS, () => playFrom(fromIndex, run));
+		await applyTarget({ visible: false }, null);
+		return;
+	}
+
+	const entry = entries[index];
+	setPhase("showing", index, entry.durationSeconds * 1000, () => finishEntry(index, run));
+	if (state.overlayPlaylistIndex !== index) {
+		state.overlayPlaylistIndex = index;
+		await saveState(false);
+	}
+	if (run === generation) {
+		await applyTarget({ url: entry.url, visible: true }, index);
+	}
+}
+
+/**
+ * Hide the overlay for the entry's gap, if it has one, then move on
+ */
+function finishEntry(index: number, run: number): void {
+	const entries = state.overlayPlaylist.entries;
+	const next = (index + 1) % entries.length;
+	const hideSeconds = entries[index].hideSeconds ?? 0;
+	if (hideSeconds <= 0) {
+		playFrom(next, run);
+		return;
+	}
+	setPhase("hidden", index, hideSeconds * 1000, () => playFrom(next, run));
+	applyTarget({ visible: false }, index);
+}
+
+function clearTimer(): void {
+	if (timer !== null) {
+		clearTimeout(timer);
+		timer = null;
+	}
+}
+
+/**
+ * Start over from the saved position with the current playlist
+ */
+function restart(): void {
+	clearTimer();
+	const run = ++generation;
+	const { enabled, entries } = state.overlayPlaylist;
+	if (!enabled || entries.length === 0) {
+		status = { phase: "stopped", index: null, until: null };
+		return;
+	}
+	const resumeIndex = state.overlayPlaylistIndex ?? 0;
+	playFrom(resumeIndex < entries.length ? resumeIndex : 0, run);
+}
+
+/**
+ * Start playing the overlay playlist (if enabled) - call once the pipeline is connected
+ */
+export function startOverlayPlaylist(): void {
+	started = true;
+	restart();
+}
+
+/**
+ * Stop playing the overlay playlist (the overlay stays as it is)
+ */
+export function stopOverlayPlaylist(): void {
+	started = false;
+	clearTimer();
+	generation++;
+	status = { phase: "stopped", index: null, until: null };
+}
+
+/**
+ * Replace the overlay playlist; a running playlist restarts with it
+ * Changed entries start over from the first one.
+ */
+export async function setOverlayPlaylist(playlist: OverlayPlaylist): Promise<void> {
+	if (JSON.stringify(playlist.entries) !== JSON.stringify(state.overlayPlaylist.entries)) {
+		state.overlayPlaylistIndex = null;
+	}
+	state.overlayPlaylist = playlist;
+	await saveState(false);
+	overlayEvents.emit("changed", state.overlay);
+	if (started) {
+		restart();
+	}
+}
+
+/**
+ * Apply the overlay for the playlist's current phase (after the overlay is unpinned)
+ */
+export async function applyCurrentOverlayPlaylist(): Promise<void> {
+	const target = currentTarget();
+	if (target !== null) {
+		await applyTarget(target, status.index);
+	}
+}
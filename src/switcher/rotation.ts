@@ -2,13 +2,45 @@
  * Rotation management - Fully event-driven implementation (no loops)
  */
 
-import type { Source } from "./types.ts";
+import type { RotationScheduleItem, ScheduleAdvanceEvent, Source } from "./types.ts";
 import { state, stateEvents, saveState } from "./state.ts";
+import { EventEmitter } from "./events.ts";
 import { switchToSource } from "./pipeline.ts";
+import {
+	getCurrentSources,
+	setCurrentSources,
+	sourceEvents,
+	startSourceRefresh,
+	stopSourceRefresh,
+} from "./sources.ts";
+import { isSourceHealthy } from "./sourcelist.ts";
+import { activateFailover, clearFailover, evaluateFailover } from "./failover.ts";
+import { resolveSchedule } from "./schedules.ts";
+import { createShuffleCycle, pickDuration, pickWeightedIndex } from "./modes.ts";
+import { endOverride } from "./override.ts";
+import { breakerEvents, getBreakerStatus } from "./client.ts";
+import { createLogger } from "../logger.ts";
+
+const SCHEDULE_CHECK_INTERVAL_MS = 10000;
+const UNAVAILABLE_RETRY_MS = 5000;
+const MIN_PIPELINE_PAUSE_MS = 1000;
+
+const log = createLogger("rotation");
+
+/**
+ * Event emitter for rotation progress
+ * Events: "scheduleAdvanced"
+ */
+export const rotationEvents = new EventEmitter<ScheduleAdvanceEvent>();
 
 // Global state for rotation management
 let currentTimer: number | null = null;
+let scheduleCheckTimer: number | null = null;
 let shouldStop = false;
+let sourceChangePending = false;
+let shuffleQueue: number[] = []; // Remaining indices of the current shuffle cycle
+let pausedForPipeline = false;
+let removeListeners: (() => void) | null = null; // Detaches the event handlers registered by runRotationLoop
 
 /**
  * Cancel current rotation timer
@@ -21,11 +53,11 @@ function cancelCurrentTimer(): void {
 }
 
 /**
- * Filter and get available sources
+ * Filter and get available sources (enabled, healthy SRT sources)
  */
 function getAvailableSources(sources: Source[]): Source[] {
 	let availableSources = sources.filter(
-		(s) => (s.enabled || false) && s.source_type === "srt"
+		(s) => (s.enabled || false) && isSourceHealthy(s) && s.source_type === "srt"
 	);
 
 	if (state.selectedCameraIds.length > 0) {
@@ -41,21 +73,33 @@ function getAvailableSources(sources: Source[]): Source[] {
  * Handle fixed source mode (rotation disabled)
  * Only sets the source if needed, then waits for state change events
  */
-async function handleFixedSource(
-	baseUrl: string,
-	sources: Source[]
-): Promise<void> {
+async function handleFixedSource(baseUrl: string): Promise<void> {
+	const sources = getCurrentSources();
+
+	// A backup is covering for the fixed source - failover handles switching back
+	if (state.failover !== null && state.failover.originalSourceId === state.fixedSourceId) {
+		return;
+	}
+	await clearFailover();
+
 	if (state.fixedSourceId !== null) {
 		const fixedSource = sources.find(s => s.id === state.fixedSourceId);
 		if (fixedSource && (fixedSource.enabled || false)) {
+			if (!isSourceHealthy(fixedSource)) {
+				await activateFailover(baseUrl, state.fixedSourceId);
+				return;
+			}
 			// Only switch if we're not already on this source
 			if (state.currentSourceId !== state.fixedSourceId) {
-				console.log("Rotation is disabled, setting fixed source...");
-				await switchToSource(
+				log.info("Rotation is disabled, setting fixed source...", { sourceId: state.fixedSourceId });
+				const switched = await switchToSource(
 					baseUrl,
 					state.fixedSourceId,
-					fixedSource.name || `Source ${state.fixedSourceId}`
+					fixedSource.name || `Source ${state.fixedSourceId}`,
+					{ reason: "fixed" }
 				);
+				// Set it again once the pipeline breaker closes
+				pausedForPipeline = !switched && getBreakerStatus().state !== "closed";
 			}
 			// Source is set, no need to poll - wait for state change events
 			return;
@@ -65,13 +109,139 @@ async function handleFixedSource(
 	// Wait for state change events - no polling needed
 }
 
+/**
+ * Pick the schedule index to play after the given one, according to rotationMode
+ * Returns null when no item can be picked (weighted mode with every weight at 0).
+ */
+function nextScheduleIndex(
+	schedule: RotationScheduleItem[],
+	currentIndex: number,
+	lastCameraId: number | null
+): number | null {
+	switch (state.rotationMode) {
+		case "shuffle":
+			shuffleQueue = shuffleQueue.filter((i) => i < schedule.length);
+			if (shuffleQueue.length === 0) {
+				shuffleQueue = createShuffleCycle(schedule, lastCameraId);
+			}
+			return shuffleQueue.shift()!;
+		case "weighted":
+			return pickWeightedIndex(schedule, lastCameraId);
+		default:
+			return (currentIndex + 1) % schedule.length;
+	}
+}
+
+/**
+ * Pick the schedule index to start a schedule from
+ */
+function firstScheduleIndex(schedule: RotationScheduleItem[]): number | null {
+	shuffleQueue = [];
+	if (state.rotationMode === "sequential") {
+		return 0;
+	}
+	return nextScheduleIndex(schedule, 0, state.currentSourceId);
+}
+
+/**
+ * Select the schedule for the current time window
+ * Restarts from the first item when the active schedule changes.
+ */
+async function applyActiveSchedule(): Promise<RotationScheduleItem[]> {
+	const { name, items } = resolveSchedule(state.schedules, state.rotationSchedule);
+	if (name !== state.activeScheduleName) {
+		log.info(`📅 Active schedule: ${name ?? "default"}`, { schedule: name });
+		state.activeScheduleName = name;
+		state.currentScheduleIndex = items.length > 0 ? firstScheduleIndex(items) : null;
+		await saveState(false);
+	}
+	return items;
+}
+
+/**
+ * Switch schedules at window boundaries without waiting for the current camera's duration
+ */
+function checkScheduleBoundary(baseUrl: string): void {
+	if (!state.rotationEnabled) {
+		return;
+	}
+	const { name } = resolveSchedule(state.schedules, state.rotationSchedule);
+	if (name !== state.activeScheduleName) {
+		processRotation(baseUrl);
+	}
+}
+
+/**
+ * Hold the override source until the override expires
+ * Returns true while an override is in control (rotation and fixed source are paused).
+ */
+async function handleOverride(baseUrl: string): Promise<boolean> {
+	if (state.override === null) {
+		return false;
+	}
+
+	const remainingMs = Date.parse(state.override.expiresAt) - Date.now();
+	if (!(remainingMs > 0)) {
+		// endOverride emits a state change, which re-runs processRotation
+		await endOverride();
+		return true;
+	}
+
+	// Restore the override source (e.g. after a restart)
+	const sourceId = state.override.sourceId;
+	if (state.currentSourceId !== sourceId && state.failover === null) {
+		const source = getCurrentSources().find(s => s.id === sourceId);
+		await switchToSource(baseUrl, sourceId, source?.name || `Source ${sourceId}`, { reason: "manual" });
+	}
+
+	log.info(`   Manual override active, resuming in ${Math.ceil(remainingMs / 1000)} seconds...`, {
+		sourceId,
+		remainingMs,
+	});
+	currentTimer = setTimeout(() => {
+		currentTimer = null;
+		endOverride();
+	}, remainingMs);
+	return true;
+}
+
+/**
+ * Hold the schedule on its current item while the pipeline breaker is open
+ * Rotation resumes with the same item when the breaker closes or its trial call is due.
+ */
+function pauseForPipeline(baseUrl: string): void {
+	const { retryAt } = getBreakerStatus();
+	const delay = Math.max(MIN_PIPELINE_PAUSE_MS, retryAt !== null ? Date.parse(retryAt) - Date.now() : 0);
+	if (!pausedForPipeline) {
+		log.warn(
+			`⏸️  Pipeline service unavailable, rotation paused (next attempt in ${Math.ceil(delay / 1000)} seconds)`,
+			{ scheduleIndex: state.currentScheduleIndex, retryAt }
+		);
+		pausedForPipeline = true;
+	}
+	currentTimer = setTimeout(() => {
+		currentTimer = null;
+		processRotation(baseUrl);
+	}, delay);
+}
+
+/**
+ * Skip the current schedule item and try the next one shortly
+ */
+async function skipScheduleItem(baseUrl: string, schedule: RotationScheduleItem[]): Promise<void> {
+	state.currentScheduleIndex = nextScheduleIndex(schedule, state.currentScheduleIndex!, state.currentSourceId);
+	await saveState(false); // Update index without emitting event
+
+	currentTimer = setTimeout(() => {
+		currentTimer = null;
+		processRotation(baseUrl);
+	}, UNAVAILABLE_RETRY_MS);
+}
+
 /**
  * Process next rotation step
  */
-async function processRotation(
-	baseUrl: string,
-	sources: Source[]
-): Promise<void> {
+async function processRotation(baseUrl: string): Promise<void> {
 	if (shouldStop) {
 		return;
 	}
@@ -79,13 +249,18 @@ async function processRotation(
 	// Cancel any existing timer
 	cancelCurrentTimer();
 
+	// A timed manual override pauses both rotation and fixed source mode
+	if (await handleOverride(baseUrl)) {
+		return;
+	}
+
 	// If rotation is disabled, handle fixed source and clear schedule index
 	if (!state.rotationEnabled) {
 		if (state.currentScheduleIndex !== null) {
 			state.currentScheduleIndex = null;
 			await saveState(false);
 		}
-		await handleFixedSource(baseUrl, sources);
+		await handleFixedSource(baseUrl);
 		return;
 	}
 
@@ -95,67 +270,150 @@ async function processRotation(
 		await saveState(false);
 	}
 
-	// Rotation is enabled - follow schedule
-	if (state.rotationSchedule.length === 0) {
+	if (getBreakerStatus().state === "open") {
+		pauseForPipeline(baseUrl);
+		return;
+	}
+	if (pausedForPipeline) {
+		log.info("▶️  Resuming rotation", { scheduleIndex: state.currentScheduleIndex });
+		pausedForPipeline = false;
+	}
+
+	// Rotation is enabled - follow the schedule active for the current time window
+	const schedule = await applyActiveSchedule();
+	if (schedule.length === 0) {
 		// No schedule defined - wait for state change events
-		console.log("⚠️  Rotation enabled but no schedule defined. Waiting for schedule...");
+		log.warn("⚠️  Rotation enabled but no schedule defined. Waiting for schedule...");
 		// No timer needed - will re-evaluate when state changes via events
 		return;
 	}
 
 	// Initialize or reset schedule index if needed
-	if (state.currentScheduleIndex === null || state.currentScheduleIndex >= state.rotationSchedule.length) {
-		state.currentScheduleIndex = 0;
+	if (state.currentScheduleIndex === null || state.currentScheduleIndex >= schedule.length) {
+		state.currentScheduleIndex = firstScheduleIndex(schedule);
 		await saveState(false); // Update index without emitting event
 	}
+	if (state.currentScheduleIndex === null) {
+		// Weighted mode with every weight at 0 - wait for state change events
+		log.warn("⚠️  Rotation enabled but every schedule item has weight 0. Waiting for schedule...");
+		return;
+	}
 
 	// Get current schedule item
-	const scheduleItem = state.rotationSchedule[state.currentScheduleIndex % state.rotationSchedule.length];
+	const scheduleItem = schedule[state.currentScheduleIndex % schedule.length];
 	const cameraId = scheduleItem.cameraId;
-	const duration = scheduleItem.durationSeconds;
+	const duration = pickDuration(scheduleItem, state.rotationMode);
 
 	// Get available sources
-	const availableSources = getAvailableSources(sources);
+	const availableSources = getAvailableSources(getCurrentSources());
 
 	// Find the source for this camera
 	const source = availableSources.find(s => s.id === cameraId);
 	
 	if (source) {
-		await switchToSource(baseUrl, cameraId, source.name || `Source ${cameraId}`);
-		console.log(`   Waiting ${duration} seconds until next switch...\n`);
+		// New schedule item replaces any backup that covered for the previous one
+		await clearFailover();
+		if (!await switchToSource(baseUrl, cameraId, source.name || `Source ${cameraId}`, { reason: "rotation" })) {
+			if (getBreakerStatus().state !== "closed") {
+				pauseForPipeline(baseUrl); // Retry this item once the pipeline is back
+			} else {
+				log.warn(`⚠️  Switch to source ${cameraId} failed. Skipping...`, {
+					sourceId: cameraId,
+					scheduleIndex: state.currentScheduleIndex,
+				});
+				await skipScheduleItem(baseUrl, schedule);
+			}
+			return;
+		}
+		log.info(`   Waiting ${duration} seconds until next switch...`, {
+			sourceId: cameraId,
+			scheduleIndex: state.currentScheduleIndex,
+			durationMs: duration * 1000,
+		});
 		
 		// Save current index (points to the camera we just switched to - currently active)
 		await saveState(false); // Update index without emitting event
+		rotationEvents.emit("scheduleAdvanced", {
+			index: state.currentScheduleIndex,
+			cameraId,
+			durationSeconds: duration,
+		});
 		
 		// Move to next item in schedule for next iteration
-		state.currentScheduleIndex = (state.currentScheduleIndex + 1) % state.rotationSchedule.length;
+		state.currentScheduleIndex = nextScheduleIndex(schedule, state.currentScheduleIndex, cameraId);
 		
 		// Schedule next rotation
 		currentTimer = setTimeout(() => {
 			currentTimer = null;
-			processRotation(baseUrl, sources);
+			processRotation(baseUrl);
 		}, duration * 1000);
 	} else {
-		console.log(`⚠️  Source ${cameraId} not found or not available. Skipping...`);
-		// Move to next item in schedule and save
-		state.currentScheduleIndex = (state.currentScheduleIndex + 1) % state.rotationSchedule.length;
-		await saveState(false); // Update index without emitting event
-		
-		// Retry after 5 seconds
-		currentTimer = setTimeout(() => {
-			currentTimer = null;
-			processRotation(baseUrl, sources);
-		}, 5000);
+		log.warn(`⚠️  Source ${cameraId} not found or not available. Skipping...`, {
+			sourceId: cameraId,
+			scheduleIndex: state.currentScheduleIndex,
+		});
+		await skipScheduleItem(baseUrl, schedule);
 	}
 }
 
 /**
  * Handle state change events - re-evaluate rotation
  */
-function handleStateChange(baseUrl: string, sources: Source[]): void {
-	// Cancel current timer and re-process
+function handleStateChange(baseUrl: string): void {
+	// Cancel current timer and re-process (schedule or mode may have changed, start a fresh shuffle cycle)
+	cancelCurrentTimer();
+	shuffleQueue = [];
+	processRotation(baseUrl);
+}
+
+/**
+ * Handle source list changes - re-evaluate fixed source mode and failover
+ * (in rotation mode the next tick picks up the refreshed list without
+ * cutting the current camera's duration short)
+ * Changes from a single refresh are coalesced into one evaluation.
+ */
+function handleSourceChange(baseUrl: string): void {
+	if (sourceChangePending) {
+		return;
+	}
+	sourceChangePending = true;
+	queueMicrotask(async () => {
+		sourceChangePending = false;
+		if (!state.rotationEnabled) {
+			await processRotation(baseUrl);
+		}
+		await evaluateFailover(
+			baseUrl,
+			state.rotationEnabled ? state.currentSourceId : state.fixedSourceId
+		);
+	});
+}
+
+/**
+ * Resume after the pipeline breaker closes
+ * Rotation picks up where it paused; fixed source mode sets the fixed source again.
+ */
+function handlePipelineRecovered(baseUrl: string): void {
+	if (pausedForPipeline) {
+		cancelCurrentTimer();
+		processRotation(baseUrl);
+	}
+}
+
+/**
+ * Stop rotation timers, event handlers and source refresh (on shutdown)
+ * The current source stays on air.
+ */
+export function stopRotation(): void {
+	shouldStop = true;
 	cancelCurrentTimer();
-	processRotation(baseUrl, sources);
+	removeListeners?.();
+	removeListeners = null;
+	stopSourceRefresh();
+	if (scheduleCheckTimer !== null) {
+		clearInterval(scheduleCheckTimer);
+		scheduleCheckTimer = null;
+	}
 }
 
 /**
@@ -163,28 +421,55 @@ function handleStateChange(baseUrl: string, sources: Source[]): void {
  */
 export async function runRotationLoop(
 	baseUrl: string,
-	sources: Source[]
+	sources: Source[],
+	sourceRefreshInterval: number
 ): Promise<void> {
-	// Handle Ctrl+C gracefully
-	Deno.addSignalListener("SIGINT", () => {
-		shouldStop = true;
-		cancelCurrentTimer();
-		console.log("\n\n🛑 Stopping source switcher...");
-		console.log("Current source will remain active.");
-		Deno.exit(0);
-	});
+	stopRotation();
+	shouldStop = false;
+	pausedForPipeline = false;
+	shuffleQueue = [];
+	setCurrentSources(sources);
 
 	// Handle state change events
 	const stateChangeHandler = () => {
-		handleStateChange(baseUrl, sources);
+		handleStateChange(baseUrl);
 	};
 
 	stateEvents.on("stateChanged", stateChangeHandler);
 
-	console.log("Starting rotation loop... (Press Ctrl+C to stop)\n");
+	// Handle source list changes from periodic refresh
+	const sourceChangeHandler = () => {
+		handleSourceChange(baseUrl);
+	};
+
+	sourceEvents.on("sourceAdded", sourceChangeHandler);
+	sourceEvents.on("sourceRemoved", sourceChangeHandler);
+	sourceEvents.on("sourceHealthChanged", sourceChangeHandler);
+
+	const breakerClosedHandler = () => {
+		handlePipelineRecovered(baseUrl);
+	};
+
+	breakerEvents.on("closed", breakerClosedHandler);
+
+	removeListeners = () => {
+		stateEvents.off("stateChanged", stateChangeHandler);
+		sourceEvents.off("sourceAdded", sourceChangeHandler);
+		sourceEvents.off("sourceRemoved", sourceChangeHandler);
+		sourceEvents.off("sourceHealthChanged", sourceChangeHandler);
+		breakerEvents.off("closed", breakerClosedHandler);
+	};
+
+	startSourceRefresh(baseUrl, sourceRefreshInterval);
+
+	scheduleCheckTimer = setInterval(() => {
+		checkScheduleBoundary(baseUrl);
+	}, SCHEDULE_CHECK_INTERVAL_MS);
+
+	log.info("Starting rotation loop... (Press Ctrl+C to stop)");
 
 	// Start the event-driven rotation process
-	await processRotation(baseUrl, sources);
+	await processRotation(baseUrl);
 
 	// Note: This function will return, but the event-driven system continues
 	// The process will keep running via timers and event handlers
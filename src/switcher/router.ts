@@ -0,0 +1,120 @@
+/**
+ * Declarative HTTP router
+ *
+ * Routes carry their auth, role and body schema as metadata so the API server
+ * can enforce them uniformly and the OpenAPI document can be generated from them.
+ */
+
+import type { Role, TokenIdentity } from "./auth.ts";
+import type { Schema } from "./validation.ts";
+
+export type HttpMethod = "GET" | "PUT" | "POST" | "DELETE";
+
+export interface QueryParameter {
+	name: string;
+	description: string;
+	schema: Schema;
+}
+
+export interface RouteContext<B = unknown> {
+	request: Request;
+	url: URL;
+	params: Record<string, string>; // Values of `:name` path segments
+	clientIp: string;
+	identity: TokenIdentity | null; // Null only on public routes
+	body: B; // Validated body (undefined when the route has no body schema)
+}
+
+export interface Route<B = unknown> {
+	method: HttpMethod;
+	path: string; // Exact path; segments starting with ":" match any value
+	summary: string;
+	description?: string;
+	tags?: string[];
+	/** No bearer token required (the handler may authenticate itself) */
+	public?: boolean;
+	/** Role required (default "read"); a function is evaluated against the parsed body before it is validated */
+	role?: Role | ((body: unknown) => Role);
+	body?: Schema;
+	query?: QueryParameter[];
+	/** Documented success responses by status */
+	responses?: Record<number, string>;
+	handler(ctx: RouteContext<B>): Response | Promise<Response>;
+}
+
+export type RouteMatch =
+	| { route: Route; params: Record<string, string> }
+	| { path: string; allowed: HttpMethod[] }
+	| null;
+
+/**
+ * Match a path against a route path template
+ */
+function matchPath(template: string, path: string): Record<string, string> | null {
+	const expected = template.split("/");
+	const actual = path.split("/");
+	if (expected.length !== actual.length) {
+		return null;
+	}
+
+	const params: Record<string, string> = {};
+	for (let i = 0; i < expected.length; i++) {
+		if (expected[i].startsWith(":")) {
+			if (actual[i] === "") {
+				return null;
+			}
+			try {
+				params[expected[i].slice(1)] = decodeURIComponent(actual[i]);
+			} catch (_error) {
+				return null; // Malformed percent-encoding
+			}
+		} else if (expected[i] !== actual[i]) {
+			return null;
+		}
+	}
+	return params;
+}
+
+export class Router {
+	private readonly table: Route[] = [];
+
+	/**
+	 * Register a route
+	 */
+	add<B>(route: Route<B>): this {
+		if (this.table.some((r) => r.method === route.method && r.path === route.path)) {
+			throw new Error(`Duplicate route: ${route.method} ${route.path}`);
+		}
+		this.table.push(route as Route);
+		return this;
+	}
+
+	/**
+	 * All registered routes in registration order
+	 */
+	get routes(): readonly Route[] {
+		return this.table;
+	}
+
+	/**
+	 * Find the route for a request
+	 * Returns the allowed methods when the path exists but the method does not,
+	 * or null when no route has the path.
+	 */
+	match(method: string, path: string): RouteMatch {
+		const allowed: HttpMethod[] = [];
+		let template = "";
+		for (const route of this.table) {
+			const params = matchPath(route.path, path);
+			if (params === null) {
+				continue;
+			}
+			if (route.method === method) {
+				return { route, params };
+			}
+			allowed.push(route.method);
+			template = route.path;
+		}
+		return allowed.length > 0 ? { path: template, allowed } : null;
+	}
+}
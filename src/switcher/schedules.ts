@@ -0,0 +1,143 @@
+/**
+ * Named rotation schedules with time-of-day and calendar activation windows
+ */
+
+import type { NamedSchedule, RotationScheduleItem, ScheduleWindow } from "./types.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("schedules");
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+interface LocalTime {
+	date: string; // YYYY-MM-DD
+	weekday: number; // 0 = Sunday
+	minutes: number; // Minutes since midnight
+}
+
+/**
+ * Get wall-clock date, weekday and time for an instant in a timezone
+ * @param timezone - IANA timezone name; the system timezone is used when omitted
+ */
+export function getLocalTime(now: Date, timezone?: string): LocalTime {
+	const parts = new Intl.DateTimeFormat("en-US", {
+		timeZone: timezone,
+		year: "numeric",
+		month: "2-digit",
+		day: "2-digit",
+		weekday: "short",
+		hour: "2-digit",
+		minute: "2-digit",
+		hourCycle: "h23",
+	}).formatToParts(now);
+
+	const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+
+	return {
+		date: `${get("year")}-${get("month")}-${get("day")}`,
+		weekday: WEEKDAYS.indexOf(get("weekday")),
+		minutes: parseInt(get("hour"), 10) * 60 + parseInt(get("minute"), 10),
+	};
+}
+
+/**
+ * Parse "HH:MM" into minutes since midnight
+ */
+export function parseTimeOfDay(time: string): number {
+	const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+	if (!match) {
+		throw new Error(`Invalid time of day: ${time}`);
+	}
+	const hours = parseInt(match[1], 10);
+	const minutes = parseInt(match[2], 10);
+	if (hours > 23 || minutes > 59) {
+		throw new Error(`Invalid time of day: ${time}`);
+	}
+	return hours * 60 + minutes;
+}
+
+/**
+ * Shift a YYYY-MM-DD date by a number of days
+ */
+function shiftDate(date: string, days: number): string {
+	const d = new Date(`${date}T00:00:00Z`);
+	d.setUTCDate(d.getUTCDate() + days);
+	return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Check whether an activation window contains the given instant
+ * Windows whose endTime is earlier than startTime wrap past midnight; the
+ * weekday and date range then apply to the day the window started.
+ */
+export function isWindowActive(window: ScheduleWindow, now: Date): boolean {
+	const local = getLocalTime(now, window.timezone);
+	let day = local.date;
+	let weekday = local.weekday;
+
+	if (window.startTime !== undefined || window.endTime !== undefined) {
+		const start = parseTimeOfDay(window.startTime ?? "00:00");
+		const end = window.endTime !== undefined ? parseTimeOfDay(window.endTime) : 24 * 60;
+
+		if (start < end) {
+			if (local.minutes < start || local.minutes >= end) {
+				return false;
+			}
+		} else if (start > end) {
+			if (local.minutes < end) {
+				// Early-morning part of a window that started yesterday
+				day = shiftDate(local.date, -1);
+				weekday = (local.weekday + 6) % 7;
+			} else if (local.minutes < start) {
+				return false;
+			}
+		}
+	}
+
+	if (window.weekdays !== undefined && window.weekdays.length > 0 && !window.weekdays.includes(weekday)) {
+		return false;
+	}
+	if (window.startDate !== undefined && day < window.startDate) {
+		return false;
+	}
+	if (window.endDate !== undefined && day > window.endDate) {
+		return false;
+	}
+
+	return true;
+}
+
+/**
+ * Pick the first schedule whose window is active (schedules without a window are always active)
+ */
+export function selectActiveSchedule(schedules: NamedSchedule[], now: Date): NamedSchedule | null {
+	for (const schedule of schedules) {
+		if (schedule.window === undefined) {
+			return schedule;
+		}
+		try {
+			if (isWindowActive(schedule.window, now)) {
+				return schedule;
+			}
+		} catch (error) {
+			log.warn(`⚠️  Ignoring schedule "${schedule.name}": ${error}`, { schedule: schedule.name, error });
+		}
+	}
+	return null;
+}
+
+/**
+ * Resolve the schedule rotation should follow right now
+ * Falls back to the default rotationSchedule (name null) when no named schedule is active.
+ */
+export function resolveSchedule(
+	schedules: NamedSchedule[],
+	defaultSchedule: RotationScheduleItem[],
+	now: Date = new Date()
+): { name: string | null; items: RotationScheduleItem[] } {
+	const active = selectActiveSchedule(schedules, now);
+	if (active) {
+		return { name: active.name, items: active.items };
+	}
+	return { name: null, items: defaultSchedule };
+}
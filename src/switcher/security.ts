@@ -0,0 +1,198 @@
+/**
+ * API hardening - bearer token parsing, constant-time comparison,
+ * per-IP rate limiting, auth failure lockout and body size limits
+ */
+
+// Entries per tracker before expired ones are swept
+const SWEEP_THRESHOLD = 1000;
+
+// RFC 6750 b64token
+const BEARER_PATTERN = /^Bearer ([A-Za-z0-9\-._~+/]+=*)$/i;
+
+const encoder = new TextEncoder();
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header
+ * Returns null for a missing header, another scheme or a malformed token.
+ */
+export function parseBearerToken(header: string | null): string | null {
+	if (header === null) {
+		return null;
+	}
+	const match = BEARER_PATTERN.exec(header);
+	return match ? match[1] : null;
+}
+
+/**
+ * Compare two strings in time that depends only on the length of `expected`
+ */
+export function timingSafeEqual(actual: string, expected: string): boolean {
+	const a = encoder.encode(actual);
+	const b = encoder.encode(expected);
+	let diff = a.length ^ b.length;
+	for (let i = 0; i < b.length; i++) {
+		diff |= (a[i] ?? 0) ^ b[i];
+	}
+	return diff === 0;
+}
+
+export interface LimitResult {
+	allowed: boolean;
+	retryAfterSeconds: number; // 0 when allowed
+}
+
+/**
+ * Fixed-window request limit per client IP
+ */
+export class RateLimiter {
+	private windows = new Map<string, { start: number; count: number }>();
+
+	/**
+	 * @param maxRequests - Requests allowed per window (0 disables the limit)
+	 * @param windowSeconds - Window length
+	 */
+	constructor(private readonly maxRequests: number, private readonly windowSeconds: number) {}
+
+	check(ip: string, now: number = Date.now()): LimitResult {
+		if (this.maxRequests <= 0) {
+			return { allowed: true, retryAfterSeconds: 0 };
+		}
+		this.sweep(now);
+
+		const windowMs = this.windowSeconds * 1000;
+		let window = this.windows.get(ip);
+		if (!window || now - window.start >= windowMs) {
+			window = { start: now, count: 0 };
+			this.windows.set(ip, window);
+		}
+
+		window.count++;
+		if (window.count > this.maxRequests) {
+			return { allowed: false, retryAfterSeconds: Math.ceil((window.start + windowMs - now) / 1000) };
+		}
+		return { allowed: true, retryAfterSeconds: 0 };
+	}
+
+	private sweep(now: number): void {
+		if (this.windows.size < SWEEP_THRESHOLD) {
+			return;
+		}
+		for (const [ip, window] of this.windows) {
+			if (now - window.start >= this.windowSeconds * 1000) {
+				this.windows.delete(ip);
+			}
+		}
+	}
+}
+
+/**
+ * Temporary lockout of client IPs after repeated authentication failures
+ * Failures are counted within the lockout period; a successful login resets them.
+ */
+export class AuthLockout {
+	private clients = new Map<string, { failures: number; firstFailure: number; lockedUntil: number }>();
+
+	/**
+	 * @param maxFailures - Failures allowed before locking out (0 disables lockout)
+	 * @param lockoutSeconds - Lockout duration, also the window failures are counted in
+	 */
+	constructor(private readonly maxFailures: number, private readonly lockoutSeconds: number) {}
+
+	check(ip: string, now: number = Date.now()): LimitResult {
+		const client = this.clients.get(ip);
+		if (client && client.lockedUntil > now) {
+			return { allowed: false, retryAfterSeconds: Math.ceil((client.lockedUntil - now) / 1000) };
+		}
+		return { allowed: true, retryAfterSeconds: 0 };
+	}
+
+	/**
+	 * Record a failed attempt
+	 * @returns true if this failure locked the client out
+	 */
+	recordFailure(ip: string, now: number = Date.now()): boolean {
+		if (this.maxFailures <= 0) {
+			return false;
+		}
+		this.sweep(now);
+
+		const periodMs = this.lockoutSeconds * 1000;
+		let client = this.clients.get(ip);
+		if (!client || (client.lockedUntil <= now && now - client.firstFailure >= periodMs)) {
+			client = { failures: 0, firstFailure: now, lockedUntil: 0 };
+			this.clients.set(ip, client);
+		}
+
+		client.failures++;
+		if (client.failures >= this.maxFailures && client.lockedUntil <= now) {
+			client.lockedUntil = now + periodMs;
+			client.failures = 0;
+			client.firstFailure = now;
+			return true;
+		}
+		return false;
+	}
+
+	recordSuccess(ip: string): void {
+		this.clients.delete(ip);
+	}
+
+	private sweep(now: number): void {
+		if (this.clients.size < SWEEP_THRESHOLD) {
+			return;
+		}
+		for (const [ip, client] of this.clients) {
+			if (client.lockedUntil <= now && now - client.firstFailure >= this.lockoutSeconds * 1000) {
+				this.clients.delete(ip);
+			}
+		}
+	}
+}
+
+/**
+ * Thrown by readLimitedText when a body exceeds the size limit
+ */
+export class BodyTooLargeError extends Error {
+	constructor(readonly limit: number) {
+		super(`Request body exceeds ${limit} bytes`);
+		this.name = "BodyTooLargeError";
+	}
+}
+
+/**
+ * Read a request body as text, stopping as soon as it exceeds the limit
+ * @throws BodyTooLargeError
+ */
+export async function readLimitedText(request: Request, maxBytes: number): Promise<string> {
+	const declared = parseInt(request.headers.get("Content-Length") ?? "", 10);
+	if (!isNaN(declared) && declared > maxBytes) {
+		throw new BodyTooLargeError(maxBytes);
+	}
+	if (request.body === null) {
+		return "";
+	}
+
+	const chunks: Uint8Array[] = [];
+	let total = 0;
+	const reader = request.body.getReader();
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) {
+			break;
+		}
+		total += value.length;
+		if (total > maxBytes) {
+			await reader.cancel();
+			throw new BodyTooLargeError(maxBytes);
+		}
+		chunks.push(value);
+	}
+
+	const bytes = new Uint8Array(total);
+	let offset = 0;
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return new TextDecoder().decode(bytes);
+}
@@ -0,0 +1,127 @@
+/**
+ * Graceful shutdown coordinator
+ *
+ * On SIGINT or SIGTERM the registered shutdown steps run in registration order.
+ * Switches, state writes and history writes are tracked so a step can wait for
+ * them to finish; the whole shutdown is bounded by SHUTDOWN_TIMEOUT.
+ */
+
+import type { Config } from "./config.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("shutdown");
+
+interface ShutdownStep {
+	name: string;
+	run: () => void | Promise<void>;
+}
+
+let deadlineMs = 8000;
+let steps: ShutdownStep[] = [];
+const pending = new Set<Promise<unknown>>();
+let shutdownPromise: Promise<boolean> | null = null;
+
+/**
+ * Initialize shutdown with configuration
+ */
+export function initShutdown(cfg: Config): void {
+	deadlineMs = cfg.shutdownTimeout * 1000;
+}
+
+/**
+ * Register a step to run on shutdown (steps run in registration order)
+ */
+export function onShutdown(name: string, run: () => void | Promise<void>): void {
+	steps.push({ name, run });
+}
+
+/**
+ * Whether shutdown has started
+ */
+export function isShuttingDown(): boolean {
+	return shutdownPromise !== null;
+}
+
+/**
+ * Track an in-flight operation so shutdown waits for it
+ */
+export function trackOperation<T>(operation: Promise<T>): Promise<T> {
+	pending.add(operation);
+	const untrack = () => pending.delete(operation);
+	operation.then(untrack, untrack);
+	return operation;
+}
+
+/**
+ * Wait until no tracked operations remain (including ones started while waiting)
+ */
+export async function waitForPendingOperations(): Promise<void> {
+	while (pending.size > 0) {
+		log.info(`   Waiting for ${pending.size} pending operation(s)...`, { pending: pending.size });
+		await Promise.allSettled([...pending]);
+	}
+}
+
+/**
+ * Run the shutdown steps once
+ * Returns true if every step finished before the deadline. Later calls return the same result.
+ */
+export function shutdown(reason: string): Promise<boolean> {
+	shutdownPromise ??= runSteps(reason);
+	return shutdownPromise;
+}
+
+async function runSteps(reason: string): Promise<boolean> {
+	log.info(`🛑 Stopping source switcher (${reason})...`, { signal: reason });
+	const deadline = Date.now() + deadlineMs;
+
+	for (const step of steps) {
+		const remaining = deadline - Date.now();
+		let timer: number | undefined;
+		const timedOut = new Promise<"timeout">((resolve) => {
+			timer = setTimeout(() => resolve("timeout"), Math.max(0, remaining));
+		});
+		try {
+			const result = await Promise.race([Promise.resolve().then(step.run), timedOut]);
+			if (result === "timeout") {
+				log.error(`⚠️  Shutdown deadline reached while stopping ${step.name}, exiting anyway`, { step: step.name });
+				return false;
+			}
+		} catch (error) {
+			log.error(`⚠️  Error stopping ${step.name}: ${error}`, { step: step.name, error });
+		} finally {
+			clearTimeout(timer);
+		}
+	}
+
+	log.info("Current source will remain active.");
+	return true;
+}
+
+/**
+ * Shut down and exit on SIGINT and SIGTERM
+ * A second signal during shutdown exits immediately.
+ */
+export function installSignalHandlers(): void {
+	const signals: Deno.Signal[] = Deno.build.os === "windows" ? ["SIGINT"] : ["SIGINT", "SIGTERM"];
+	for (const signal of signals) {
+		Deno.addSignalListener(signal, async () => {
+			if (isShuttingDown()) {
+				log.error(`⚠️  ${signal} received again, exiting immediately`, { signal });
+				Deno.exit(1);
+			}
+			const clean = await shutdown(signal);
+			Deno.exit(clean ? 0 : 1);
+		});
+	}
+}
+
+/**
+ * Forget registered steps and shutdown progress - for tests
+ */
+export function resetShutdown(): void {
+	steps = [];
+	pending.clear();
+	shutdownPromise = null;
+	deadlineMs = 8000;
+}
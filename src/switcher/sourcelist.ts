@@ -0,0 +1,71 @@
+/**
+ * Pipeline source list helpers and output, shared by the switcher and switcherctl
+ *
+ * Imports nothing but the logger, so command line clients can use it without
+ * loading the switcher's state, metrics or pipeline client.
+ */
+
+import type { Source } from "./types.ts";
+import { createLogger, getLogFormat } from "../logger.ts";
+
+const log = createLogger("sources");
+
+/**
+ * Whether a source is healthy
+ * Sources the pipeline reports no health for are treated as healthy; only
+ * is_healthy: false marks a source unhealthy.
+ */
+export function isSourceHealthy(source: Source): boolean {
+	return source.is_healthy !== false;
+}
+
+/**
+ * Log a formatted list of sources (one record per source with LOG_FORMAT=json)
+ */
+export function printSourcesList(sources: Source[]): void {
+	if (getLogFormat() === "json") {
+		for (const source of sources) {
+			log.info("Available source", {
+				sourceId: source.id,
+				sourceName: source.name,
+				sourceType: source.source_type,
+				enabled: source.enabled || false,
+				healthy: isSourceHealthy(source),
+			});
+		}
+		return;
+	}
+
+	log.info("=".repeat(70));
+	log.info("Available Sources:");
+	log.info("=".repeat(70));
+
+	if (sources.length === 0) {
+		log.info("No sources configured.");
+		return;
+	}
+
+	for (const source of sources) {
+		const sourceId = source.id;
+		const name = source.name || "Unnamed";
+		const sourceType = source.source_type || "unknown";
+		const enabled = source.enabled || false;
+		const healthy = isSourceHealthy(source);
+
+		const status = enabled ? "✓" : "✗";
+		const health = healthy ? "●" : "○";
+
+		log.info(`  ${status} ID ${sourceId}: ${name}`);
+		log.info(
+			`     Type: ${sourceType} | Health: ${health} ${healthy ? "(healthy)" : "(unhealthy)"}`
+		);
+
+		if (sourceType === "srt") {
+			const uri = source.uri || "N/A";
+			log.info(`     URI: ${uri}`);
+		}
+	}
+
+	log.info("=".repeat(70));
+}
+
@@ -0,0 +1,120 @@
+/**
+ * Live source tracking - periodically re-fetches sources from the pipeline
+ * and emits events when sources are added, removed or change health
+ */
+
+import type { Source } from "./types.ts";
+import { EventEmitter } from "./events.ts";
+import { getSources } from "./pipeline.ts";
+import { isSourceHealthy } from "./sourcelist.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("sources");
+
+export interface SourceChange {
+	source: Source;
+	previous?: Source;
+}
+
+export interface SourceDiff {
+	added: Source[];
+	removed: Source[];
+	healthChanged: SourceChange[];
+}
+
+/**
+ * Event emitter for source list changes
+ * Events: "sourceAdded", "sourceRemoved", "sourceHealthChanged"
+ */
+export const sourceEvents = new EventEmitter<SourceChange>();
+
+let currentSources: Source[] = [];
+let refreshTimer: number | null = null;
+
+/**
+ * Get the most recently fetched list of sources
+ */
+export function getCurrentSources(): Source[] {
+	return currentSources;
+}
+
+/**
+ * Replace the tracked source list without emitting events
+ */
+export function setCurrentSources(sources: Source[]): void {
+	currentSources = sources;
+}
+
+/**
+ * Compare two source lists by ID
+ */
+export function diffSources(oldSources: Source[], newSources: Source[]): SourceDiff {
+	const oldById = new Map(oldSources.map((s) => [s.id, s]));
+	const newById = new Map(newSources.map((s) => [s.id, s]));
+
+	const added = newSources.filter((s) => !oldById.has(s.id));
+	const removed = oldSources.filter((s) => !newById.has(s.id));
+	const healthChanged: SourceChange[] = [];
+
+	for (const source of newSources) {
+		const previous = oldById.get(source.id);
+		if (previous && isSourceHealthy(previous) !== isSourceHealthy(source)) {
+			healthChanged.push({ source, previous });
+		}
+	}
+
+	return { added, removed, healthChanged };
+}
+
+/**
+ * Re-fetch sources and emit events for any differences
+ * Returns false if the pipeline could not be reached (tracked list is kept)
+ */
+export async function refreshSources(baseUrl: string): Promise<boolean> {
+	const sources = await getSources(baseUrl);
+	if (sources === null) {
+		return false;
+	}
+
+	const diff = diffSources(currentSources, sources);
+	currentSources = sources;
+
+	for (const source of diff.added) {
+		log.info(`➕ Source ${source.id} added: ${source.name || "Unnamed"}`, { sourceId: source.id });
+		sourceEvents.emit("sourceAdded", { source });
+	}
+	for (const source of diff.removed) {
+		log.info(`➖ Source ${source.id} removed: ${source.name || "Unnamed"}`, { sourceId: source.id });
+		sourceEvents.emit("sourceRemoved", { source });
+	}
+	for (const change of diff.healthChanged) {
+		const healthy = isSourceHealthy(change.source);
+		log.info(`${healthy ? "💚" : "💔"} Source ${change.source.id} is now ${healthy ? "healthy" : "unhealthy"}`, {
+			sourceId: change.source.id,
+			healthy,
+		});
+		sourceEvents.emit("sourceHealthChanged", change);
+	}
+
+	return true;
+}
+
+/**
+ * Start periodic source refresh
+ */
+export function startSourceRefresh(baseUrl: string, intervalSeconds: number): void {
+	stopSourceRefresh();
+	refreshTimer = setInterval(() => {
+		refreshSources(baseUrl);
+	}, intervalSeconds * 1000);
+}
+
+/**
+ * Stop periodic source refresh
+ */
+export function stopSourceRefresh(): void {
+	if (refreshTimer !== null) {
+		clearInterval(refreshTimer);
+		refreshTimer = null;
+	}
+}
@@ -0,0 +1,158 @@
+/**
+ * Server-Sent Events stream of switcher state and switch events
+ */
+
+import { stateEvents } from "./state.ts";
+import { getStateSnapshot } from "./commands.ts";
+import { switchEvents } from "./pipeline.ts";
+import { rotationEvents } from "./rotation.ts";
+import { sourceEvents } from "./sources.ts";
+import { breakerEvents } from "./client.ts";
+import { overlayEvents } from "./overlay.ts";
+
+const MAX_BUFFERED_EVENTS = 500;
+const KEEPALIVE_INTERVAL_MS = 15000;
+
+interface BufferedEvent {
+	id: number;
+	event: string;
+	data: string;
+}
+
+const encoder = new TextEncoder();
+const clients = new Set<ReadableStreamDefaultController<Uint8Array>>();
+let buffer: BufferedEvent[] = [];
+let nextEventId = 1;
+let initialized = false;
+
+/**
+ * Format a single SSE message
+ */
+function formatEvent(event: string, data: string, id?: number): Uint8Array {
+	const idLine = id !== undefined ? `id: ${id}\n` : "";
+	return encoder.encode(`${idLine}event: ${event}\ndata: ${data}\n\n`);
+}
+
+/**
+ * Send raw bytes to a client, dropping it if the stream is gone
+ */
+function send(controller: ReadableStreamDefaultController<Uint8Array>, chunk: Uint8Array): void {
+	try {
+		controller.enqueue(chunk);
+	} catch (_error) {
+		clients.delete(controller);
+	}
+}
+
+/**
+ * Publish an event to all connected clients and the replay buffer
+ */
+export function publishEvent(event: string, payload: unknown): void {
+	const entry: BufferedEvent = {
+		id: nextEventId++,
+		event,
+		data: JSON.stringify(payload),
+	};
+
+	buffer.push(entry);
+	if (buffer.length > MAX_BUFFERED_EVENTS) {
+		buffer = buffer.slice(buffer.length - MAX_BUFFERED_EVENTS);
+	}
+
+	const chunk = formatEvent(entry.event, entry.data, entry.id);
+	for (const controller of clients) {
+		send(controller, chunk);
+	}
+}
+
+/**
+ * Get buffered events newer than the given event ID
+ */
+export function getEventsSince(lastEventId: number): Array<{ id: number; event: string; data: unknown }> {
+	return buffer
+		.filter((e) => e.id > lastEventId)
+		.map((e) => ({ id: e.id, event: e.event, data: JSON.parse(e.data) }));
+}
+
+/**
+ * Subscribe to switcher events (idempotent)
+ */
+export function initEventStream(): void {
+	if (initialized) {
+		return;
+	}
+	initialized = true;
+
+	stateEvents.on("stateChanged", () => publishEvent("stateChanged", getStateSnapshot()));
+	switchEvents.on("switched", (e) => publishEvent("switched", e));
+	switchEvents.on("switchFailed", (e) => publishEvent("switchFailed", e));
+	rotationEvents.on("scheduleAdvanced", (e) => publishEvent("scheduleAdvanced", e));
+	sourceEvents.on("sourceAdded", (e) => publishEvent("sourceAdded", e.source));
+	sourceEvents.on("sourceRemoved", (e) => publishEvent("sourceRemoved", e.source));
+	sourceEvents.on("sourceHealthChanged", (e) => publishEvent("sourceHealthChanged", e.source));
+	breakerEvents.on("opened", (status) => publishEvent("pipelineDown", status));
+	breakerEvents.on("closed", (status) => publishEvent("pipelineUp", status));
+	overlayEvents.on("changed", (overlay) => publishEvent("overlayChanged", overlay));
+}
+
+/**
+ * Disconnect all SSE clients
+ */
+export function closeEventStreams(): void {
+	for (const controller of clients) {
+		try {
+			controller.close();
+		} catch (_error) {
+			// Already closed
+		}
+	}
+	clients.clear();
+}
+
+/**
+ * Create an SSE response
+ * @param lastEventId - ID from the Last-Event-ID header; buffered events after it are replayed.
+ *                      Without it the client receives a "state" snapshot first.
+ */
+export function createEventStream(lastEventId: number | null): Response {
+	let streamController: ReadableStreamDefaultController<Uint8Array>;
+	let keepalive: number | null = null;
+
+	const body = new ReadableStream<Uint8Array>({
+		start(controller) {
+			streamController = controller;
+
+			if (lastEventId === null) {
+				send(controller, formatEvent("state", JSON.stringify(getStateSnapshot())));
+			} else {
+				for (const entry of buffer) {
+					if (entry.id > lastEventId) {
+						send(controller, formatEvent(entry.event, entry.data, entry.id));
+					}
+				}
+			}
+
+			clients.add(controller);
+			keepalive = setInterval(() => {
+				send(controller, encoder.encode(": keepalive\n\n"));
+				if (!clients.has(controller) && keepalive !== null) {
+					clearInterval(keepalive);
+				}
+			}, KEEPALIVE_INTERVAL_MS);
+		},
+		cancel() {
+			clients.delete(streamController);
+			if (keepalive !== null) {
+				clearInterval(keepalive);
+			}
+		},
+	});
+
+	return new Response(body, {
+		headers: {
+			"Content-Type": "text/event-stream",
+			"Cache-Control": "no-cache",
+			"Connection": "keep-alive",
+		},
+	});
+}
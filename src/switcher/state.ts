@@ -3,39 +3,18 @@
  */
 
 import type { SwitcherState } from "./types.ts";
+import type { StateStore } from "./stores.ts";
+import { EventEmitter } from "./events.ts";
+import { FileStateStore } from "./stores.ts";
+import { CURRENT_SCHEMA_VERSION, migrateState } from "./migrations.ts";
+import { trackOperation } from "./shutdown.ts";
+import { createLogger } from "../logger.ts";
 
-const DATA_DIR = "./data";
-const STATE_FILE = `${DATA_DIR}/state.json`;
+const DEFAULT_DATA_DIR = "./data";
 
-/**
- * Simple EventEmitter for state change events
- */
-class EventEmitter {
-	private listeners: Map<string, Set<() => void>> = new Map();
-
-	on(event: string, listener: () => void): void {
-		if (!this.listeners.has(event)) {
-			this.listeners.set(event, new Set());
-		}
-		this.listeners.get(event)!.add(listener);
-	}
-
-	off(event: string, listener: () => void): void {
-		this.listeners.get(event)?.delete(listener);
-	}
-
-	emit(event: string): void {
-		this.listeners.get(event)?.forEach((listener) => listener());
-	}
+const log = createLogger("state");
 
-	removeAllListeners(event?: string): void {
-		if (event) {
-			this.listeners.delete(event);
-		} else {
-			this.listeners.clear();
-		}
-	}
-}
+let store: StateStore = new FileStateStore(DEFAULT_DATA_DIR);
 
 /**
  * Global event emitter for state changes
@@ -46,13 +25,24 @@ export const stateEvents = new EventEmitter();
  * Default state
  */
 const defaultState: SwitcherState = {
+	schemaVersion: CURRENT_SCHEMA_VERSION,
 	rotationEnabled: false,
+	rotationMode: "sequential",
 	fixedSourceId: null,
 	selectedCameraIds: [],
 	rotationSchedule: [],
 	currentSourceId: null,
 	lastSwitchTime: null,
 	currentScheduleIndex: null,
+	schedules: [],
+	activeScheduleName: null,
+	failover: null,
+	override: null,
+	overlay: { url: null, visible: null, pinned: false },
+	overlayBindings: [],
+	overlayDefault: null,
+	overlayPlaylist: { enabled: false, entries: [] },
+	overlayPlaylistIndex: null,
 };
 
 /**
@@ -61,74 +51,102 @@ const defaultState: SwitcherState = {
 export const state: SwitcherState = { ...defaultState };
 
 /**
- * Ensure data directory exists
+ * Replace the storage backend used by loadState/saveState
  */
-async function ensureDataDir(): Promise<void> {
-	try {
-		await Deno.mkdir(DATA_DIR, { recursive: true });
-	} catch (error) {
-		if (!(error instanceof Deno.errors.AlreadyExists)) {
-			throw error;
-		}
-	}
+export function setStateStore(newStore: StateStore): void {
+	store = newStore;
 }
 
 /**
- * Load state from disk
+ * Load state from the configured store, migrating older schema versions
+ * @throws StateVersionError if the saved state is newer than this switcher supports
+ * @throws Error if the saved state cannot be read, parsed or migrated
+ *         (refusing to load it keeps it from being overwritten)
  */
 export async function loadState(): Promise<void> {
-	try {
-		await ensureDataDir();
-		const data = await Deno.readTextFile(STATE_FILE);
-		const loaded = JSON.parse(data) as Partial<SwitcherState>;
-		
-		// Merge with defaults, only override if values exist
-		if (loaded.rotationEnabled !== undefined) {
-			state.rotationEnabled = loaded.rotationEnabled;
-		}
-		if (loaded.fixedSourceId !== undefined) {
-			state.fixedSourceId = loaded.fixedSourceId;
-		}
-		if (loaded.selectedCameraIds !== undefined) {
-			state.selectedCameraIds = loaded.selectedCameraIds;
-		}
-		if (loaded.rotationSchedule !== undefined) {
-			state.rotationSchedule = loaded.rotationSchedule;
-		}
-		if (loaded.currentSourceId !== undefined) {
-			state.currentSourceId = loaded.currentSourceId;
-		}
-		if (loaded.lastSwitchTime !== undefined) {
-			state.lastSwitchTime = loaded.lastSwitchTime;
-		}
-		if (loaded.currentScheduleIndex !== undefined) {
-			state.currentScheduleIndex = loaded.currentScheduleIndex;
-		}
-		
-		console.log("✅ Loaded state from disk");
-	} catch (error) {
-		if (error instanceof Deno.errors.NotFound) {
-			console.log("ℹ️  No saved state found, using defaults");
-		} else {
-			console.error(`⚠️  Error loading state: ${error}`);
-		}
+	const raw = await store.load();
+	if (raw === null) {
+		log.info("ℹ️  No saved state found, using defaults");
+		return;
+	}
+
+	const { data, fromVersion, applied } = migrateState(raw as Record<string, unknown>);
+	const loaded = data as Partial<SwitcherState>;
+	
+	// Merge with defaults, only override if values exist
+	if (loaded.rotationEnabled !== undefined) {
+		state.rotationEnabled = loaded.rotationEnabled;
+	}
+	if (loaded.rotationMode !== undefined) {
+		state.rotationMode = loaded.rotationMode;
+	}
+	if (loaded.fixedSourceId !== undefined) {
+		state.fixedSourceId = loaded.fixedSourceId;
+	}
+	if (loaded.selectedCameraIds !== undefined) {
+		state.selectedCameraIds = loaded.selectedCameraIds;
+	}
+	if (loaded.rotationSchedule !== undefined) {
+		state.rotationSchedule = loaded.rotationSchedule;
+	}
+	if (loaded.currentSourceId !== undefined) {
+		state.currentSourceId = loaded.currentSourceId;
+	}
+	if (loaded.lastSwitchTime !== undefined) {
+		state.lastSwitchTime = loaded.lastSwitchTime;
+	}
+	if (loaded.currentScheduleIndex !== undefined) {
+		state.currentScheduleIndex = loaded.currentScheduleIndex;
+	}
+	if (loaded.schedules !== undefined) {
+		state.schedules = loaded.schedules;
+	}
+	if (loaded.activeScheduleName !== undefined) {
+		state.activeScheduleName = loaded.activeScheduleName;
+	}
+	if (loaded.override !== undefined) {
+		state.override = loaded.override;
+	}
+	if (loaded.overlay !== undefined) {
+		state.overlay = loaded.overlay;
+	}
+	if (loaded.overlayBindings !== undefined) {
+		state.overlayBindings = loaded.overlayBindings;
+	}
+	if (loaded.overlayDefault !== undefined) {
+		state.overlayDefault = loaded.overlayDefault;
+	}
+	if (loaded.overlayPlaylist !== undefined) {
+		state.overlayPlaylist = loaded.overlayPlaylist;
+	}
+	if (loaded.overlayPlaylistIndex !== undefined) {
+		state.overlayPlaylistIndex = loaded.overlayPlaylistIndex;
+	}
+	
+	log.info(`✅ Loaded state from ${store.description}`, { store: store.description });
+
+	if (applied.length > 0) {
+		log.info(
+			`🔄 Migrated state from schema version ${fromVersion} to ${CURRENT_SCHEMA_VERSION} (${applied.join("; ")})`,
+			{ fromVersion, toVersion: CURRENT_SCHEMA_VERSION, migrations: applied }
+		);
+		await saveState(false);
 	}
 }
 
 /**
- * Save state to disk
+ * Save state to the configured store
  * @param emitEvent - Whether to emit a stateChanged event (default: true)
  *                    Set to false when updating operational state (currentSourceId, lastSwitchTime)
  */
 export async function saveState(emitEvent: boolean = true): Promise<void> {
 	try {
-		await ensureDataDir();
-		await Deno.writeTextFile(STATE_FILE, JSON.stringify(state, null, 2));
+		await trackOperation(store.save(state));
 		if (emitEvent) {
 			stateEvents.emit("stateChanged");
 		}
 	} catch (error) {
-		console.error(`⚠️  Error saving state: ${error}`);
+		log.error(`⚠️  Error saving state: ${error}`, { error });
 	}
 }
 
@@ -0,0 +1,193 @@
+/**
+ * State storage backends
+ */
+
+import type { SwitcherState } from "./types.ts";
+import type { Config } from "./config.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("stores");
+
+export type StateStoreType = "file" | "kv" | "memory";
+
+/**
+ * Persistence backend for SwitcherState
+ */
+export interface StateStore {
+	/** Human-readable location, used in log messages */
+	readonly description: string;
+	/** Load saved state, or null if nothing has been saved yet */
+	load(): Promise<Partial<SwitcherState> | null>;
+	save(state: SwitcherState): Promise<void>;
+}
+
+/**
+ * JSON file store with atomic writes
+ *
+ * Writes go to a temporary file which is synced and renamed over state.json,
+ * so a crash mid-write never leaves a truncated file. The previous state.json
+ * is kept as state.json.bak and used if state.json cannot be parsed.
+ * Saves are serialized so concurrent callers never share the temporary file.
+ */
+export class FileStateStore implements StateStore {
+	readonly description: string;
+	private readonly stateFile: string;
+	private readonly tempFile: string;
+	private readonly backupFile: string;
+	private pending: Promise<void> = Promise.resolve();
+
+	constructor(private readonly dataDir: string) {
+		this.stateFile = `${dataDir}/state.json`;
+		this.tempFile = `${this.stateFile}.tmp`;
+		this.backupFile = `${this.stateFile}.bak`;
+		this.description = this.stateFile;
+	}
+
+	private async ensureDataDir(): Promise<void> {
+		try {
+			await Deno.mkdir(this.dataDir, { recursive: true });
+		} catch (error) {
+			if (!(error instanceof Deno.errors.AlreadyExists)) {
+				throw error;
+			}
+		}
+	}
+
+	private async readFile(path: string): Promise<Partial<SwitcherState> | null> {
+		try {
+			const data = await Deno.readTextFile(path);
+			return JSON.parse(data) as Partial<SwitcherState>;
+		} catch (error) {
+			if (error instanceof Deno.errors.NotFound) {
+				return null;
+			}
+			throw error;
+		}
+	}
+
+	async load(): Promise<Partial<SwitcherState> | null> {
+		await this.ensureDataDir();
+		try {
+			const loaded = await this.readFile(this.stateFile);
+			if (loaded !== null) {
+				return loaded;
+			}
+		} catch (error) {
+			log.warn(`⚠️  ${this.stateFile} is unreadable (${error}), trying backup`, { file: this.stateFile, error });
+			const backup = await this.readFile(this.backupFile);
+			if (backup === null) {
+				throw error;
+			}
+			return backup;
+		}
+		return await this.readFile(this.backupFile);
+	}
+
+	save(state: SwitcherState): Promise<void> {
+		const data = JSON.stringify(state, null, 2);
+		const run = this.pending.then(() => this.writeAtomic(data));
+		this.pending = run.catch(() => {});
+		return run;
+	}
+
+	private async writeAtomic(data: string): Promise<void> {
+		await this.ensureDataDir();
+
+		const file = await Deno.open(this.tempFile, { write: true, create: true, truncate: true });
+		try {
+			const bytes = new TextEncoder().encode(data);
+			let written = 0;
+			while (written < bytes.length) {
+				written += await file.write(bytes.subarray(written));
+			}
+			await file.syncData();
+		} finally {
+			file.close();
+		}
+
+		try {
+			await Deno.copyFile(this.stateFile, this.backupFile);
+		} catch (error) {
+			if (!(error instanceof Deno.errors.NotFound)) {
+				throw error;
+			}
+		}
+
+		await Deno.rename(this.tempFile, this.stateFile);
+	}
+}
+
+/**
+ * Deno KV store (requires the "kv" unstable feature)
+ */
+export class KvStateStore implements StateStore {
+	readonly description: string;
+	private kv: Deno.Kv | null = null;
+	private static readonly KEY = ["switcher", "state"];
+
+	constructor(private readonly path: string) {
+		this.description = `Deno KV (${path})`;
+	}
+
+	private async open(): Promise<Deno.Kv> {
+		if (this.kv === null) {
+			const dir = this.path.substring(0, this.path.lastIndexOf("/"));
+			if (dir) {
+				await Deno.mkdir(dir, { recursive: true });
+			}
+			this.kv = await Deno.openKv(this.path);
+		}
+		return this.kv;
+	}
+
+	async load(): Promise<Partial<SwitcherState> | null> {
+		const kv = await this.open();
+		const entry = await kv.get<Partial<SwitcherState>>(KvStateStore.KEY);
+		return entry.value;
+	}
+
+	async save(state: SwitcherState): Promise<void> {
+		const kv = await this.open();
+		await kv.set(KvStateStore.KEY, structuredClone(state));
+	}
+
+	close(): void {
+		this.kv?.close();
+		this.kv = null;
+	}
+}
+
+/**
+ * In-memory store (nothing survives a restart) - for tests
+ */
+export class MemoryStateStore implements StateStore {
+	readonly description = "memory";
+	private saved: SwitcherState | null = null;
+
+	constructor(initial: Partial<SwitcherState> | null = null) {
+		this.saved = initial !== null ? structuredClone(initial) as SwitcherState : null;
+	}
+
+	load(): Promise<Partial<SwitcherState> | null> {
+		return Promise.resolve(this.saved !== null ? structuredClone(this.saved) : null);
+	}
+
+	save(state: SwitcherState): Promise<void> {
+		this.saved = structuredClone(state);
+		return Promise.resolve();
+	}
+}
+
+/**
+ * Create the store selected in configuration
+ */
+export function createStateStore(cfg: Config): StateStore {
+	switch (cfg.stateStore) {
+		case "kv":
+			return new KvStateStore(`${cfg.dataDir}/state.kv`);
+		case "memory":
+			return new MemoryStateStore();
+		default:
+			return new FileStateStore(cfg.dataDir);
+	}
+}
@@ -23,15 +23,183 @@ export interface SourceResponse {
 export interface RotationScheduleItem {
 	cameraId: number;
 	durationSeconds: number;
+	weight?: number; // Relative pick weight in weighted mode (default: 1)
+	minDurationSeconds?: number; // Random duration range in weighted mode
+	maxDurationSeconds?: number;
+}
+
+export type RotationMode = "sequential" | "shuffle" | "weighted";
+
+export interface ScheduleWindow {
+	weekdays?: number[]; // 0 = Sunday ... 6 = Saturday; omitted = every day
+	startTime?: string; // "HH:MM"; a window ending before it starts wraps past midnight
+	endTime?: string; // "HH:MM" (exclusive)
+	startDate?: string; // "YYYY-MM-DD" (inclusive)
+	endDate?: string; // "YYYY-MM-DD" (inclusive)
+	timezone?: string; // IANA timezone, e.g. "Europe/Zagreb"; defaults to system timezone
+}
+
+export interface NamedSchedule {
+	name: string;
+	items: RotationScheduleItem[];
+	window?: ScheduleWindow; // Omitted = always active
+}
+
+export type SwitchReason = "rotation" | "manual" | "failover" | "fixed";
+
+/**
+ * Why a switch happened and who asked for it (recorded in the history log)
+ */
+export interface SwitchContext {
+	reason: SwitchReason;
+	initiator?: string; // API token label for manual switches; "system" when omitted
+}
+
+export interface SwitchEvent {
+	sourceId: number;
+	sourceName: string;
+	timestamp: string;
+	reason: SwitchReason;
+	error?: string; // Set for failed switches
+}
+
+/**
+ * Switch or configuration change recorded in the history log
+ */
+export interface HistoryEntry {
+	timestamp: string;
+	type: "switch" | "config";
+	initiator: string;
+	// Switch entries
+	sourceId?: number;
+	sourceName?: string;
+	reason?: SwitchReason;
+	success?: boolean;
+	pipelineStatus?: number; // HTTP status from the pipeline service
+	pipelineResponse?: string;
+	error?: string;
+	// Config entries
+	action?: string; // Command name, e.g. "setSchedule"
+	changes?: unknown; // Request body
+}
+
+export interface ScheduleAdvanceEvent {
+	index: number;
+	cameraId: number;
+	durationSeconds: number;
+}
+
+export interface FailoverStatus {
+	originalSourceId: number;
+	backupSourceId: number;
+	since: string;
+	recoveredAt: string | null; // When the original source became healthy again
+}
+
+export type BreakerState = "closed" | "open" | "half-open";
+
+/**
+ * Pipeline circuit breaker status (reported in GET /api/state, not persisted)
+ */
+export interface BreakerStatus {
+	state: BreakerState;
+	consecutiveFailures: number;
+	openedAt: string | null;
+	retryAt: string | null; // When a trial request is let through (set while open)
+	lastError: string | null;
+}
+
+/**
+ * Pipeline reachability from periodic health checks (reported by the API, not persisted)
+ */
+export interface PipelineConnectivity {
+	reachable: boolean | null; // null until the first health check
+	lastSeen: string | null; // Last successful health check
+	lastCheck: string | null;
+	consecutiveFailures: number; // Failed health checks since the last success
+}
+
+export interface ManualOverride {
+	sourceId: number;
+	startedAt: string;
+	expiresAt: string;
+	resumeScheduleIndex: number | null; // Schedule index rotation resumes from
+}
+
+/**
+ * HTML overlay settings the switcher keeps applied on the pipeline
+ * A null field is left as the pipeline has it.
+ */
+export interface OverlaySettings {
+	url: string | null;
+	visible: boolean | null;
+	pinned: boolean; // Manual override - source switches leave the overlay alone
+}
+
+/**
+ * Overlay to show while a source is live
+ */
+export interface OverlayTarget {
+	url?: string; // Omitted = keep the current page
+	visible: boolean;
+}
+
+/**
+ * Overlay bound to a source, optionally only for one rotation schedule item
+ */
+export interface OverlayBinding extends OverlayTarget {
+	sourceId: number;
+	scheduleIndex?: number; // Only while rotation plays this item...
+	scheduleName?: string | null; // ...of this named schedule (null/omitted = default rotationSchedule)
+}
+
+/**
+ * Overlay page shown in turn by the overlay playlist
+ */
+export interface OverlayPlaylistEntry {
+	url: string;
+	durationSeconds: number; // How long the page is visible
+	hideSeconds?: number; // Overlay hidden after the page, before the next entry (default: 0)
+	window?: ScheduleWindow; // Only played while the window is active; omitted = always
+}
+
+/**
+ * Overlay playlist - cycles overlay pages independently of camera rotation
+ */
+export interface OverlayPlaylist {
+	enabled: boolean; // While enabled, overlay bindings are not applied on switches
+	entries: OverlayPlaylistEntry[];
+}
+
+export type OverlayPlaylistPhase = "stopped" | "showing" | "hidden" | "idle";
+
+/**
+ * What the overlay playlist is doing right now
+ */
+export interface OverlayPlaylistStatus {
+	phase: OverlayPlaylistPhase; // idle = no entry's window is active
+	index: number | null; // Entry being shown, or shown last while hidden
+	until: string | null; // When the current phase ends
 }
 
 export interface SwitcherState {
+	schemaVersion: number; // Persisted state format version (see migrations.ts)
 	rotationEnabled: boolean;
+	rotationMode: RotationMode;
 	fixedSourceId: number | null;
 	selectedCameraIds: number[];
 	rotationSchedule: RotationScheduleItem[];
 	currentSourceId: number | null;
 	lastSwitchTime: string | null;
 	currentScheduleIndex: number | null; // Index of currently active camera in schedule
+	schedules: NamedSchedule[]; // Named schedules, first one with an active window wins
+	activeScheduleName: string | null; // null = default rotationSchedule is active
+	failover: FailoverStatus | null; // Set while a backup source replaces an unhealthy one
+	override: ManualOverride | null; // Timed manual take that pauses rotation
+	overlay: OverlaySettings; // Desired HTML overlay, re-applied after pipeline restarts
+	overlayBindings: OverlayBinding[]; // Applied on every successful switch unless pinned
+	overlayDefault: OverlayTarget | null; // For sources without a binding; null = leave the overlay alone
+	overlayPlaylist: OverlayPlaylist;
+	overlayPlaylistIndex: number | null; // Entry the playlist resumes from after a restart
 }
 
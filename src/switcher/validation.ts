@@ -0,0 +1,432 @@
+/**
+ * Request body validation
+ *
+ * Schemas are a small JSON Schema subset so they can also be published in API docs.
+ * Fields with `format: "source-id"` are checked against the pipeline's source list.
+ */
+
+import { getSources } from "./pipeline.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("validation");
+
+export type Schema =
+	| ObjectSchema
+	| ArraySchema
+	| NumberSchema
+	| StringSchema
+	| BooleanSchema;
+
+interface BaseSchema {
+	description?: string;
+	nullable?: boolean;
+}
+
+export interface ObjectSchema extends BaseSchema {
+	type: "object";
+	properties: Record<string, Schema>;
+	required?: string[];
+	additionalProperties?: boolean;
+	ordered?: [string, string][]; // [lower, upper] number fields; lower must not be greater than upper
+}
+
+export interface ArraySchema extends BaseSchema {
+	type: "array";
+	items: Schema;
+	maxItems?: number;
+}
+
+export interface NumberSchema extends BaseSchema {
+	type: "number" | "integer";
+	minimum?: number;
+	maximum?: number;
+	format?: "source-id";
+}
+
+export interface StringSchema extends BaseSchema {
+	type: "string";
+	enum?: string[];
+	pattern?: string;
+	minLength?: number;
+	maxLength?: number;
+	format?: "timezone";
+}
+
+export interface BooleanSchema extends BaseSchema {
+	type: "boolean";
+}
+
+export interface ValidationIssue {
+	path: string;
+	message: string;
+}
+
+interface SourceIdRef {
+	path: string;
+	id: number;
+}
+
+// Limits
+const MAX_DURATION_SECONDS = 86400; // 24 hours
+const MAX_SCHEDULE_ITEMS = 1000;
+
+/**
+ * Check that a timezone name is known to the runtime
+ */
+function isValidTimezone(timezone: string): boolean {
+	try {
+		new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+		return true;
+	} catch (_error) {
+		return false;
+	}
+}
+
+/**
+ * Describe a value's JSON type for error messages
+ */
+function typeOf(value: unknown): string {
+	if (value === null) {
+		return "null";
+	}
+	if (Array.isArray(value)) {
+		return "array";
+	}
+	return typeof value;
+}
+
+/**
+ * Validate a value against a schema, collecting every issue
+ */
+function walk(
+	schema: Schema,
+	value: unknown,
+	path: string,
+	issues: ValidationIssue[],
+	sourceIds: SourceIdRef[]
+): void {
+	if (value === null) {
+		if (!schema.nullable) {
+			issues.push({ path, message: `must be ${schema.type}, got null` });
+		}
+		return;
+	}
+
+	switch (schema.type) {
+		case "object": {
+			if (typeOf(value) !== "object") {
+				issues.push({ path, message: `must be object, got ${typeOf(value)}` });
+				return;
+			}
+			const obj = value as Record<string, unknown>;
+			for (const key of schema.required || []) {
+				if (obj[key] === undefined) {
+					issues.push({ path: `${path}.${key}`, message: "is required" });
+				}
+			}
+			for (const [key, fieldValue] of Object.entries(obj)) {
+				// Own properties only, so keys like "toString" are not matched on the prototype
+				const fieldSchema = Object.hasOwn(schema.properties, key) ? schema.properties[key] : undefined;
+				if (!fieldSchema) {
+					if (schema.additionalProperties === false) {
+						issues.push({ path: `${path}.${key}`, message: "is not a known field" });
+					}
+					continue;
+				}
+				walk(fieldSchema, fieldValue, `${path}.${key}`, issues, sourceIds);
+			}
+			for (const [lower, upper] of schema.ordered || []) {
+				const low = obj[lower];
+				const high = obj[upper];
+				if (typeof low === "number" && typeof high === "number" && low > high) {
+					issues.push({ path: `${path}.${lower}`, message: `must not be greater than ${upper}` });
+				}
+			}
+			return;
+		}
+		case "array": {
+			if (!Array.isArray(value)) {
+				issues.push({ path, message: `must be array, got ${typeOf(value)}` });
+				return;
+			}
+			if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+				issues.push({ path, message: `must have at most ${schema.maxItems} items` });
+				return;
+			}
+			value.forEach((item, index) => walk(schema.items, item, `${path}[${index}]`, issues, sourceIds));
+			return;
+		}
+		case "number":
+		case "integer": {
+			if (typeof value !== "number" || !Number.isFinite(value)) {
+				issues.push({ path, message: `must be ${schema.type}, got ${typeOf(value)}` });
+				return;
+			}
+			if (schema.type === "integer" && !Number.isInteger(value)) {
+				issues.push({ path, message: "must be an integer" });
+				return;
+			}
+			if (schema.minimum !== undefined && value < schema.minimum) {
+				issues.push({ path, message: `must be at least ${schema.minimum}` });
+			}
+			if (schema.maximum !== undefined && value > schema.maximum) {
+				issues.push({ path, message: `must be at most ${schema.maximum}` });
+			}
+			if (schema.format === "source-id") {
+				sourceIds.push({ path, id: value });
+			}
+			return;
+		}
+		case "string": {
+			if (typeof value !== "string") {
+				issues.push({ path, message: `must be string, got ${typeOf(value)}` });
+				return;
+			}
+			if (schema.enum !== undefined && !schema.enum.includes(value)) {
+				issues.push({ path, message: `must be one of: ${schema.enum.join(", ")}` });
+			}
+			if (schema.minLength !== undefined && value.length < schema.minLength) {
+				issues.push({ path, message: `must be at least ${schema.minLength} characters` });
+			}
+			if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+				issues.push({ path, message: `must be at most ${schema.maxLength} characters` });
+			}
+			if (schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+				issues.push({ path, message: `must match ${schema.pattern}` });
+			}
+			if (schema.format === "timezone" && !isValidTimezone(value)) {
+				issues.push({ path, message: "must be a valid IANA timezone" });
+			}
+			return;
+		}
+		case "boolean": {
+			if (typeof value !== "boolean") {
+				issues.push({ path, message: `must be boolean, got ${typeOf(value)}` });
+			}
+			return;
+		}
+	}
+}
+
+/**
+ * Response body for a failed validation (sent with status 422)
+ */
+export function validationErrorBody(issues: ValidationIssue[]): { error: string; details: ValidationIssue[] } {
+	return { error: "Validation failed", details: issues };
+}
+
+/**
+ * Validate a value against a schema (structure only)
+ */
+export function validateSchema(schema: Schema, value: unknown): ValidationIssue[] {
+	const issues: ValidationIssue[] = [];
+	walk(schema, value, "$", issues, []);
+	return issues;
+}
+
+/**
+ * Validate a request body: structure first, then source IDs against the pipeline
+ * Source IDs are not checked when the pipeline cannot be reached.
+ */
+export async function validateRequestBody(
+	schema: Schema,
+	body: unknown,
+	baseUrl: string
+): Promise<ValidationIssue[]> {
+	const issues: ValidationIssue[] = [];
+	const sourceIds: SourceIdRef[] = [];
+	walk(schema, body, "$", issues, sourceIds);
+
+	if (issues.length > 0 || sourceIds.length === 0) {
+		return issues;
+	}
+
+	const sources = await getSources(baseUrl);
+	if (sources === null) {
+		log.warn("⚠️  Cannot verify source IDs: pipeline unavailable");
+		return issues;
+	}
+
+	const known = new Set(sources.map((s) => s.id));
+	for (const ref of sourceIds) {
+		if (!known.has(ref.id)) {
+			issues.push({ path: ref.path, message: `unknown source ID ${ref.id}` });
+		}
+	}
+	return issues;
+}
+
+// Schemas
+
+const sourceIdSchema: NumberSchema = { type: "integer", minimum: 0, format: "source-id" };
+
+const durationSchema: NumberSchema = { type: "number", minimum: 1, maximum: MAX_DURATION_SECONDS };
+
+export const scheduleItemSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		cameraId: sourceIdSchema,
+		durationSeconds: durationSchema,
+		weight: { type: "number", minimum: 0, maximum: 1000 },
+		minDurationSeconds: durationSchema,
+		maxDurationSeconds: durationSchema,
+	},
+	required: ["cameraId", "durationSeconds"],
+	additionalProperties: false,
+	ordered: [["minDurationSeconds", "maxDurationSeconds"]],
+};
+
+export const rotationScheduleSchema: ArraySchema = {
+	type: "array",
+	items: scheduleItemSchema,
+	maxItems: MAX_SCHEDULE_ITEMS,
+};
+
+const timeOfDaySchema: StringSchema = { type: "string", pattern: "^([01]?\\d|2[0-3]):[0-5]\\d$" };
+
+const dateSchema: StringSchema = { type: "string", pattern: "^\\d{4}-(0[1-9]|1[0-2])-(0[1-9]|[12]\\d|3[01])$" };
+
+export const scheduleWindowSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		weekdays: { type: "array", items: { type: "integer", minimum: 0, maximum: 6 }, maxItems: 7 },
+		startTime: timeOfDaySchema,
+		endTime: timeOfDaySchema,
+		startDate: dateSchema,
+		endDate: dateSchema,
+		timezone: { type: "string", format: "timezone" },
+	},
+	additionalProperties: false,
+};
+
+export const namedScheduleSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		name: { type: "string", minLength: 1, maxLength: 100 },
+		items: rotationScheduleSchema,
+		window: scheduleWindowSchema,
+	},
+	required: ["name", "items"],
+	additionalProperties: false,
+};
+
+export const schedulesSchema: ArraySchema = {
+	type: "array",
+	items: namedScheduleSchema,
+	maxItems: 100,
+};
+
+export const cameraIdsSchema: ArraySchema = {
+	type: "array",
+	items: sourceIdSchema,
+	maxItems: MAX_SCHEDULE_ITEMS,
+};
+
+export const stateUpdateSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		rotationEnabled: { type: "boolean" },
+		rotationMode: { type: "string", enum: ["sequential", "shuffle", "weighted"] },
+		fixedSourceId: { ...sourceIdSchema, nullable: true },
+		selectedCameraIds: cameraIdsSchema,
+		rotationSchedule: rotationScheduleSchema,
+		schedules: schedulesSchema,
+	},
+	additionalProperties: false,
+};
+
+export const switchSourceSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		id: { type: "integer", minimum: 0 },
+		holdSeconds: durationSchema,
+	},
+	required: ["id"],
+	additionalProperties: false,
+};
+
+export const setScheduleSchema: ObjectSchema = {
+	type: "object",
+	properties: { schedule: rotationScheduleSchema },
+	required: ["schedule"],
+	additionalProperties: false,
+};
+
+export const setSchedulesSchema: ObjectSchema = {
+	type: "object",
+	properties: { schedules: schedulesSchema },
+	required: ["schedules"],
+	additionalProperties: false,
+};
+
+const overlayUrlSchema: StringSchema = { type: "string", pattern: "^https?://", maxLength: 2048 };
+
+export const setOverlaySchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		url: { ...overlayUrlSchema, nullable: true },
+		visible: { type: "boolean", nullable: true },
+		pinned: { type: "boolean" },
+		refresh: { type: "boolean" },
+	},
+	additionalProperties: false,
+};
+
+export const overlayTargetSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		url: overlayUrlSchema,
+		visible: { type: "boolean" },
+	},
+	required: ["visible"],
+	additionalProperties: false,
+};
+
+export const overlayBindingSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		...overlayTargetSchema.properties,
+		sourceId: sourceIdSchema,
+		scheduleIndex: { type: "integer", minimum: 0, maximum: MAX_SCHEDULE_ITEMS - 1 },
+		scheduleName: { type: "string", minLength: 1, maxLength: 100, nullable: true },
+	},
+	required: ["sourceId", "visible"],
+	additionalProperties: false,
+};
+
+export const setOverlayBindingsSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		default: { ...overlayTargetSchema, nullable: true },
+		bindings: { type: "array", items: overlayBindingSchema, maxItems: 500 },
+	},
+	additionalProperties: false,
+};
+
+export const overlayPlaylistEntrySchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		url: overlayUrlSchema,
+		durationSeconds: durationSchema,
+		hideSeconds: { type: "number", minimum: 0, maximum: MAX_DURATION_SECONDS },
+		window: scheduleWindowSchema,
+	},
+	required: ["url", "durationSeconds"],
+	additionalProperties: false,
+};
+
+export const setOverlayPlaylistSchema: ObjectSchema = {
+	type: "object",
+	properties: {
+		enabled: { type: "boolean" },
+		entries: { type: "array", items: overlayPlaylistEntrySchema, maxItems: 500 },
+	},
+	additionalProperties: false,
+};
+
+export const setCamerasSchema: ObjectSchema = {
+	type: "object",
+	properties: { cameraIds: cameraIdsSchema },
+	required: ["cameraIds"],
+	additionalProperties: false,
+};
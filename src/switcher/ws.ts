@@ -0,0 +1,353 @@
+/**
+ * WebSocket control channel - accepts the same commands as the REST API
+ * and broadcasts state to all connected clients
+ */
+
+import type { SwitcherState, RotationScheduleItem, NamedSchedule } from "./types.ts";
+import type { Config } from "./config.ts";
+import type { CommandResult, OverlayBindingsRequest, OverlayPlaylistRequest, OverlayRequest } from "./commands.ts";
+import type { TokenIdentity } from "./auth.ts";
+import type { LimitResult } from "./security.ts";
+import { commandRole, forbiddenBody, hasRole } from "./auth.ts";
+import {
+	getState,
+	getStateSnapshot,
+	updateState,
+	listSources,
+	switchSource,
+	cancelOverride,
+	setSchedule,
+	setSchedules,
+	setCameras,
+	getOverlay,
+	setOverlay,
+	updateOverlayBindings,
+	getOverlayPlaylist,
+	updateOverlayPlaylist,
+} from "./commands.ts";
+import { stateEvents } from "./state.ts";
+import { switchEvents } from "./pipeline.ts";
+import { overlayEvents } from "./overlay.ts";
+import type { Schema } from "./validation.ts";
+import {
+	validateRequestBody,
+	validationErrorBody,
+	stateUpdateSchema,
+	switchSourceSchema,
+	setScheduleSchema,
+	setSchedulesSchema,
+	setCamerasSchema,
+	setOverlaySchema,
+	setOverlayBindingsSchema,
+	setOverlayPlaylistSchema,
+} from "./validation.ts";
+import { createLogger } from "../logger.ts";
+
+const log = createLogger("ws");
+
+const AUTH_TIMEOUT_MS = 10000;
+const CLOSE_UNAUTHORIZED = 4001;
+
+interface WSClient {
+	socket: WebSocket;
+	identity: TokenIdentity | null; // Null until authenticated
+	checkRateLimit: () => LimitResult; // Shared with the client IP's HTTP requests
+}
+
+/**
+ * Message sent by a client
+ * { "type": "auth", "token": "..." } or
+ * { "type": "<command>", "requestId": "...", "body": { ...same as REST body } }
+ */
+interface WSMessage {
+	type: string;
+	requestId?: string | number;
+	token?: string;
+	body?: Record<string, unknown>;
+}
+
+/**
+ * Body schemas for commands that take a body
+ */
+const commandSchemas: Record<string, Schema> = {
+	setState: stateUpdateSchema,
+	switchSource: switchSourceSchema,
+	setSchedule: setScheduleSchema,
+	setSchedules: setSchedulesSchema,
+	setCameras: setCamerasSchema,
+	setOverlay: setOverlaySchema,
+	setOverlayBindings: setOverlayBindingsSchema,
+	setOverlayPlaylist: setOverlayPlaylistSchema,
+};
+
+let config: Config | null = null;
+const clients = new Set<WSClient>();
+
+/**
+ * Initialize WebSocket channel with configuration
+ */
+export function initWebSocket(cfg: Config): void {
+	if (config === null) {
+		stateEvents.on("stateChanged", broadcastState);
+		switchEvents.on("switched", broadcastState);
+		overlayEvents.on("changed", broadcastState);
+	}
+	config = cfg;
+}
+
+/**
+ * Send a JSON message to a client if its socket is open
+ */
+function sendMessage(client: WSClient, message: unknown): void {
+	if (client.socket.readyState === WebSocket.OPEN) {
+		client.socket.send(JSON.stringify(message));
+	}
+}
+
+/**
+ * Broadcast current state to all authenticated clients
+ */
+function broadcastState(): void {
+	for (const client of clients) {
+		if (client.identity !== null) {
+			sendMessage(client, { type: "state", state: getStateSnapshot() });
+		}
+	}
+}
+
+/**
+ * Close all WebSocket clients
+ */
+export function closeWebSockets(): void {
+	for (const client of clients) {
+		try {
+			client.socket.close(1001, "Server shutting down");
+		} catch (_error) {
+			// Already closed
+		}
+	}
+	clients.clear();
+}
+
+/**
+ * Size of a raw message in bytes
+ */
+function messageBytes(data: unknown): number {
+	if (typeof data === "string") {
+		return new TextEncoder().encode(data).byteLength;
+	}
+	if (data instanceof ArrayBuffer) {
+		return data.byteLength;
+	}
+	if (data instanceof Blob) {
+		return data.size;
+	}
+	return 0;
+}
+
+/**
+ * Parse a client message and check its fields
+ * Returns an error message for anything that is not a well-formed message.
+ */
+function parseMessage(data: unknown): WSMessage | string {
+	let message: unknown;
+	try {
+		message = JSON.parse(String(data));
+	} catch (_error) {
+		return "Invalid message";
+	}
+	if (typeof message !== "object" || message === null || Array.isArray(message)) {
+		return "Message must be a JSON object";
+	}
+
+	const { type, requestId, token, body } = message as Record<string, unknown>;
+	if (typeof type !== "string") {
+		return "\"type\" must be a string";
+	}
+	if (requestId !== undefined && typeof requestId !== "string" && typeof requestId !== "number") {
+		return "\"requestId\" must be a string or number";
+	}
+	if (token !== undefined && typeof token !== "string") {
+		return "\"token\" must be a string";
+	}
+	if (body !== undefined && (typeof body !== "object" || body === null || Array.isArray(body))) {
+		return "\"body\" must be an object";
+	}
+	return { type, requestId, token, body: body as Record<string, unknown> | undefined };
+}
+
+/**
+ * Run a command message and return its result
+ */
+async function runCommand(client: WSClient, message: WSMessage): Promise<CommandResult> {
+	if (!config) {
+		return { status: 500, body: { error: "API not initialized" } };
+	}
+
+	const { label, role } = client.identity!;
+	const body = message.body ?? {};
+	const required = commandRole(message.type, body);
+	if (required !== null && !hasRole(role, required)) {
+		log.warn(`🚫 ${label} (${role}) denied ${message.type}: requires ${required}`, {
+			token: label,
+			role,
+			command: message.type,
+			requiredRole: required,
+		});
+		return { status: 403, body: forbiddenBody(required) };
+	}
+
+	const schema = Object.hasOwn(commandSchemas, message.type) ? commandSchemas[message.type] : undefined;
+	if (schema) {
+		const issues = await validateRequestBody(schema, body, config.baseUrl);
+		if (issues.length > 0) {
+			return { status: 422, body: validationErrorBody(issues) };
+		}
+	}
+
+	// Bodies of the commands below have passed their schema
+	switch (message.type) {
+		case "getState":
+			return getState();
+		case "setState":
+			return await updateState(body as Partial<SwitcherState>, label);
+		case "getSources":
+			return await listSources(config.baseUrl);
+		case "switchSource":
+			return await switchSource(
+				config.baseUrl,
+				body.id as number,
+				body.holdSeconds as number | undefined,
+				label
+			);
+		case "cancelOverride":
+			return await cancelOverride(label);
+		case "setSchedule":
+			return await setSchedule(body.schedule as RotationScheduleItem[], label);
+		case "setSchedules":
+			return await setSchedules(body.schedules as NamedSchedule[], label);
+		case "setCameras":
+			return await setCameras(body.cameraIds as number[], label);
+		case "getOverlay":
+			return await getOverlay();
+		case "setOverlay":
+			return await setOverlay(body as OverlayRequest, label);
+		case "setOverlayBindings":
+			return await updateOverlayBindings(body as OverlayBindingsRequest, label);
+		case "getOverlayPlaylist":
+			return getOverlayPlaylist();
+		case "setOverlayPlaylist":
+			return await updateOverlayPlaylist(body as OverlayPlaylistRequest, label);
+		default:
+			return { status: 400, body: { error: `Unknown command: ${message.type}` } };
+	}
+}
+
+/**
+ * Handle an incoming message from a client
+ */
+async function handleMessage(
+	client: WSClient,
+	data: unknown,
+	identifyToken: (token: string) => TokenIdentity | null
+): Promise<void> {
+	// Same limit as a REST request body
+	if (config && messageBytes(data) > config.maxBodyBytes) {
+		sendMessage(client, { type: "error", error: "Message too large", limit: config.maxBodyBytes });
+		return;
+	}
+
+	const message = parseMessage(data);
+	if (typeof message === "string") {
+		sendMessage(client, { type: "error", error: message });
+		return;
+	}
+
+	if (client.identity === null) {
+		const identity = message.type === "auth" && message.token !== undefined
+			? identifyToken(message.token)
+			: null;
+		if (identity !== null) {
+			client.identity = identity;
+			sendMessage(client, { type: "auth", success: true });
+			sendMessage(client, { type: "state", state: getStateSnapshot() });
+		} else {
+			sendMessage(client, { type: "error", error: "Unauthorized" });
+			client.socket.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+		}
+		return;
+	}
+
+	// Commands count towards the same per-IP rate limit as REST requests
+	const limit = client.checkRateLimit();
+	let result: CommandResult;
+	try {
+		result = limit.allowed
+			? await runCommand(client, message)
+			: { status: 429, body: { error: "Too many requests", retryAfterSeconds: limit.retryAfterSeconds } };
+	} catch (error) {
+		log.error(`WebSocket command error: ${error}`, { command: message.type, error });
+		result = { status: 500, body: { error: "Internal server error" } };
+	}
+
+	sendMessage(client, {
+		type: "result",
+		requestId: message.requestId ?? null,
+		status: result.status,
+		body: result.body,
+	});
+}
+
+/**
+ * Upgrade a request to a WebSocket connection
+ * @param identity - Identity of the token the request was authenticated with (header or query),
+ *                   or null if the first message must be { "type": "auth", "token": "..." }.
+ * @param checkRateLimit - Counts a command against the client's rate limit
+ */
+export function handleWebSocket(
+	request: Request,
+	identity: TokenIdentity | null,
+	identifyToken: (token: string) => TokenIdentity | null,
+	checkRateLimit: () => LimitResult
+): Response {
+	if (request.headers.get("upgrade")?.toLowerCase() !== "websocket") {
+		return new Response(JSON.stringify({ error: "Expected WebSocket upgrade" }), {
+			status: 426,
+			headers: { "Content-Type": "application/json" },
+		});
+	}
+
+	const { socket, response } = Deno.upgradeWebSocket(request);
+	const client: WSClient = { socket, identity, checkRateLimit };
+	let authTimer: number | null = null;
+
+	socket.onopen = () => {
+		clients.add(client);
+		if (client.identity !== null) {
+			sendMessage(client, { type: "state", state: getStateSnapshot() });
+		} else {
+			authTimer = setTimeout(() => {
+				if (client.identity === null) {
+					client.socket.close(CLOSE_UNAUTHORIZED, "Authentication timeout");
+				}
+			}, AUTH_TIMEOUT_MS);
+		}
+	};
+
+	socket.onmessage = (event) => {
+		handleMessage(client, event.data, identifyToken);
+	};
+
+	socket.onclose = () => {
+		clients.delete(client);
+		if (authTimer !== null) {
+			clearTimeout(authTimer);
+		}
+	};
+
+	socket.onerror = () => {
+		clients.delete(client);
+	};
+
+	return response;
+}
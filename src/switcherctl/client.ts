@@ -0,0 +1,167 @@
+/**
+ * Switcher REST API client for switcherctl
+ *
+ * Requests time out after 10 seconds. Failures are classified so the CLI can
+ * exit with a distinct code for each kind.
+ */
+
+import type { SwitcherInstance } from "./profiles.ts";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+export type ApiErrorKind = "unreachable" | "unauthorized" | "rejected" | "server";
+
+/**
+ * Thrown when the switcher cannot be reached or answers with an error status
+ */
+export class SwitcherApiError extends Error {
+	constructor(
+		readonly kind: ApiErrorKind,
+		message: string,
+		readonly status: number | null = null
+	) {
+		super(message);
+		this.name = "SwitcherApiError";
+	}
+}
+
+/**
+ * Event received from GET /api/events
+ */
+export interface ServerEvent {
+	id: number | null; // null for the initial state snapshot
+	event: string;
+	data: unknown;
+}
+
+function headers(instance: SwitcherInstance, extra: Record<string, string> = {}): Record<string, string> {
+	return { Authorization: `Bearer ${instance.token}`, ...extra };
+}
+
+function parseBody(text: string): unknown {
+	try {
+		return text ? JSON.parse(text) : null;
+	} catch (_error) {
+		return text;
+	}
+}
+
+/**
+ * Error for a non-2xx response, with the API's error message and validation details
+ */
+export function responseError(status: number, body: unknown): SwitcherApiError {
+	const data = (typeof body === "object" && body !== null ? body : {}) as {
+		error?: string;
+		detail?: string;
+		details?: Array<{ path: string; message: string }>;
+	};
+	let message = data.error ?? (typeof body === "string" && body.trim() ? body.trim() : `HTTP ${status}`);
+	if (data.detail) {
+		message += `: ${data.detail}`;
+	}
+	if (Array.isArray(data.details) && data.details.length > 0) {
+		message += `\n` + data.details.map((d) => `   ${d.path}: ${d.message}`).join("\n");
+	}
+
+	if (status === 401 || status === 403) {
+		return new SwitcherApiError("unauthorized", message, status);
+	}
+	return new SwitcherApiError(status >= 500 ? "server" : "rejected", message, status);
+}
+
+/**
+ * Call the switcher API and return the parsed JSON response
+ * @throws SwitcherApiError
+ */
+export async function apiRequest<T = unknown>(
+	instance: SwitcherInstance,
+	method: string,
+	path: string,
+	body?: unknown
+): Promise<T> {
+	let response: Response;
+	try {
+		response = await fetch(`${instance.url}${path}`, {
+			method,
+			headers: headers(instance, body !== undefined ? { "Content-Type": "application/json" } : {}),
+			body: body !== undefined ? JSON.stringify(body) : undefined,
+			signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+		});
+	} catch (error) {
+		throw new SwitcherApiError("unreachable", `Cannot reach switcher at ${instance.url}: ${error}`);
+	}
+
+	const data = parseBody(await response.text());
+	if (!response.ok) {
+		throw responseError(response.status, data);
+	}
+	return data as T;
+}
+
+function parseEventBlock(block: string): ServerEvent | null {
+	let id: number | null = null;
+	let event = "message";
+	const data: string[] = [];
+	for (const line of block.split("\n")) {
+		if (line === "" || line.startsWith(":")) {
+			continue; // Keepalive comment
+		}
+		const colon = line.indexOf(":");
+		const field = colon === -1 ? line : line.slice(0, colon);
+		const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+		if (field === "id") {
+			id = Number(value);
+		} else if (field === "event") {
+			event = value;
+		} else if (field === "data") {
+			data.push(value);
+		}
+	}
+	return data.length > 0 ? { id, event, data: parseBody(data.join("\n")) } : null;
+}
+
+/**
+ * Parse a Server-Sent Events stream into events (blocks may span chunks)
+ */
+export async function* parseEventStream(chunks: AsyncIterable<string>): AsyncGenerator<ServerEvent> {
+	let buffer = "";
+	for await (const chunk of chunks) {
+		buffer += chunk.replace(/\r\n?/g, "\n");
+		let end: number;
+		while ((end = buffer.indexOf("\n\n")) !== -1) {
+			const event = parseEventBlock(buffer.slice(0, end));
+			buffer = buffer.slice(end + 2);
+			if (event !== null) {
+				yield event;
+			}
+		}
+	}
+}
+
+/**
+ * Connect to GET /api/events
+ * Resolves once connected; the returned events end when the stream closes.
+ * @param lastEventId - Replay buffered events after this ID (null starts with a state snapshot)
+ * @throws SwitcherApiError if the connection is refused
+ */
+export async function openEventStream(
+	instance: SwitcherInstance,
+	lastEventId: number | null,
+	signal?: AbortSignal
+): Promise<AsyncGenerator<ServerEvent>> {
+	const extra: Record<string, string> = { Accept: "text/event-stream" };
+	if (lastEventId !== null) {
+		extra["Last-Event-ID"] = String(lastEventId);
+	}
+
+	let response: Response;
+	try {
+		response = await fetch(`${instance.url}/api/events`, { headers: headers(instance, extra), signal });
+	} catch (error) {
+		throw new SwitcherApiError("unreachable", `Cannot reach switcher at ${instance.url}: ${error}`);
+	}
+	if (!response.ok || response.body === null) {
+		throw responseError(response.status, parseBody(await response.text()));
+	}
+	return parseEventStream(response.body.pipeThrough(new TextDecoderStream()));
+}
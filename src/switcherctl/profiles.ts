@@ -0,0 +1,132 @@
+/**
+ * Switcher instances for switcherctl - named profiles in a JSON config file,
+ * overridable from the environment and the command line
+ *
+ * {
+ *   "default": "summit",
+ *   "profiles": {
+ *     "summit": { "url": "http://summit.local:3000", "token": "..." },
+ *     "valley": { "url": "http://valley.local:3000", "tokenEnv": "VALLEY_SWITCHER_TOKEN" }
+ *   }
+ * }
+ */
+
+export const DEFAULT_SWITCHER_URL = "http://localhost:3000";
+
+export interface Profile {
+	url?: string;
+	token?: string;
+	tokenEnv?: string; // Environment variable holding the token, to keep it out of the file
+}
+
+export interface CtlConfig {
+	default?: string; // Profile used when none is chosen
+	profiles: Record<string, Profile>;
+}
+
+/**
+ * Switcher API to talk to
+ */
+export interface SwitcherInstance {
+	name: string | null; // Profile name, null without a profile
+	url: string;
+	token: string;
+}
+
+/**
+ * How the instance was chosen, in priority order per field
+ */
+export interface InstanceSelection {
+	profile?: string; // --profile, then SWITCHER_PROFILE
+	url?: string; // --url
+	envUrl?: string; // SWITCHER_URL
+	envToken?: string; // SWITCHER_TOKEN
+}
+
+/**
+ * Default config file: ~/.config/switcherctl.json (null if HOME is not set)
+ */
+export function defaultConfigPath(
+	getEnv: (name: string) => string | undefined = (name) => Deno.env.get(name)
+): string | null {
+	const home = getEnv("HOME") ?? getEnv("USERPROFILE");
+	return home ? `${home}/.config/switcherctl.json` : null;
+}
+
+/**
+ * Parse and check a config file's contents
+ * @throws Error describing the first problem
+ */
+export function parseCtlConfig(text: string, path: string): CtlConfig {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch (error) {
+		throw new Error(`${path} is not valid JSON: ${error instanceof Error ? error.message : error}`);
+	}
+	const config = data as Partial<CtlConfig> | null;
+	if (typeof config !== "object" || config === null || typeof config.profiles !== "object" || config.profiles === null) {
+		throw new Error(`${path} must contain a "profiles" object`);
+	}
+	for (const [name, profile] of Object.entries(config.profiles)) {
+		if (typeof profile !== "object" || profile === null) {
+			throw new Error(`${path}: profiles.${name} must be an object`);
+		}
+		for (const field of ["url", "token", "tokenEnv"] as const) {
+			if (profile[field] !== undefined && typeof profile[field] !== "string") {
+				throw new Error(`${path}: profiles.${name}.${field} must be a string`);
+			}
+		}
+	}
+	if (config.default !== undefined && !(config.default in config.profiles)) {
+		throw new Error(`${path}: default profile "${config.default}" is not defined`);
+	}
+	return config as CtlConfig;
+}
+
+/**
+ * Load the config file; a missing file is an empty config
+ */
+export async function loadCtlConfig(path: string | null): Promise<CtlConfig> {
+	if (path === null) {
+		return { profiles: {} };
+	}
+	try {
+		return parseCtlConfig(await Deno.readTextFile(path), path);
+	} catch (error) {
+		if (error instanceof Deno.errors.NotFound) {
+			return { profiles: {} };
+		}
+		throw error;
+	}
+}
+
+/**
+ * Pick the switcher to talk to
+ * A profile chosen with --profile or SWITCHER_PROFILE wins over SWITCHER_URL and
+ * SWITCHER_TOKEN, which in turn override the config's default profile.
+ * @throws Error for an unknown profile or when no token is found
+ */
+export function resolveInstance(
+	config: CtlConfig,
+	selection: InstanceSelection,
+	getEnv: (name: string) => string | undefined = (name) => Deno.env.get(name)
+): SwitcherInstance {
+	const name = selection.profile ?? config.default ?? null;
+	if (name !== null && !(name in config.profiles)) {
+		const known = Object.keys(config.profiles);
+		throw new Error(`Unknown profile "${name}"${known.length > 0 ? ` (known: ${known.join(", ")})` : ""}`);
+	}
+
+	const profile = name !== null ? config.profiles[name] : {};
+	const profileToken = profile.token ?? (profile.tokenEnv ? getEnv(profile.tokenEnv) : undefined);
+	const explicit = selection.profile !== undefined;
+	const url = selection.url ?? (explicit ? profile.url ?? selection.envUrl : selection.envUrl ?? profile.url);
+	const token = explicit ? profileToken ?? selection.envToken : selection.envToken ?? profileToken;
+
+	if (!token) {
+		const where = name !== null ? ` or a token for profile "${name}"` : " or a profile with a token";
+		throw new Error(`No API token: set SWITCHER_TOKEN${where}`);
+	}
+	return { name, url: (url ?? DEFAULT_SWITCHER_URL).replace(/\/+$/, ""), token };
+}
@@ -0,0 +1,65 @@
+/**
+ * Rotation schedule editing for switcherctl
+ *
+ * Positions are 1-based, as printed by `switcherctl schedule get`. Edits return
+ * a new schedule; items keep their optional fields (weight, duration range).
+ */
+
+import type { RotationScheduleItem } from "../switcher/types.ts";
+
+/**
+ * Parse a schedule item written as CAMERA_ID:SECONDS (e.g. "3:90")
+ * @throws Error if the item is malformed
+ */
+export function parseScheduleItem(spec: string): RotationScheduleItem {
+	const match = /^(\d+):(\d+(?:\.\d+)?)$/.exec(spec.trim());
+	if (!match) {
+		throw new Error(`Schedule item must be CAMERA_ID:SECONDS (got "${spec}")`);
+	}
+	return { cameraId: Number(match[1]), durationSeconds: Number(match[2]) };
+}
+
+/**
+ * Parse a 1-based position within a list of the given length
+ * @param allowEnd - Also allow length + 1 (the position after the last item)
+ * @throws Error if the position is not a whole number in range
+ */
+export function parsePosition(value: string, length: number, allowEnd: boolean = false): number {
+	const max = allowEnd ? length + 1 : length;
+	const position = Number(value);
+	if (!Number.isInteger(position) || position < 1 || position > max) {
+		const range = max > 0 ? `1-${max}` : "none, the schedule is empty";
+		throw new Error(`Position must be a whole number in range (${range}), got "${value}"`);
+	}
+	return position;
+}
+
+/**
+ * Insert an item at a position (default: the end)
+ */
+export function addScheduleItem(
+	schedule: RotationScheduleItem[],
+	item: RotationScheduleItem,
+	position: number = schedule.length + 1
+): RotationScheduleItem[] {
+	const result = [...schedule];
+	result.splice(position - 1, 0, item);
+	return result;
+}
+
+/**
+ * Remove the item at a position
+ */
+export function removeScheduleItem(schedule: RotationScheduleItem[], position: number): RotationScheduleItem[] {
+	return schedule.filter((_item, index) => index !== position - 1);
+}
+
+/**
+ * Move the item at one position to another
+ */
+export function moveScheduleItem(schedule: RotationScheduleItem[], from: number, to: number): RotationScheduleItem[] {
+	const result = [...schedule];
+	const [item] = result.splice(from - 1, 1);
+	result.splice(to - 1, 0, item);
+	return result;
+}
@@ -5,10 +5,35 @@
  * Environment Variables (can be set via .env file or environment):
  *    BASE_URL                  Base URL of the pipeline service
  *    API_PORT                  Port for the API server (default: 3000)
- *    API_TOKEN                 Bearer token for API authentication (required)
+ *    API_TOKEN                 Bearer token with the admin role (required unless API_TOKENS_FILE is set)
+ *    API_TOKENS_FILE           JSON file of labelled API tokens with read, operator or admin roles
  *    CAMERA_API_HOST           Camera API host URL (default: http://localhost:3000)
  *    CAMERA_API_TOKEN          Bearer token for camera API authentication
  *    SOURCE_DIRECTION_MAP      Comma-separated mapping of source IDs to directions (e.g., "1:N,2:E,3:W,4:S")
+ *    SOURCE_REFRESH_INTERVAL   Seconds between source list refreshes from the pipeline (default: 15)
+ *    HEALTH_CHECK_INTERVAL     Seconds between pipeline health checks, also while waiting for it at startup (default: 10)
+ *    FAILOVER_CHAINS           Per-source backup chains (e.g., "1:2|3,2:1|3" - source 1 fails over to 2, then 3)
+ *    FAILOVER_FALLBACK_SOURCE  Source ID used when no chained backup is available (e.g., a file source)
+ *    FAILOVER_HOLD_DOWN        Seconds a recovered source must stay healthy before failing back (default: 30)
+ *    STATE_STORE               State storage backend: file, kv (Deno KV) or memory (default: file)
+ *    DATA_DIR                  Directory for persisted state and the history log (default: ./data)
+ *    HISTORY_MAX_BYTES         Size at which the history log is rotated (default: 5242880)
+ *    HISTORY_MAX_FILES         Number of history log files kept, including the current one (default: 5)
+ *    RATE_LIMIT_REQUESTS       API requests allowed per client IP per window, 0 to disable (default: 120)
+ *    RATE_LIMIT_WINDOW         Rate limit window in seconds (default: 60)
+ *    AUTH_MAX_FAILURES         Failed authentications before a client IP is locked out, 0 to disable (default: 5)
+ *    AUTH_LOCKOUT_SECONDS      Lockout duration in seconds (default: 300)
+ *    MAX_BODY_BYTES            Maximum API request body size (default: 65536)
+ *    CORS_ORIGINS              Comma-separated browser origins allowed to call the API, or * for any
+ *    PIPELINE_TIMEOUT_MS       Timeout for each pipeline service request (default: 5000)
+ *    PIPELINE_RETRIES          Retries for idempotent pipeline requests after errors or 5xx (default: 2)
+ *    PIPELINE_RETRY_BASE_MS    First retry backoff, doubled per retry and jittered (default: 250)
+ *    PIPELINE_RETRY_MAX_MS     Maximum retry backoff (default: 2000)
+ *    PIPELINE_BREAKER_FAILURES Consecutive failed pipeline calls that pause calls and rotation, 0 to disable (default: 5)
+ *    PIPELINE_BREAKER_RESET_MS Pause before a trial call after the breaker opens (default: 30000)
+ *    SHUTDOWN_TIMEOUT          Seconds to wait for pending switches and state writes on SIGINT/SIGTERM (default: 8)
+ *    LOG_LEVEL                 Minimum log level: debug, info, warn or error (default: info)
+ *    LOG_FORMAT                Log output: text, or json for one JSON object per line (default: text)
  *
  * Usage:
  *    deno run --allow-net --allow-env --allow-read --allow-write --env-file switcher.ts [base_url]
@@ -18,16 +43,62 @@
  */
 
 import { loadConfig } from "./src/switcher/config.ts";
-import { loadState } from "./src/switcher/state.ts";
-import { getSources, checkHealth, printSourcesList } from "./src/switcher/pipeline.ts";
+import { loadState, setStateStore } from "./src/switcher/state.ts";
+import { createStateStore } from "./src/switcher/stores.ts";
+import type { Source } from "./src/switcher/types.ts";
+import { getSources } from "./src/switcher/pipeline.ts";
+import { printSourcesList } from "./src/switcher/sourcelist.ts";
 import { initCameraAPI } from "./src/switcher/camera.ts";
-import { initAPI, startAPIServer } from "./src/switcher/api.ts";
-import { runRotationLoop } from "./src/switcher/rotation.ts";
+import { initAPI, startAPIServer, stopAPIServer } from "./src/switcher/api.ts";
+import { runRotationLoop, stopRotation } from "./src/switcher/rotation.ts";
+import { initFailover, stopFailover } from "./src/switcher/failover.ts";
+import { initHistory } from "./src/switcher/history.ts";
+import { initOverlay } from "./src/switcher/overlay.ts";
+import { startOverlayPlaylist, stopOverlayPlaylist } from "./src/switcher/playlist.ts";
+import { initPipelineClient } from "./src/switcher/client.ts";
+import { checkPipeline, startHealthMonitor, stopHealthMonitor } from "./src/switcher/monitor.ts";
+import { closeEventStreams } from "./src/switcher/sse.ts";
+import { closeWebSockets } from "./src/switcher/ws.ts";
+import {
+	initShutdown,
+	installSignalHandlers,
+	isShuttingDown,
+	onShutdown,
+	waitForPendingOperations,
+} from "./src/switcher/shutdown.ts";
+import { configureLogging, createLogger } from "./src/logger.ts";
+
+const log = createLogger("switcher");
 
 function sleep(seconds: number): Promise<void> {
 	return new Promise((resolve) => setTimeout(resolve, seconds * 1000));
 }
 
+/**
+ * Probe the pipeline until it is healthy and returns its sources
+ * The API keeps running in degraded mode meanwhile. Returns null if shutdown starts first.
+ */
+async function waitForPipeline(baseUrl: string, intervalSeconds: number): Promise<Source[] | null> {
+	let warned = false;
+	while (!isShuttingDown()) {
+		if (await checkPipeline(baseUrl)) {
+			const sources = await getSources(baseUrl);
+			if (sources !== null) {
+				return sources;
+			}
+		}
+		if (!warned) {
+			log.warn(
+				`⏳ Pipeline service not reachable, API running in degraded mode. Retrying every ${intervalSeconds} seconds...`,
+				{ retrySeconds: intervalSeconds }
+			);
+			warned = true;
+		}
+		await sleep(intervalSeconds);
+	}
+	return null;
+}
+
 async function main(): Promise<void> {
 	// Load configuration
 	let config;
@@ -35,59 +106,84 @@ async function main(): Promise<void> {
 		config = loadConfig(Deno.args[0]);
 	} catch (error) {
 		const message = error instanceof Error ? error.message : String(error);
-		console.error(`❌ Error: ${message}\n`);
+		log.error(`❌ Error: ${message}`);
 		Deno.exit(1);
 	}
+	configureLogging(config);
 
-	console.log(`Source Switcher - Connecting to ${config.baseUrl}`);
-	console.log(`API Server: http://localhost:${config.apiPort}`);
+	log.info(`Source Switcher - Connecting to ${config.baseUrl}`, { baseUrl: config.baseUrl });
+	log.info(`API Server: http://localhost:${config.apiPort}`, { port: config.apiPort });
 	if (config.cameraApiToken && config.sourceDirectionMap.size > 0) {
-		console.log(`Camera API: Enabled (${config.sourceDirectionMap.size} source(s) mapped)`);
+		log.info(`Camera API: Enabled (${config.sourceDirectionMap.size} source(s) mapped)`);
 	} else if (config.cameraApiToken) {
-		console.log(`Camera API: Token configured but no source mappings found`);
+		log.warn(`Camera API: Token configured but no source mappings found`);
 	} else {
-		console.log(`Camera API: Disabled (no token configured)`);
+		log.info(`Camera API: Disabled (no token configured)`);
+	}
+	if (config.failoverChains.size > 0 || config.failoverFallbackId !== null) {
+		const fallback = config.failoverFallbackId !== null ? `, fallback source ${config.failoverFallbackId}` : "";
+		log.info(`Failover: Enabled (${config.failoverChains.size} chain(s)${fallback})`);
+	} else {
+		log.info(`Failover: Disabled (no backup sources configured)`);
 	}
-	console.log();
 
 	// Initialize modules
+	initShutdown(config);
+	initPipelineClient(config);
 	initCameraAPI(config);
 	initAPI(config);
+	initFailover(config);
+	initOverlay(config);
 
 	// Load saved state
-	await loadState();
-
-	// Initial health check
-	if (!await checkHealth(config.baseUrl)) {
-		console.error("❌ Health check failed. Is the service running?");
+	initHistory(config);
+	setStateStore(createStateStore(config));
+	try {
+		await loadState();
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		log.error(`❌ Error: ${message}`);
 		Deno.exit(1);
 	}
 
-	console.log("✅ Connected to pipeline service\n");
+	// Shutdown order: stop timers, let switches and state writes finish, disconnect clients, close the server
+	onShutdown("rotation", stopRotation);
+	onShutdown("failover", stopFailover);
+	onShutdown("overlay playlist", stopOverlayPlaylist);
+	onShutdown("health monitor", stopHealthMonitor);
+	onShutdown("pending operations", waitForPendingOperations);
+	onShutdown("event streams", closeEventStreams);
+	onShutdown("WebSockets", closeWebSockets);
+	onShutdown("API server", stopAPIServer);
+	installSignalHandlers();
 
-	// Get initial list of sources
-	const sources = await getSources(config.baseUrl);
+	// Start API server first so it is available while the pipeline is down (non-blocking)
+	startAPIServer();
+
+	// Give API server a moment to start
+	await sleep(1);
+
+	// Wait for the pipeline service, then get the initial list of sources
+	const sources = await waitForPipeline(config.baseUrl, config.healthCheckInterval);
 	if (sources === null) {
-		console.error("❌ Failed to retrieve sources. Exiting.");
-		Deno.exit(1);
+		return;
 	}
 
+	log.info("✅ Connected to pipeline service");
+
 	// Print sources list
 	printSourcesList(sources);
 
 	const srtSources = sources.filter(
 		(s) => (s.enabled || false) && s.source_type === "srt"
 	);
-	console.log(`Found ${srtSources.length} enabled SRT source(s).\n`);
-
-	// Start API server (non-blocking)
-	startAPIServer();
+	log.info(`Found ${srtSources.length} enabled SRT source(s).`, { count: srtSources.length });
 
-	// Give API server a moment to start
-	await sleep(1);
+	startHealthMonitor(config.baseUrl, config.healthCheckInterval);
+	startOverlayPlaylist();
 
 	// Start rotation loop
-	await runRotationLoop(config.baseUrl, sources);
+	await runRotationLoop(config.baseUrl, sources, config.sourceRefreshInterval);
 }
 
 if (import.meta.main) {
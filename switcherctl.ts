@@ -0,0 +1,751 @@
+#!/usr/bin/env -S deno run --allow-net --allow-env --allow-read --env-file
+/**
+ * Switcher Control - Command line client for the source switcher API
+ *
+ * Environment Variables (can be set via .env file or environment):
+ *    SWITCHER_URL        Switcher API URL (default: http://localhost:3000)
+ *    SWITCHER_TOKEN      API token (needs the operator role to switch, admin for schedules and cameras)
+ *    SWITCHER_PROFILE    Profile to use from the config file
+ *    SWITCHERCTL_CONFIG  Config file with named switcher profiles (default: ~/.config/switcherctl.json)
+ *    LOG_LEVEL           Minimum log level: debug, info, warn or error (default: info)
+ *    LOG_FORMAT          Log output: text, or json for one JSON object per line (default: text)
+ *
+ * A profile chosen with --profile or SWITCHER_PROFILE wins over SWITCHER_URL and
+ * SWITCHER_TOKEN; otherwise those override the config file's default profile.
+ *
+ * Config file:
+ *    {
+ *      "default": "summit",
+ *      "profiles": {
+ *        "summit": { "url": "http://summit.local:3000", "token": "..." },
+ *        "valley": { "url": "http://valley.local:3000", "tokenEnv": "VALLEY_SWITCHER_TOKEN" }
+ *      }
+ *    }
+ *
+ * Usage:
+ *    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts [options] [command] [args]
+ *
+ * Commands:
+ *    state                          Show rotation, the live source and pipeline health
+ *    sources                        List the pipeline's sources
+ *    take ID [HOLD_SECONDS]         Switch to a source, optionally holding it (pauses rotation)
+ *    rotation on|off                Enable or disable rotation
+ *    schedule get                   Show the rotation schedule
+ *    schedule set ID:SECONDS...     Replace the rotation schedule
+ *    schedule add ID:SECONDS [POS]  Insert an item (default: at the end)
+ *    schedule remove POS            Remove the item at a position
+ *    schedule move FROM TO          Move an item to another position
+ *    cameras set [ID...]            Select the cameras used for rotation (none = all)
+ *    fixed ID                       Disable rotation and stay on a source
+ *    watch                          Print switcher events as they happen (Ctrl+C to stop)
+ *
+ * Options:
+ *    --profile NAME      Use a profile from the config file
+ *    --url URL           Switcher API URL (overrides the profile and SWITCHER_URL)
+ *    --json              Print the result as one JSON object on stdout; watch prints one event per line
+ *
+ * Exit codes:
+ *    0  Success
+ *    1  Usage, configuration or unexpected error
+ *    2  Switcher unreachable
+ *    3  Token missing the required role or not accepted
+ *    4  Request rejected (invalid value, unknown source, ...)
+ *    5  Switcher error (e.g. the pipeline failed to switch)
+ *
+ * Examples:
+ *    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts state
+ *    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts --profile valley take 3 120
+ *    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts schedule set 1:60 2:120 3:90
+ *    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts schedule move 3 1
+ *    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts --json watch
+ */
+
+import type { LoggingConfig } from "./src/logger.ts";
+import {
+  configureLogging,
+  createLogger,
+  getLogFormat,
+  loadLoggingConfig,
+} from "./src/logger.ts";
+
+import type {
+  BreakerStatus,
+  ManualOverride,
+  PipelineConnectivity,
+  RotationScheduleItem,
+  Source,
+  SwitcherState,
+} from "./src/switcher/types.ts";
+import { isSourceHealthy, printSourcesList } from "./src/switcher/sourcelist.ts";
+import type { ApiErrorKind, ServerEvent } from "./src/switcherctl/client.ts";
+import {
+  apiRequest,
+  openEventStream,
+  SwitcherApiError,
+} from "./src/switcherctl/client.ts";
+import type { SwitcherInstance } from "./src/switcherctl/profiles.ts";
+import {
+  defaultConfigPath,
+  loadCtlConfig,
+  resolveInstance,
+} from "./src/switcherctl/profiles.ts";
+import {
+  addScheduleItem,
+  moveScheduleItem,
+  parsePosition,
+  parseScheduleItem,
+  removeScheduleItem,
+} from "./src/switcherctl/schedule.ts";
+
+const log = createLogger("switcherctl");
+
+// Exit codes, so scripts can tell failures apart
+const EXIT_CODES: Record<"ok" | "error" | "usage" | ApiErrorKind, number> = {
+  ok: 0,
+  error: 1,
+  usage: 1,
+  unreachable: 2,
+  unauthorized: 3,
+  rejected: 4,
+  server: 5,
+};
+
+const RECONNECT_DELAY_MS = 3000;
+
+const COMMANDS = ["state", "sources", "take", "rotation", "schedule", "cameras", "fixed", "watch"];
+
+interface Options {
+  json: boolean;
+  help: boolean;
+  profile?: string;
+  url?: string;
+}
+
+// Thrown for bad command lines; run() reports it and exits with EXIT_CODES.usage
+class UsageError extends Error {}
+
+// GET /api/state adds live status to the persisted state
+interface StateResponse extends Omit<SwitcherState, "override"> {
+  override: (ManualOverride & { remainingSeconds: number }) | null;
+  pipeline: BreakerStatus;
+  connectivity: PipelineConnectivity;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function parseId(value: string | undefined, what: string): number {
+  /** Parse a source or camera ID argument */
+  const id = Number(value);
+  if (value === undefined || !Number.isInteger(id) || id < 0) {
+    throw new Error(`${what} must be a source ID, got "${value ?? ""}"`);
+  }
+  return id;
+}
+
+function reportError(action: string, error: unknown): void {
+  /** Log a failed command, with a hint when the token was refused */
+  if (!(error instanceof SwitcherApiError)) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`❌ Error trying to ${action}: ${message}`);
+    return;
+  }
+  log.error(`❌ Failed to ${action}: ${error.message}`, {
+    kind: error.kind,
+    status: error.status,
+  });
+  if (error.kind === "unauthorized") {
+    log.warn(
+      "   Check the token (SWITCHER_TOKEN or the profile's token) and that its role allows this command"
+    );
+  }
+}
+
+async function getState(instance: SwitcherInstance): Promise<StateResponse> {
+  /** Fetch the current switcher state */
+  return await apiRequest<StateResponse>(instance, "GET", "/api/state");
+}
+
+async function runState(instance: SwitcherInstance, options: Options): Promise<StateResponse> {
+  /** Print the current switcher state */
+  const state = await getState(instance);
+  if (!options.json) {
+    printState(state, instance);
+  }
+  return state;
+}
+
+async function runSources(instance: SwitcherInstance, options: Options): Promise<unknown> {
+  /** Print the pipeline's sources */
+  const data = await apiRequest<{ sources: Source[] }>(instance, "GET", "/api/sources");
+  if (!options.json) {
+    printSourcesList(data.sources);
+  }
+  return data;
+}
+
+async function runTake(instance: SwitcherInstance, args: string[]): Promise<unknown> {
+  /** Switch to a source, optionally holding it */
+  const id = parseId(args[0], "take");
+  const body: { id: number; holdSeconds?: number } = { id };
+  if (args[1] !== undefined) {
+    body.holdSeconds = Number(args[1]);
+    if (!Number.isFinite(body.holdSeconds)) {
+      throw new Error(`HOLD_SECONDS must be a number, got "${args[1]}"`);
+    }
+  }
+
+  const data = await apiRequest<{ override?: ManualOverride }>(instance, "PUT", "/api/source/active", body);
+  const hold = data.override ? `, holding until ${data.override.expiresAt}` : "";
+  log.info(`✅ Switched to source ${id}${hold}`, {
+    sourceId: id,
+    expiresAt: data.override?.expiresAt ?? null,
+  });
+  return data;
+}
+
+async function runRotation(instance: SwitcherInstance, args: string[]): Promise<unknown> {
+  /** Enable or disable rotation */
+  if (args[0] !== "on" && args[0] !== "off") {
+    usageError("rotation takes on or off");
+  }
+  const rotationEnabled = args[0] === "on";
+  const data = await apiRequest(instance, "PUT", "/api/state", { rotationEnabled });
+  log.info(`✅ Rotation ${rotationEnabled ? "enabled" : "disabled"}`, { rotationEnabled });
+  return data;
+}
+
+async function putSchedule(
+  instance: SwitcherInstance,
+  schedule: RotationScheduleItem[],
+  options: Options
+): Promise<unknown> {
+  /** Replace the rotation schedule and print it */
+  const data = await apiRequest<{ schedule: RotationScheduleItem[] }>(
+    instance,
+    "PUT",
+    "/api/rotation/schedule",
+    { schedule }
+  );
+  log.info(`✅ Rotation schedule updated (${data.schedule.length} item(s))`, {
+    items: data.schedule.length,
+  });
+  if (!options.json) {
+    printSchedule(data.schedule, null);
+  }
+  return data;
+}
+
+async function runSchedule(instance: SwitcherInstance, args: string[], options: Options): Promise<unknown> {
+  /** Show or edit the rotation schedule */
+  const [action, ...rest] = args;
+  if (action === "set") {
+    if (rest.length === 0) {
+      usageError("schedule set needs at least one CAMERA_ID:SECONDS item");
+    }
+    return await putSchedule(instance, rest.map(parseScheduleItem), options);
+  }
+  if (action !== "get" && action !== "add" && action !== "remove" && action !== "move") {
+    usageError("schedule takes get, set, add, remove or move");
+  }
+
+  const state = await getState(instance);
+  const schedule = state.rotationSchedule;
+  if (action === "get") {
+    if (!options.json) {
+      const current = state.activeScheduleName === null ? state.currentScheduleIndex : null;
+      printSchedule(schedule, current);
+      if (state.activeScheduleName !== null) {
+        console.log(`Named schedule "${state.activeScheduleName}" is active instead.\n`);
+      }
+    }
+    return { schedule, activeScheduleName: state.activeScheduleName };
+  }
+
+  if (action === "add") {
+    if (rest.length < 1) {
+      usageError("schedule add needs a CAMERA_ID:SECONDS item");
+    }
+    const item = parseScheduleItem(rest[0]);
+    const position = rest[1] !== undefined
+      ? parsePosition(rest[1], schedule.length, true)
+      : schedule.length + 1;
+    return await putSchedule(instance, addScheduleItem(schedule, item, position), options);
+  }
+  if (action === "remove") {
+    if (rest.length < 1) {
+      usageError("schedule remove needs a position");
+    }
+    const position = parsePosition(rest[0], schedule.length);
+    return await putSchedule(instance, removeScheduleItem(schedule, position), options);
+  }
+  if (rest.length < 2) {
+    usageError("schedule move needs FROM and TO positions");
+  }
+  const from = parsePosition(rest[0], schedule.length);
+  const to = parsePosition(rest[1], schedule.length);
+  return await putSchedule(instance, moveScheduleItem(schedule, from, to), options);
+}
+
+async function runCameras(instance: SwitcherInstance, args: string[]): Promise<unknown> {
+  /** Select the cameras used for rotation */
+  if (args[0] !== "set") {
+    usageError("cameras takes set");
+  }
+  const cameraIds = args.slice(1).map((value) => parseId(value, "Camera"));
+  const data = await apiRequest(instance, "PUT", "/api/rotation/cameras", { cameraIds });
+  const selected = cameraIds.length > 0 ? cameraIds.join(", ") : "all enabled SRT sources";
+  log.info(`✅ Cameras for rotation: ${selected}`, { cameraIds });
+  return data;
+}
+
+async function runFixed(instance: SwitcherInstance, args: string[]): Promise<unknown> {
+  /** Disable rotation and stay on one source */
+  const fixedSourceId = parseId(args[0], "fixed");
+  const data = await apiRequest(instance, "PUT", "/api/state", {
+    rotationEnabled: false,
+    fixedSourceId,
+  });
+  log.info(`✅ Rotation disabled, fixed on source ${fixedSourceId}`, { fixedSourceId });
+  return data;
+}
+
+async function runWatch(instance: SwitcherInstance, options: Options): Promise<never> {
+  /** Print switcher events until interrupted, reconnecting when the stream drops */
+  let lastEventId: number | null = null;
+  let connected = false;
+
+  while (true) {
+    let events: AsyncGenerator<ServerEvent>;
+    try {
+      events = await openEventStream(instance, lastEventId);
+    } catch (error) {
+      // Refused tokens and the first connection fail the command; later outages are waited out
+      if (!connected || !(error instanceof SwitcherApiError) || error.kind === "unauthorized") {
+        throw error;
+      }
+      log.warn(`⚠️  ${error.message}, retrying in ${RECONNECT_DELAY_MS / 1000}s...`);
+      await sleep(RECONNECT_DELAY_MS);
+      continue;
+    }
+
+    if (!connected) {
+      log.info(`👀 Watching ${instance.url} (Ctrl+C to stop)`, { url: instance.url });
+      connected = true;
+    }
+    try {
+      for await (const event of events) {
+        if (event.id !== null) {
+          lastEventId = event.id;
+        }
+        printEvent(event, options);
+      }
+    } catch (_error) {
+      // Connection dropped mid-stream
+    }
+    log.warn(`⚠️  Event stream closed, reconnecting in ${RECONNECT_DELAY_MS / 1000}s...`);
+    await sleep(RECONNECT_DELAY_MS);
+  }
+}
+
+function printState(state: StateResponse, instance: SwitcherInstance): void {
+  /** Print formatted switcher state */
+  const rotation = state.rotationEnabled
+    ? `✅ Enabled (${state.rotationMode}, ${
+      state.activeScheduleName !== null ? `schedule "${state.activeScheduleName}"` : "default schedule"
+    })`
+    : `⏸️  Disabled${state.fixedSourceId !== null ? ` (fixed source ${state.fixedSourceId})` : ""}`;
+  const reachable = state.connectivity.reachable;
+  const pipeline = reachable === null
+    ? "⏳ Not checked yet"
+    : reachable
+    ? "💚 Reachable"
+    : `💔 Unreachable${state.connectivity.lastSeen ? ` (last seen ${state.connectivity.lastSeen})` : ""}`;
+
+  if (getLogFormat() === "json") {
+    log.info("Switcher state", {
+      profile: instance.name,
+      rotationEnabled: state.rotationEnabled,
+      rotationMode: state.rotationMode,
+      fixedSourceId: state.fixedSourceId,
+      currentSourceId: state.currentSourceId,
+      currentScheduleIndex: state.currentScheduleIndex,
+      activeScheduleName: state.activeScheduleName,
+      override: state.override,
+      failover: state.failover,
+      pipelineReachable: reachable,
+      breaker: state.pipeline.state,
+    });
+    return;
+  }
+
+  console.log("\n" + "=".repeat(70));
+  console.log(`Switcher State${instance.name !== null ? ` (${instance.name})` : ""} - ${instance.url}`);
+  console.log("=".repeat(70));
+  console.log(`Rotation: ${rotation}`);
+  console.log(
+    `Live source: ${state.currentSourceId ?? "none"}${state.lastSwitchTime ? ` (since ${state.lastSwitchTime})` : ""}`
+  );
+  if (state.rotationEnabled && state.currentScheduleIndex !== null) {
+    console.log(`Schedule item: ${state.currentScheduleIndex + 1}`);
+  }
+  if (state.override !== null) {
+    const { sourceId, remainingSeconds, expiresAt } = state.override;
+    console.log(`Hold: source ${sourceId} for ${remainingSeconds}s more (until ${expiresAt})`);
+  }
+  if (state.failover !== null) {
+    const { originalSourceId, backupSourceId, since } = state.failover;
+    console.log(`Failover: source ${originalSourceId} replaced by ${backupSourceId} since ${since}`);
+  }
+  console.log(`Pipeline: ${pipeline}`);
+  if (state.pipeline.state !== "closed") {
+    console.log(`   Calls paused (breaker ${state.pipeline.state}), retry at ${state.pipeline.retryAt ?? "N/A"}`);
+  }
+  console.log("=".repeat(70) + "\n");
+}
+
+function printSchedule(schedule: RotationScheduleItem[], currentIndex: number | null): void {
+  /** Print the rotation schedule with 1-based positions */
+  if (getLogFormat() === "json") {
+    log.info("Rotation schedule", { schedule, currentScheduleIndex: currentIndex });
+    return;
+  }
+
+  console.log("\n" + "=".repeat(70));
+  console.log("Rotation Schedule:");
+  console.log("=".repeat(70));
+  if (schedule.length === 0) {
+    console.log("No schedule set.");
+  }
+  schedule.forEach((item, index) => {
+    const marker = index === currentIndex ? "  ◀ live" : "";
+    const weight = item.weight !== undefined ? `, weight ${item.weight}` : "";
+    console.log(`  ${index + 1}. Camera ${item.cameraId} - ${item.durationSeconds}s${weight}${marker}`);
+  });
+  console.log("=".repeat(70) + "\n");
+}
+
+function describeEvent(event: ServerEvent): string {
+  /** One-line description of a switcher event */
+  const data = (typeof event.data === "object" && event.data !== null ? event.data : {}) as Record<
+    string,
+    unknown
+  >;
+  switch (event.event) {
+    case "state": {
+      const rotation = data.rotationEnabled ? "enabled" : "disabled";
+      return `ℹ️  Live source ${data.currentSourceId ?? "none"}, rotation ${rotation}`;
+    }
+    case "stateChanged":
+      return `⚙️  Configuration changed (rotation ${data.rotationEnabled ? "enabled" : "disabled"})`;
+    case "switched":
+      return `🔄 Switched to ${data.sourceName} (${data.sourceId}) - ${data.reason}`;
+    case "switchFailed":
+      return `❌ Switch to ${data.sourceName} (${data.sourceId}) failed: ${data.error}`;
+    case "scheduleAdvanced":
+      return `⏭️  Schedule item ${Number(data.index) + 1}: camera ${data.cameraId} for ${data.durationSeconds}s`;
+    case "sourceAdded":
+    case "sourceRemoved": {
+      const change = event.event === "sourceAdded" ? "added" : "removed";
+      return `📡 Source ${change}: ${data.name ?? "Unnamed"} (${data.id})`;
+    }
+    case "sourceHealthChanged": {
+      const healthy = isSourceHealthy(data as unknown as Source);
+      return `${healthy ? "💚" : "💔"} Source ${data.name ?? "Unnamed"} (${data.id}) is ${
+        healthy ? "healthy" : "unhealthy"
+      }`;
+    }
+    case "pipelineDown":
+      return `🔌 Pipeline calls paused until ${data.retryAt ?? "N/A"}`;
+    case "pipelineUp":
+      return "🔌 Pipeline calls resumed";
+    case "overlayChanged": {
+      const visibility = data.visible === null ? "visibility unmanaged" : data.visible ? "visible" : "hidden";
+      return `🖼️  Overlay ${data.url ?? "URL unmanaged"}, ${visibility}${data.pinned ? " (pinned)" : ""}`;
+    }
+    default:
+      return `📣 ${event.event}: ${JSON.stringify(event.data)}`;
+  }
+}
+
+function printEvent(event: ServerEvent, options: Options): void {
+  /** Print one event: raw with --json, otherwise described with the local time */
+  if (options.json) {
+    console.log(JSON.stringify(event));
+  } else if (getLogFormat() === "json") {
+    log.info(describeEvent(event), { eventId: event.id, event: event.event, data: event.data });
+  } else {
+    console.log(`${new Date().toTimeString().slice(0, 8)}  ${describeEvent(event)}`);
+  }
+}
+
+function errorKind(error: unknown): "error" | "usage" | ApiErrorKind {
+  /** Failure kind used for the exit code and JSON output */
+  if (error instanceof SwitcherApiError) {
+    return error.kind;
+  }
+  return error instanceof UsageError ? "usage" : "error";
+}
+
+function printResult(
+  command: string | null,
+  result: { result: unknown } | { error: unknown },
+  exitCode: number
+): void {
+  /** Print the result of a command as one JSON object (--json) */
+  const output = "result" in result
+    ? { command, ok: true, exitCode, result: result.result }
+    : {
+      command,
+      ok: false,
+      exitCode,
+      error: {
+        kind: errorKind(result.error),
+        message: result.error instanceof Error ? result.error.message : String(result.error),
+        status: result.error instanceof SwitcherApiError ? result.error.status : null,
+      },
+    };
+  console.log(JSON.stringify(output));
+}
+
+async function execute(
+  command: string,
+  action: string,
+  options: Options,
+  run: () => Promise<unknown>
+): Promise<number> {
+  /** Run a command, report the result and return the exit code */
+  try {
+    const result = await run();
+    if (options.json) {
+      printResult(command, { result }, EXIT_CODES.ok);
+    }
+    return EXIT_CODES.ok;
+  } catch (error) {
+    if (error instanceof UsageError) {
+      throw error;
+    }
+    reportError(action, error);
+    const exitCode = EXIT_CODES[errorKind(error)];
+    if (options.json) {
+      printResult(command, { error }, exitCode);
+    }
+    return exitCode;
+  }
+}
+
+function printUsage(): void {
+  /** Print usage information */
+  console.log(`
+Switcher Control - Command line client for the source switcher API
+
+Usage:
+    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts [options] [command] [args]
+
+Commands:
+    state                          Show rotation, the live source and pipeline health
+    sources                        List the pipeline's sources
+    take ID [HOLD_SECONDS]         Switch to a source, optionally holding it (pauses rotation)
+    rotation on|off                Enable or disable rotation
+    schedule get                   Show the rotation schedule
+    schedule set ID:SECONDS...     Replace the rotation schedule
+    schedule add ID:SECONDS [POS]  Insert an item (default: at the end)
+    schedule remove POS            Remove the item at a position
+    schedule move FROM TO          Move an item to another position
+    cameras set [ID...]            Select the cameras used for rotation (none = all)
+    fixed ID                       Disable rotation and stay on a source
+    watch                          Print switcher events as they happen (Ctrl+C to stop)
+
+Options:
+    --profile NAME      Use a profile from the config file (or SWITCHER_PROFILE)
+    --url URL           Switcher API URL (or SWITCHER_URL, default http://localhost:3000)
+    --json              Print the result as one JSON object; watch prints one event per line
+
+The token is read from SWITCHER_TOKEN or the profile. Profiles are read from
+SWITCHERCTL_CONFIG (default ~/.config/switcherctl.json).
+
+Exit codes:
+    0 success, 1 usage or unexpected error, 2 switcher unreachable,
+    3 token refused, 4 request rejected, 5 switcher error
+
+Examples:
+    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts state
+    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts --profile valley take 3 120
+    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts schedule set 1:60 2:120 3:90
+    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts schedule move 3 1
+    deno run --allow-net --allow-env --allow-read --env-file switcherctl.ts --json watch
+`);
+}
+
+function usageError(message: string): never {
+  /** Stop with a usage error (reported by run) */
+  throw new UsageError(message);
+}
+
+function parseArgs(argv: string[]): { args: string[]; options: Options } {
+  /** Split command line arguments into positional arguments and options */
+  const args: string[] = [];
+  const options: Options = { json: false, help: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === "--help" || arg === "-h") {
+      options.help = true;
+    } else if (arg === "--json") {
+      options.json = true;
+    } else if (arg.startsWith("--profile") || arg.startsWith("--url")) {
+      const [flag, inline] = arg.split(/=(.*)/s, 2);
+      const value = inline ?? argv[++i];
+      if (flag !== "--profile" && flag !== "--url") {
+        usageError(`Unknown option '${arg}'`);
+      }
+      if (!value) {
+        usageError(`${flag} needs a value`);
+      }
+      options[flag === "--profile" ? "profile" : "url"] = value;
+    } else if (arg.startsWith("--")) {
+      usageError(`Unknown option '${arg}'`);
+    } else {
+      args.push(arg);
+    }
+  }
+  return { args, options };
+}
+
+function commandLabel(args: string[]): string | null {
+  /** Command name used in results, with the subcommand for schedule, cameras and rotation */
+  const [command, subcommand] = args;
+  if (command === undefined) {
+    return null;
+  }
+  return command === "schedule" || command === "cameras" || command === "rotation"
+    ? `${command} ${subcommand ?? ""}`.trim()
+    : command;
+}
+
+async function runCommand(argv: string[], getEnv: (name: string) => string | undefined): Promise<number> {
+  /** Pick the switcher, run the command and return the exit code */
+  const { args, options } = parseArgs(argv);
+  if (options.help) {
+    printUsage();
+    return EXIT_CODES.ok;
+  }
+
+  if (args.length < 1) {
+    usageError("Command required");
+  }
+  const [command, ...rest] = args;
+  if (!COMMANDS.includes(command)) {
+    usageError(`Unknown command '${command}'`);
+  }
+  const commandName = commandLabel(args)!;
+
+  // Pick the switcher: --url/--profile, environment, then the config file
+  let instance: SwitcherInstance;
+  try {
+    const config = await loadCtlConfig(getEnv("SWITCHERCTL_CONFIG") ?? defaultConfigPath(getEnv));
+    instance = resolveInstance(config, {
+      profile: options.profile ?? getEnv("SWITCHER_PROFILE"),
+      url: options.url,
+      envUrl: getEnv("SWITCHER_URL"),
+      envToken: getEnv("SWITCHER_TOKEN"),
+    }, getEnv);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`❌ Error: ${message}`);
+    if (options.json) {
+      printResult(commandName, { error }, EXIT_CODES.error);
+    }
+    return EXIT_CODES.error;
+  }
+
+  // Execute command
+  let exitCode: number;
+  switch (command) {
+    case "state":
+      exitCode = await execute(commandName, "get state", options, () => runState(instance, options));
+      break;
+    case "sources":
+      exitCode = await execute(commandName, "list sources", options, () => runSources(instance, options));
+      break;
+    case "take":
+      exitCode = await execute(commandName, "switch source", options, () => runTake(instance, rest));
+      break;
+    case "rotation":
+      exitCode = await execute(commandName, "change rotation", options, () => runRotation(instance, rest));
+      break;
+    case "schedule":
+      exitCode = await execute(
+        commandName,
+        rest[0] === "get" ? "get the schedule" : "update the schedule",
+        options,
+        () => runSchedule(instance, rest, options)
+      );
+      break;
+    case "cameras":
+      exitCode = await execute(commandName, "select cameras", options, () => runCameras(instance, rest));
+      break;
+    case "fixed":
+      exitCode = await execute(commandName, "set fixed source", options, () => runFixed(instance, rest));
+      break;
+    case "watch":
+      exitCode = await execute(commandName, "watch events", options, () => runWatch(instance, options));
+      break;
+    default:
+      usageError(`Unknown command '${command}'`);
+  }
+  return exitCode;
+}
+
+export async function run(
+  argv: string[],
+  loggingConfig: LoggingConfig,
+  getEnv: (name: string) => string | undefined = (name) => Deno.env.get(name)
+): Promise<number> {
+  /** Run a command line and return the exit code; with --json, usage errors are printed as JSON too */
+  const json = argv.includes("--json");
+  if (json && (loggingConfig.logLevel === "debug" || loggingConfig.logLevel === "info")) {
+    // Keep stdout for the JSON result; warnings and errors still go to stderr
+    configureLogging({ ...loggingConfig, logLevel: "warn" });
+  } else {
+    configureLogging(loggingConfig);
+  }
+
+  try {
+    return await runCommand(argv, getEnv);
+  } catch (error) {
+    if (!(error instanceof UsageError)) {
+      throw error;
+    }
+    log.error(`❌ Error: ${error.message}`);
+    if (json) {
+      let command: string | null = null;
+      try {
+        command = commandLabel(parseArgs(argv).args);
+      } catch {
+        // The options themselves are wrong, so there is no command to report
+      }
+      printResult(command, { error }, EXIT_CODES.usage);
+    } else {
+      printUsage();
+    }
+    return EXIT_CODES.usage;
+  }
+}
+
+async function main(): Promise<void> {
+  /** Main function */
+  let loggingConfig;
+  try {
+    loggingConfig = loadLoggingConfig();
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(`❌ Error: ${message}`);
+    Deno.exit(EXIT_CODES.error);
+  }
+  Deno.exit(await run(Deno.args, loggingConfig));
+}
+
+if (import.meta.main) {
+  main();
+}
@@ -0,0 +1,83 @@
+/**
+ * Tests for API tokens and roles
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { commandRole, hasRole, identifyToken, initAuth, stateUpdateRole } from "../src/switcher/auth.ts";
+import { loadApiTokens } from "../src/switcher/config.ts";
+import { testConfig } from "./helpers.ts";
+
+async function writeTokensFile(data: unknown): Promise<string> {
+	const path = await Deno.makeTempFile({ suffix: ".json" });
+	await Deno.writeTextFile(path, JSON.stringify(data));
+	return path;
+}
+
+Deno.test("Auth: roles include the roles below them", () => {
+	assertEquals(hasRole("admin", "read"), true);
+	assertEquals(hasRole("admin", "operator"), true);
+	assertEquals(hasRole("operator", "read"), true);
+	assertEquals(hasRole("operator", "admin"), false);
+	assertEquals(hasRole("read", "operator"), false);
+});
+
+Deno.test("Auth: commands map to roles", () => {
+	assertEquals(commandRole("getState"), "read");
+	assertEquals(commandRole("getSources"), "read");
+	assertEquals(commandRole("switchSource"), "operator");
+	assertEquals(commandRole("cancelOverride"), "operator");
+	assertEquals(commandRole("setSchedule"), "admin");
+	assertEquals(commandRole("setCameras"), "admin");
+	assertEquals(commandRole("selfDestruct"), null);
+});
+
+Deno.test("Auth: operators may only toggle rotation and set the fixed source", () => {
+	assertEquals(stateUpdateRole({ rotationEnabled: false }), "operator");
+	assertEquals(stateUpdateRole({ rotationEnabled: false, fixedSourceId: 2 }), "operator");
+	assertEquals(stateUpdateRole({ rotationEnabled: true, rotationSchedule: [] }), "admin");
+	assertEquals(stateUpdateRole({ selectedCameraIds: [1] }), "admin");
+	assertEquals(commandRole("setState", { rotationMode: "shuffle" }), "admin");
+});
+
+Deno.test("Auth: tokens file is loaded and identifies tokens", async () => {
+	const path = await writeTokensFile({
+		tokens: [
+			{ label: "overlay-page", token: "read-token-0123456789", role: "read" },
+			{ label: "operator-panel", token: "operator-token-0123456789", role: "operator" },
+		],
+	});
+	try {
+		const tokens = loadApiTokens(path);
+		initAuth(testConfig({ apiTokens: tokens }));
+
+		assertEquals(identifyToken("read-token-0123456789"), { label: "overlay-page", role: "read" });
+		assertEquals(identifyToken("operator-token-0123456789"), { label: "operator-panel", role: "operator" });
+		assertEquals(identifyToken("unknown-token-0123456789"), null);
+	} finally {
+		await Deno.remove(path);
+	}
+});
+
+Deno.test("Auth: invalid tokens files are rejected", async () => {
+	const cases: Array<[unknown, string]> = [
+		[{}, '"tokens" array'],
+		[{ tokens: [{ label: "", token: "long-enough-token-123", role: "read" }] }, "label"],
+		[{ tokens: [{ label: "short", token: "abc", role: "read" }] }, "at least 16"],
+		[{ tokens: [{ label: "x", token: "long-enough-token-123", role: "root" }] }, "role must be one of"],
+		[{
+			tokens: [
+				{ label: "a", token: "long-enough-token-123", role: "read" },
+				{ label: "b", token: "long-enough-token-123", role: "admin" },
+			],
+		}, "duplicate"],
+	];
+	for (const [data, message] of cases) {
+		const path = await writeTokensFile(data);
+		try {
+			assertThrows(() => loadApiTokens(path), Error, message);
+		} finally {
+			await Deno.remove(path);
+		}
+	}
+	assertThrows(() => loadApiTokens("/nonexistent/tokens.json"), Error, "Cannot read API_TOKENS_FILE");
+});
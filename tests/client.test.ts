@@ -0,0 +1,154 @@
+/**
+ * Tests for the pipeline HTTP client: retries and circuit breaker
+ */
+
+import { assertEquals, assert, assertRejects } from "@std/assert";
+import {
+	CircuitBreaker,
+	CircuitOpenError,
+	backoffDelay,
+	breakerEvents,
+	getBreakerStatus,
+	initPipelineClient,
+	pipelineFetch,
+} from "../src/switcher/client.ts";
+import type { Config } from "../src/switcher/config.ts";
+import { testConfig } from "./helpers.ts";
+
+const REQUEST = { operation: "getSources", idempotent: true };
+
+function clientConfig(overrides: Partial<Config> = {}): Config {
+	return testConfig({
+		pipelineTimeoutMs: 1000,
+		pipelineRetries: 2,
+		pipelineRetryBaseMs: 1,
+		pipelineRetryMaxMs: 2,
+		breakerThreshold: 2,
+		breakerResetMs: 60000,
+		...overrides,
+	});
+}
+
+/**
+ * Replace fetch with responses (or errors) served in order
+ */
+async function withFetch(
+	replies: Array<number | Error>,
+	fn: (calls: () => number) => Promise<void>
+): Promise<void> {
+	const original = globalThis.fetch;
+	let calls = 0;
+	globalThis.fetch = () => {
+		const reply = replies[Math.min(calls++, replies.length - 1)];
+		return reply instanceof Error ? Promise.reject(reply) : Promise.resolve(new Response("{}", { status: reply }));
+	};
+	try {
+		await fn(() => calls);
+	} finally {
+		globalThis.fetch = original;
+	}
+}
+
+Deno.test("Client: breaker opens after the threshold and lets one trial through", () => {
+	const breaker = new CircuitBreaker(3, 1000);
+	assertEquals(breaker.recordFailure("boom", 0), false);
+	assertEquals(breaker.recordFailure("boom", 0), false);
+	assertEquals(breaker.recordFailure("boom", 0), true, "Third failure opens");
+	assertEquals(breaker.state(500), "open");
+	assertEquals(breaker.allowRequest(500), false);
+
+	assertEquals(breaker.state(1000), "half-open");
+	assertEquals(breaker.allowRequest(1000), true, "Trial call allowed");
+	assertEquals(breaker.allowRequest(1000), false, "Only one trial at a time");
+
+	assertEquals(breaker.recordFailure("still down", 1200), false, "Failed trial re-opens without a new transition");
+	assertEquals(breaker.status(1200).retryAt, new Date(2200).toISOString());
+	assertEquals(breaker.allowRequest(2200), true);
+	assertEquals(breaker.recordSuccess(), true, "Successful trial closes");
+	assertEquals(breaker.status(2200), {
+		state: "closed",
+		consecutiveFailures: 0,
+		openedAt: null,
+		retryAt: null,
+		lastError: null,
+	});
+});
+
+Deno.test("Client: a threshold of 0 never opens the breaker", () => {
+	const breaker = new CircuitBreaker(0, 1000);
+	for (let i = 0; i < 100; i++) {
+		breaker.recordFailure("boom", 0);
+	}
+	assertEquals(breaker.state(0), "closed");
+});
+
+Deno.test("Client: backoff doubles per attempt, is capped and jittered", () => {
+	assertEquals(backoffDelay(0, 100, 1000, () => 0), 50);
+	assertEquals(backoffDelay(0, 100, 1000, () => 1), 100);
+	assertEquals(backoffDelay(2, 100, 1000, () => 1), 400);
+	assertEquals(backoffDelay(10, 100, 1000, () => 1), 1000);
+	assertEquals(backoffDelay(10, 100, 1000, () => 0), 500);
+});
+
+Deno.test("Client: idempotent requests are retried after errors and 5xx", async () => {
+	initPipelineClient(clientConfig({ breakerThreshold: 0 }));
+	await withFetch([new TypeError("connection refused"), 503, 200], async (calls) => {
+		const response = await pipelineFetch("http://pipeline/sources", {}, REQUEST);
+		assertEquals(response.status, 200);
+		assertEquals(calls(), 3);
+	});
+
+	await withFetch([new TypeError("connection refused"), 200], async (calls) => {
+		await assertRejects(() => pipelineFetch("http://pipeline/x", {}, { operation: "x", idempotent: false }));
+		assertEquals(calls(), 1, "Non-idempotent requests are sent once");
+	});
+
+	await withFetch([404], async (calls) => {
+		assertEquals((await pipelineFetch("http://pipeline/sources", {}, REQUEST)).status, 404);
+		assertEquals(calls(), 1, "4xx responses are not retried");
+	});
+});
+
+Deno.test("Client: permanent statuses are returned at once and do not open the breaker", async () => {
+	initPipelineClient(clientConfig({ breakerThreshold: 1 }));
+	try {
+		await withFetch([500], async (calls) => {
+			const request = { ...REQUEST, permanentStatuses: [500] };
+			assertEquals((await pipelineFetch("http://pipeline/overlay/html", {}, request)).status, 500);
+			assertEquals((await pipelineFetch("http://pipeline/overlay/html", {}, request)).status, 500);
+			assertEquals(calls(), 2, "Permanent statuses are not retried");
+			assertEquals(getBreakerStatus().state, "closed");
+			assertEquals(getBreakerStatus().consecutiveFailures, 0);
+		});
+	} finally {
+		initPipelineClient(clientConfig({ breakerThreshold: 0 }));
+	}
+});
+
+Deno.test("Client: open breaker refuses calls without fetching", async () => {
+	initPipelineClient(clientConfig());
+	const opened: string[] = [];
+	const listener = (status: { lastError: string | null }) => opened.push(status.lastError ?? "");
+	breakerEvents.on("opened", listener);
+	try {
+		await withFetch([500], async (calls) => {
+			// Each call exhausts its retries and counts as one failure
+			assertEquals((await pipelineFetch("http://pipeline/sources", {}, REQUEST)).status, 500);
+			assertEquals(getBreakerStatus().state, "closed");
+			assertEquals((await pipelineFetch("http://pipeline/sources", {}, REQUEST)).status, 500);
+			assertEquals(calls(), 6);
+
+			const status = getBreakerStatus();
+			assertEquals(status.state, "open");
+			assertEquals(status.consecutiveFailures, 2);
+			assert(status.retryAt !== null);
+			assertEquals(opened.length, 1);
+
+			await assertRejects(() => pipelineFetch("http://pipeline/sources", {}, REQUEST), CircuitOpenError);
+			assertEquals(calls(), 6, "No request while open");
+		});
+	} finally {
+		breakerEvents.off("opened", listener);
+		initPipelineClient(clientConfig({ breakerThreshold: 0 }));
+	}
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for configuration loading
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import { loadConfig } from "../src/switcher/config.ts";
+
+const BASE_ENV = { BASE_URL: "http://pipeline.test", API_TOKEN: "test-token-0123456789" };
+
+function load(env: Record<string, string> = {}) {
+	const values: Record<string, string> = { ...BASE_ENV, ...env };
+	return loadConfig(undefined, (name) => values[name]);
+}
+
+Deno.test("Config: security limits default when unset", () => {
+	const config = load();
+	assertEquals(
+		[config.rateLimitRequests, config.rateLimitWindow, config.authMaxFailures, config.authLockoutSeconds, config.maxBodyBytes],
+		[120, 60, 5, 300, 65536]
+	);
+});
+
+Deno.test("Config: 0 disables the rate limit and the auth lockout", () => {
+	const config = load({ RATE_LIMIT_REQUESTS: "0", AUTH_MAX_FAILURES: " 0 " });
+	assertEquals([config.rateLimitRequests, config.authMaxFailures], [0, 0]);
+});
+
+Deno.test("Config: malformed security limits stop startup", () => {
+	const rejected: Record<string, string[]> = {
+		RATE_LIMIT_REQUESTS: ["-1", "abc", "1.5", "120req"],
+		AUTH_MAX_FAILURES: ["-1", "five"],
+		RATE_LIMIT_WINDOW: ["0", "-60", "1m"],
+		AUTH_LOCKOUT_SECONDS: ["0", "300s"],
+		MAX_BODY_BYTES: ["0", "64k", "1e999"],
+	};
+	for (const [name, values] of Object.entries(rejected)) {
+		for (const value of values) {
+			assertThrows(() => load({ [name]: value }), Error, name);
+		}
+	}
+});
+
+Deno.test("Config: malformed pipeline client settings stop startup", () => {
+	const config = load({ PIPELINE_RETRIES: "0", PIPELINE_BREAKER_FAILURES: "0" });
+	assertEquals([config.pipelineRetries, config.breakerThreshold], [0, 0], "0 disables retries and the breaker");
+
+	const rejected: Record<string, string[]> = {
+		PIPELINE_TIMEOUT_MS: ["0", "5s", "-1"],
+		PIPELINE_RETRIES: ["-1", "two"],
+		PIPELINE_RETRY_BASE_MS: ["0", "250.5"],
+		PIPELINE_RETRY_MAX_MS: ["0", "2000ms"],
+		PIPELINE_BREAKER_FAILURES: ["-5", "off"],
+		PIPELINE_BREAKER_RESET_MS: ["0", "30s"],
+	};
+	for (const [name, values] of Object.entries(rejected)) {
+		for (const value of values) {
+			assertThrows(() => load({ [name]: value }), Error, name);
+		}
+	}
+});
+
+Deno.test("Config: a malformed SHUTDOWN_TIMEOUT stops startup", () => {
+	assertEquals(load().shutdownTimeout, 8);
+	for (const value of ["0", "-8", "8s", "2.5"]) {
+		assertThrows(() => load({ SHUTDOWN_TIMEOUT: value }), Error, "SHUTDOWN_TIMEOUT");
+	}
+});
+
+Deno.test("Config: malformed history rotation settings stop startup", () => {
+	const config = load();
+	assertEquals([config.historyMaxBytes, config.historyMaxFiles], [5242880, 5]);
+	const rejected: Record<string, string[]> = {
+		HISTORY_MAX_BYTES: ["0", "5MB", "-1"],
+		HISTORY_MAX_FILES: ["0", "five", "1.5"],
+	};
+	for (const [name, values] of Object.entries(rejected)) {
+		for (const value of values) {
+			assertThrows(() => load({ [name]: value }), Error, name);
+		}
+	}
+});
@@ -0,0 +1,215 @@
+/**
+ * Tests for failover backup selection and the failover/failback state machine
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+	evaluateFailover,
+	initFailover,
+	isSourceUsable,
+	selectBackupSource,
+	stopFailover,
+} from "../src/switcher/failover.ts";
+import type { FailoverPolicy } from "../src/switcher/failover.ts";
+import { getCurrentSources, setCurrentSources } from "../src/switcher/sources.ts";
+import { switchSource } from "../src/switcher/commands.ts";
+import { setStateStore, state } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
+import type { Source } from "../src/switcher/types.ts";
+import { testConfig } from "./helpers.ts";
+
+const mockSources: Source[] = [
+	{ id: 1, name: "Source 1", source_type: "srt", enabled: true, is_healthy: false },
+	{ id: 2, name: "Source 2", source_type: "srt", enabled: true, is_healthy: false },
+	{ id: 3, name: "Source 3", source_type: "srt", enabled: true, is_healthy: true },
+	{ id: 4, name: "Source 4", source_type: "srt", enabled: false, is_healthy: true },
+	{ id: 9, name: "Slate", source_type: "file", enabled: true, is_healthy: true, file_path: "/media/slate.mp4" },
+];
+
+const policy: FailoverPolicy = {
+	chains: new Map([
+		[1, [2, 3]],
+		[3, [4]],
+	]),
+	fallbackSourceId: 9,
+	holdDownSeconds: 30,
+};
+
+Deno.test("Failover: usable sources must be enabled and not unhealthy", () => {
+	assertEquals(isSourceUsable(mockSources[0]), false, "Unhealthy source is not usable");
+	assertEquals(isSourceUsable(mockSources[2]), true, "Healthy enabled source is usable");
+	assertEquals(isSourceUsable(mockSources[3]), false, "Disabled source is not usable");
+	assertEquals(isSourceUsable(undefined), false, "Missing source is not usable");
+	assertEquals(
+		isSourceUsable({ id: 5, source_type: "srt", enabled: true }),
+		true,
+		"Unknown health is treated as usable"
+	);
+});
+
+Deno.test("Failover: chain is walked in order skipping unusable backups", () => {
+	const backup = selectBackupSource(1, mockSources, policy);
+	assertEquals(backup?.id, 3, "Source 2 is unhealthy so source 3 should be chosen");
+});
+
+Deno.test("Failover: global fallback is used when chain is exhausted", () => {
+	const backup = selectBackupSource(3, mockSources, policy);
+	assertEquals(backup?.id, 9, "Source 4 is disabled so the fallback should be chosen");
+	assertEquals(backup?.source_type, "file", "Fallback may be a non-SRT source");
+});
+
+Deno.test("Failover: excluded sources are skipped", () => {
+	const backup = selectBackupSource(1, mockSources, policy, [3]);
+	assertEquals(backup?.id, 9, "Excluding source 3 should fall through to the fallback");
+});
+
+Deno.test("Failover: returns null when nothing is usable", () => {
+	const backup = selectBackupSource(2, mockSources, { ...policy, fallbackSourceId: null });
+	assertEquals(backup, null, "No chain and no fallback should yield null");
+});
+
+const BASE_URL = "http://pipeline";
+
+/**
+ * Replace fetch with a pipeline that records switches; returns a restore function
+ */
+function fakePipeline(switches: number[]): () => void {
+	const original = globalThis.fetch;
+	globalThis.fetch = ((_input: RequestInfo | URL, init?: RequestInit) => {
+		if (init?.method === "PUT") {
+			switches.push(JSON.parse(String(init.body)).id);
+			return Promise.resolve(Response.json({ success: true }));
+		}
+		return Promise.resolve(Response.json({ sources: getCurrentSources() }));
+	}) as typeof fetch;
+	return () => globalThis.fetch = original;
+}
+
+/**
+ * Set the health of sources 1-3 (all enabled) as the latest source list
+ */
+function setHealth(healthy: Record<number, boolean>): void {
+	setCurrentSources([1, 2, 3].map((id) => ({
+		id,
+		name: `Cam ${id}`,
+		source_type: "srt",
+		enabled: true,
+		is_healthy: healthy[id],
+	})));
+}
+
+function resetFailover(): void {
+	setStateStore(new MemoryStateStore());
+	state.currentSourceId = 1;
+	state.failover = null;
+	initFailover(testConfig({
+		failoverChains: new Map([[1, [2, 3]]]),
+		failoverFallbackId: null,
+		failoverHoldDown: 0.05,
+	}));
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test("Failover: an unhealthy primary fails over and fails back after the hold-down", async () => {
+	resetFailover();
+	const switches: number[] = [];
+	const restore = fakePipeline(switches);
+	try {
+		setHealth({ 1: false, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		assertEquals(switches, [2]);
+		assertEquals([state.failover?.originalSourceId, state.failover?.backupSourceId], [1, 2]);
+		assertEquals(state.failover?.recoveredAt, null);
+
+		setHealth({ 1: true, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		const recoveredAt = state.failover?.recoveredAt;
+		assertEquals(typeof recoveredAt, "string", "Hold-down starts when the primary recovers");
+		await evaluateFailover(BASE_URL, 1);
+		assertEquals(state.failover?.recoveredAt, recoveredAt, "Later refreshes do not restart the hold-down");
+		assertEquals(switches, [2], "No failback before the hold-down ends");
+
+		await delay(80);
+		assertEquals(switches, [2, 1]);
+		assertEquals(state.failover, null);
+		assertEquals(state.currentSourceId, 1);
+	} finally {
+		stopFailover();
+		restore();
+	}
+});
+
+Deno.test("Failover: a primary that flaps during the hold-down stays off air", async () => {
+	resetFailover();
+	const switches: number[] = [];
+	const restore = fakePipeline(switches);
+	try {
+		setHealth({ 1: false, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		setHealth({ 1: true, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+
+		setHealth({ 1: false, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		assertEquals(state.failover?.recoveredAt, null, "Going down again cancels the hold-down");
+		await delay(80);
+		assertEquals(switches, [2], "The cancelled failback must not fire");
+		assertEquals(state.failover?.backupSourceId, 2);
+
+		setHealth({ 1: true, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		await delay(20);
+		assertEquals(switches, [2], "The hold-down starts over");
+		await delay(60);
+		assertEquals(switches, [2, 1]);
+		assertEquals(state.failover, null);
+	} finally {
+		stopFailover();
+		restore();
+	}
+});
+
+Deno.test("Failover: a failing backup is replaced by the next one in the chain", async () => {
+	resetFailover();
+	const switches: number[] = [];
+	const restore = fakePipeline(switches);
+	try {
+		setHealth({ 1: false, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		setHealth({ 1: false, 2: false, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		assertEquals(switches, [2, 3]);
+		assertEquals([state.failover?.originalSourceId, state.failover?.backupSourceId], [1, 3]);
+	} finally {
+		stopFailover();
+		restore();
+	}
+});
+
+Deno.test("Failover: a take during failover cancels the failback", async () => {
+	resetFailover();
+	state.override = null;
+	const switches: number[] = [];
+	const restore = fakePipeline(switches);
+	try {
+		setHealth({ 1: false, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		setHealth({ 1: true, 2: true, 3: true });
+		await evaluateFailover(BASE_URL, 1);
+		assertEquals(typeof state.failover?.recoveredAt, "string", "Hold-down running");
+
+		const result = await switchSource(BASE_URL, 3, 3600, "test");
+		assertEquals(result.status, 200);
+		assertEquals(state.failover, null, "The take replaces the failover");
+		await delay(80);
+		assertEquals(switches, [2, 3], "No failback cuts the take short");
+		assertEquals(state.currentSourceId, 3);
+	} finally {
+		stopFailover();
+		restore();
+		state.override = null;
+	}
+});
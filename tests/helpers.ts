@@ -0,0 +1,45 @@
+/**
+ * Shared test helpers
+ */
+
+import type { Config } from "../src/switcher/config.ts";
+
+/**
+ * Build a complete configuration for tests
+ * Defaults point at a fake pipeline with no tokens, and rate limits and lockout disabled.
+ */
+export function testConfig(overrides: Partial<Config> = {}): Config {
+	return {
+		baseUrl: "http://pipeline",
+		apiPort: 0,
+		apiTokens: [],
+		cameraApiHost: "http://camera-api",
+		cameraApiToken: undefined,
+		sourceDirectionMap: new Map(),
+		sourceRefreshInterval: 15,
+		healthCheckInterval: 10,
+		shutdownTimeout: 8,
+		logLevel: "info",
+		logFormat: "text",
+		failoverChains: new Map(),
+		failoverFallbackId: null,
+		failoverHoldDown: 30,
+		stateStore: "memory",
+		dataDir: "./data",
+		historyMaxBytes: 5242880,
+		historyMaxFiles: 5,
+		rateLimitRequests: 0,
+		rateLimitWindow: 60,
+		authMaxFailures: 0,
+		authLockoutSeconds: 300,
+		maxBodyBytes: 65536,
+		corsOrigins: [],
+		pipelineTimeoutMs: 5000,
+		pipelineRetries: 2,
+		pipelineRetryBaseMs: 250,
+		pipelineRetryMaxMs: 2000,
+		breakerThreshold: 0,
+		breakerResetMs: 30000,
+		...overrides,
+	};
+}
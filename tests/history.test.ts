@@ -0,0 +1,90 @@
+/**
+ * Tests for the switch history and audit log
+ */
+
+import { assertEquals, assert } from "@std/assert";
+import {
+	historyToCsv,
+	initHistory,
+	parseHistoryQuery,
+	queryHistory,
+	recordHistory,
+} from "../src/switcher/history.ts";
+import type { Config } from "../src/switcher/config.ts";
+import { testConfig } from "./helpers.ts";
+
+function historyConfig(dataDir: string, historyMaxBytes = 1024 * 1024, historyMaxFiles = 3): Config {
+	return testConfig({ dataDir, historyMaxBytes, historyMaxFiles });
+}
+
+Deno.test("History: entries are recorded and filtered by source, reason and time", async () => {
+	const dir = await Deno.makeTempDir();
+	try {
+		initHistory(historyConfig(dir));
+		await recordHistory({ timestamp: "2025-01-01T10:00:00.000Z", type: "switch", initiator: "system", sourceId: 1, reason: "rotation", success: true });
+		await recordHistory({ timestamp: "2025-01-01T11:00:00.000Z", type: "switch", initiator: "api", sourceId: 2, reason: "manual", success: true });
+		await recordHistory({ timestamp: "2025-01-01T12:00:00.000Z", type: "config", initiator: "api", action: "setCameras", changes: { cameraIds: [1] } });
+		await recordHistory({ timestamp: "2025-01-01T13:00:00.000Z", type: "switch", initiator: "system", sourceId: 1, reason: "failover", success: false });
+
+		assertEquals((await queryHistory()).length, 4);
+		assertEquals((await queryHistory({ sourceId: 1 })).map((e) => e.reason), ["rotation", "failover"]);
+		assertEquals((await queryHistory({ reason: "manual" })).map((e) => e.sourceId), [2]);
+		assertEquals((await queryHistory({ type: "config" }))[0].action, "setCameras");
+
+		const window = await queryHistory({
+			from: new Date("2025-01-01T10:30:00Z"),
+			to: new Date("2025-01-01T12:30:00Z"),
+		});
+		assertEquals(window.map((e) => e.timestamp), ["2025-01-01T11:00:00.000Z", "2025-01-01T12:00:00.000Z"]);
+
+		const latest = await queryHistory({ limit: 1 });
+		assertEquals(latest[0].timestamp, "2025-01-01T13:00:00.000Z", "Limit should keep the most recent entries");
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("History: log is rotated and old files are dropped", async () => {
+	const dir = await Deno.makeTempDir();
+	try {
+		initHistory(historyConfig(dir, 300, 3));
+		for (let i = 0; i < 20; i++) {
+			await recordHistory({ type: "switch", initiator: "system", sourceId: i, reason: "rotation", success: true });
+		}
+
+		const files = [];
+		for await (const entry of Deno.readDir(dir)) {
+			files.push(entry.name);
+		}
+		assertEquals(files.sort(), ["history.jsonl", "history.jsonl.1", "history.jsonl.2"]);
+
+		const entries = await queryHistory();
+		assert(entries.length < 20, "Oldest entries should have been dropped");
+		assertEquals(entries[entries.length - 1].sourceId, 19, "Newest entry should be kept");
+		const ids = entries.map((e) => e.sourceId!);
+		assertEquals(ids, [...ids].sort((a, b) => a - b), "Entries should read back oldest first");
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("History: query parameters are validated", () => {
+	const query = parseHistoryQuery(new URLSearchParams("from=2025-01-01T00:00:00Z&sourceId=3&reason=failover&limit=10"));
+	assert(!Array.isArray(query));
+	assertEquals(query.sourceId, 3);
+	assertEquals(query.reason, "failover");
+	assertEquals(query.limit, 10);
+
+	const issues = parseHistoryQuery(new URLSearchParams("from=yesterday&sourceId=-1&reason=magic&limit=0"));
+	assert(Array.isArray(issues));
+	assertEquals(issues.map((i) => i.path), ["from", "sourceId", "reason", "limit"]);
+});
+
+Deno.test("History: CSV export quotes fields", () => {
+	const csv = historyToCsv([
+		{ timestamp: "2025-01-01T10:00:00.000Z", type: "switch", initiator: "api", sourceId: 1, sourceName: "Dock, north", reason: "manual", success: true, pipelineStatus: 200, pipelineResponse: 'said "ok"' },
+	]);
+	const [header, row] = csv.trim().split("\r\n");
+	assert(header.startsWith("timestamp,type,initiator,reason,sourceId,sourceName,success"));
+	assertEquals(row, '2025-01-01T10:00:00.000Z,switch,api,manual,1,"Dock, north",true,200,"said ""ok""",,,');
+});
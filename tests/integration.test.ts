@@ -4,9 +4,13 @@
  */
 
 import { assertEquals, assert } from "@std/assert";
-import { state, stateEvents, saveState } from "../src/switcher/state.ts";
+import { state, stateEvents, saveState, setStateStore } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
 import type { Source } from "../src/switcher/types.ts";
 
+// Keep test state off disk
+setStateStore(new MemoryStateStore());
+
 // Track all events and source switches
 let eventLog: string[] = [];
 let sourceSwitchLog: Array<{ sourceId: number; timestamp: string }> = [];
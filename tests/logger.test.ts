@@ -0,0 +1,111 @@
+/**
+ * Tests for the leveled logger
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+	configureLogging,
+	createLogger,
+	formatLogRecord,
+	parseLogFormat,
+	parseLogLevel,
+} from "../src/logger.ts";
+import type { LogRecord } from "../src/logger.ts";
+import { printSourcesList } from "../src/switcher/sourcelist.ts";
+
+/**
+ * Capture console output while running fn
+ */
+function captureConsole(fn: () => void): { stdout: string[]; stderr: string[] } {
+	const stdout: string[] = [];
+	const stderr: string[] = [];
+	const { log, error } = console;
+	console.log = (line: string) => stdout.push(line);
+	console.error = (line: string) => stderr.push(line);
+	try {
+		fn();
+	} finally {
+		console.log = log;
+		console.error = error;
+	}
+	return { stdout, stderr };
+}
+
+const record: LogRecord = {
+	timestamp: "2024-01-01T00:00:00.000Z",
+	level: "info",
+	component: "rotation",
+	message: "🔄 Switching to source 2 (30s)",
+	fields: { sourceId: 2, scheduleIndex: 1, durationMs: 30000 },
+};
+
+Deno.test("Logger: text format prints the message as-is", () => {
+	assertEquals(formatLogRecord(record, "text"), "🔄 Switching to source 2 (30s)");
+});
+
+Deno.test("Logger: JSON format has level, timestamp, component and fields", () => {
+	const line = formatLogRecord(
+		{ ...record, message: "\n\n⚠️  Error writing history\n", fields: { error: new Error("disk full") } },
+		"json"
+	);
+	assertEquals(JSON.parse(line), {
+		timestamp: "2024-01-01T00:00:00.000Z",
+		level: "info",
+		component: "rotation",
+		message: "Error writing history",
+		error: "Error: disk full",
+	});
+	assertEquals(JSON.parse(formatLogRecord(record, "json")).sourceId, 2);
+	assertEquals(
+		JSON.parse(formatLogRecord({ ...record, message: "💚 Source 2 is healthy\n   ⏯️  resuming rotation" }, "json"))
+			.message,
+		"Source 2 is healthy resuming rotation",
+		"Emoji and line breaks are dropped anywhere in the message"
+	);
+});
+
+Deno.test("Logger: records below the minimum level are dropped", () => {
+	const log = createLogger("test");
+	try {
+		configureLogging({ logLevel: "warn", logFormat: "json" });
+		const output = captureConsole(() => {
+			log.debug("debug");
+			log.info("info");
+			log.warn("warn", { status: 503 });
+			log.error("error");
+		});
+		assertEquals(output.stdout, []);
+		assertEquals(output.stderr.map((line) => JSON.parse(line).level), ["warn", "error"]);
+		assertEquals(JSON.parse(output.stderr[0]).status, 503);
+
+		configureLogging({ logLevel: "debug", logFormat: "text" });
+		const verbose = captureConsole(() => log.debug("debug"));
+		assertEquals(verbose.stdout, ["debug"]);
+	} finally {
+		configureLogging({ logLevel: "info", logFormat: "text" });
+	}
+});
+
+Deno.test("Logger: the sources table follows LOG_LEVEL", () => {
+	const sources = [{ id: 1, name: "Cam 1", source_type: "srt", enabled: true, is_healthy: true }];
+	try {
+		configureLogging({ logLevel: "error", logFormat: "text" });
+		assertEquals(captureConsole(() => printSourcesList(sources)).stdout, []);
+
+		configureLogging({ logLevel: "info", logFormat: "text" });
+		const output = captureConsole(() => printSourcesList(sources));
+		assertEquals(output.stdout[1], "Available Sources:");
+		assertEquals(output.stdout.includes("  ✓ ID 1: Cam 1"), true);
+	} finally {
+		configureLogging({ logLevel: "info", logFormat: "text" });
+	}
+});
+
+Deno.test("Logger: LOG_LEVEL and LOG_FORMAT are validated", () => {
+	assertEquals(parseLogLevel(undefined), "info");
+	assertEquals(parseLogLevel("DEBUG"), "debug");
+	assertEquals(parseLogFormat(undefined), "text");
+	assertEquals(parseLogFormat("json"), "json");
+	assertThrows(() => parseLogLevel("verbose"), Error, "LOG_LEVEL");
+	assertThrows(() => parseLogFormat("xml"), Error, "LOG_FORMAT");
+});
@@ -0,0 +1,74 @@
+/**
+ * Tests for Prometheus metrics rendering
+ */
+
+import { assertEquals, assertStringIncludes, assert } from "@std/assert";
+import { Counter, Gauge, Histogram, renderMetrics, resetMetrics, switchesTotal } from "../src/switcher/metrics.ts";
+
+Deno.test("Metrics: counters accumulate per label set", () => {
+	const counter = new Counter("test_total", "Test counter");
+	counter.inc({ source: 1, reason: "rotation" });
+	counter.inc({ reason: "rotation", source: 1 });
+	counter.inc({ source: 2, reason: "manual" }, 3);
+
+	assertEquals(counter.get({ source: 1, reason: "rotation" }), 2, "Label order should not matter");
+	const text = counter.render();
+	assertStringIncludes(text, "# TYPE test_total counter");
+	assertStringIncludes(text, 'test_total{reason="rotation",source="1"} 2');
+	assertStringIncludes(text, 'test_total{reason="manual",source="2"} 3');
+});
+
+Deno.test("Metrics: gauges are replaced and label values escaped", () => {
+	const gauge = new Gauge("test_gauge", "Test gauge");
+	gauge.set(1);
+	gauge.set(5);
+	gauge.set(0, { name: 'Dock "north"\\1' });
+
+	const text = gauge.render();
+	assertStringIncludes(text, "test_gauge 5");
+	assertStringIncludes(text, 'test_gauge{name="Dock \\"north\\"\\\\1"} 0');
+
+	gauge.reset();
+	assertEquals(gauge.render().split("\n").length, 2, "Reset should leave only HELP and TYPE");
+});
+
+Deno.test("Metrics: histogram buckets are cumulative", () => {
+	const histogram = new Histogram("test_seconds", "Test histogram", [0.1, 1]);
+	histogram.observe(0.05, { operation: "getSources" });
+	histogram.observe(0.5, { operation: "getSources" });
+	histogram.observe(3, { operation: "getSources" });
+
+	const text = histogram.render();
+	assertStringIncludes(text, 'test_seconds_bucket{le="0.1",operation="getSources"} 1');
+	assertStringIncludes(text, 'test_seconds_bucket{le="1",operation="getSources"} 2');
+	assertStringIncludes(text, 'test_seconds_bucket{le="+Inf",operation="getSources"} 3');
+	assertStringIncludes(text, 'test_seconds_sum{operation="getSources"} 3.55');
+	assertStringIncludes(text, 'test_seconds_count{operation="getSources"} 3');
+});
+
+Deno.test("Metrics: registry renders every switcher metric", () => {
+	resetMetrics();
+	switchesTotal.inc({ source: 2, reason: "failover" });
+
+	const text = renderMetrics();
+	for (const name of [
+		"switcher_switches_total",
+		"switcher_switch_failures_total",
+		"switcher_camera_notify_failures_total",
+		"switcher_pipeline_request_duration_seconds",
+		"switcher_pipeline_retries_total",
+		"switcher_pipeline_breaker_state",
+		"switcher_pipeline_up",
+		"switcher_pipeline_last_seen_timestamp_seconds",
+		"switcher_current_source",
+		"switcher_rotation_enabled",
+		"switcher_schedule_index",
+		"switcher_source_healthy",
+		"switcher_api_requests_total",
+	]) {
+		assertStringIncludes(text, `# TYPE ${name} `);
+	}
+	assertStringIncludes(text, 'switcher_switches_total{reason="failover",source="2"} 1');
+	assert(text.endsWith("\n"), "Exposition must end with a newline");
+	resetMetrics();
+});
@@ -0,0 +1,83 @@
+/**
+ * Tests for shuffle and weighted rotation modes
+ */
+
+import { assertEquals, assert } from "@std/assert";
+import { createShuffleCycle, pickDuration, pickWeightedIndex } from "../src/switcher/modes.ts";
+import type { RotationScheduleItem } from "../src/switcher/types.ts";
+
+const schedule: RotationScheduleItem[] = [
+	{ cameraId: 1, durationSeconds: 30 },
+	{ cameraId: 2, durationSeconds: 30 },
+	{ cameraId: 3, durationSeconds: 30 },
+	{ cameraId: 4, durationSeconds: 30 },
+];
+
+// Deterministic pseudo-random sequence for repeatable tests
+function seededRandom(seed: number): () => number {
+	return () => {
+		seed = (seed * 1103515245 + 12345) % 2147483648;
+		return seed / 2147483648;
+	};
+}
+
+Deno.test("Modes: shuffle cycle is a permutation of the schedule", () => {
+	const order = createShuffleCycle(schedule, null, seededRandom(42));
+	assertEquals([...order].sort(), [0, 1, 2, 3], "Every item should appear exactly once");
+});
+
+Deno.test("Modes: shuffle never repeats the last camera across cycles", () => {
+	const random = seededRandom(7);
+	let lastCameraId: number | null = null;
+
+	for (let cycle = 0; cycle < 200; cycle++) {
+		const order = createShuffleCycle(schedule, lastCameraId, random);
+		assert(schedule[order[0]].cameraId !== lastCameraId, `Cycle ${cycle} starts with the previous camera`);
+		lastCameraId = schedule[order[order.length - 1]].cameraId;
+	}
+});
+
+Deno.test("Modes: weighted pick follows weights", () => {
+	const weighted: RotationScheduleItem[] = [
+		{ cameraId: 1, durationSeconds: 30, weight: 3 },
+		{ cameraId: 2, durationSeconds: 30, weight: 1 },
+		{ cameraId: 3, durationSeconds: 30, weight: 0 },
+	];
+	const random = seededRandom(1);
+	const counts = [0, 0, 0];
+
+	for (let i = 0; i < 4000; i++) {
+		counts[pickWeightedIndex(weighted, null, random)!]++;
+	}
+
+	assertEquals(counts[2], 0, "Zero-weight items should never be picked");
+	assert(counts[0] > counts[1] * 2, "Weight 3 should be picked roughly three times as often as weight 1");
+});
+
+Deno.test("Modes: weighted pick avoids the last camera when possible", () => {
+	const random = seededRandom(3);
+	for (let i = 0; i < 100; i++) {
+		assert(schedule[pickWeightedIndex(schedule, 2, random)!].cameraId !== 2, "Camera 2 should not repeat");
+	}
+
+	const single = [{ cameraId: 2, durationSeconds: 30 }];
+	assertEquals(pickWeightedIndex(single, 2, random), 0, "Only item may repeat");
+});
+
+Deno.test("Modes: weighted pick finds nothing when every weight is 0", () => {
+	const muted = schedule.map((item) => ({ ...item, weight: 0 }));
+	assertEquals(pickWeightedIndex(muted, null, seededRandom(5)), null);
+	assertEquals(pickWeightedIndex(muted, 2, seededRandom(5)), null);
+});
+
+Deno.test("Modes: duration ranges only apply in weighted mode", () => {
+	const item = { cameraId: 1, durationSeconds: 30, minDurationSeconds: 20, maxDurationSeconds: 40 };
+	const random = seededRandom(5);
+
+	assertEquals(pickDuration(item, "sequential", random), 30, "Sequential uses durationSeconds");
+	for (let i = 0; i < 100; i++) {
+		const duration = pickDuration(item, "weighted", random);
+		assert(duration >= 20 && duration <= 40, `Duration ${duration} out of range`);
+		assertEquals(Math.floor(duration), duration, "Duration should be whole seconds");
+	}
+});
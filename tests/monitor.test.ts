@@ -0,0 +1,120 @@
+/**
+ * Tests for pipeline health monitoring
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+	checkPipeline,
+	getConnectivity,
+	monitorEvents,
+	recordHealthCheck,
+	resetConnectivity,
+} from "../src/switcher/monitor.ts";
+import { handleAPIRequest, initAPI } from "../src/switcher/api.ts";
+import { getBreakerStatus, initPipelineClient, pipelineFetch } from "../src/switcher/client.ts";
+import { testConfig } from "./helpers.ts";
+
+Deno.test("Monitor: tracks last seen and consecutive failures", () => {
+	resetConnectivity();
+	assertEquals(getConnectivity().reachable, null);
+
+	recordHealthCheck(true, new Date("2024-01-15T10:00:00Z"));
+	recordHealthCheck(false, new Date("2024-01-15T10:00:10Z"));
+	recordHealthCheck(false, new Date("2024-01-15T10:00:20Z"));
+	assertEquals(getConnectivity(), {
+		reachable: false,
+		lastSeen: "2024-01-15T10:00:00.000Z",
+		lastCheck: "2024-01-15T10:00:20.000Z",
+		consecutiveFailures: 2,
+	});
+
+	recordHealthCheck(true, new Date("2024-01-15T10:00:30Z"));
+	assertEquals(getConnectivity().consecutiveFailures, 0);
+	assertEquals(getConnectivity().lastSeen, "2024-01-15T10:00:30.000Z");
+	resetConnectivity();
+});
+
+Deno.test("Monitor: emits only on reachability changes", () => {
+	resetConnectivity();
+	const events: string[] = [];
+	const onReachable = () => events.push("reachable");
+	const onUnreachable = () => events.push("unreachable");
+	monitorEvents.on("reachable", onReachable);
+	monitorEvents.on("unreachable", onUnreachable);
+
+	recordHealthCheck(false);
+	recordHealthCheck(false);
+	recordHealthCheck(true);
+	recordHealthCheck(true);
+	recordHealthCheck(false);
+	assertEquals(events, ["unreachable", "reachable", "unreachable"]);
+
+	monitorEvents.off("reachable", onReachable);
+	monitorEvents.off("unreachable", onUnreachable);
+	resetConnectivity();
+});
+
+Deno.test("Monitor: health checks probe the pipeline", async () => {
+	resetConnectivity();
+	const original = globalThis.fetch;
+	let healthy = false;
+	globalThis.fetch = () => Promise.resolve(new Response("ok", { status: healthy ? 200 : 404 }));
+	try {
+		assertEquals(await checkPipeline("http://pipeline"), false);
+		healthy = true;
+		assertEquals(await checkPipeline("http://pipeline"), true);
+		assertEquals(getConnectivity().reachable, true);
+	} finally {
+		globalThis.fetch = original;
+		resetConnectivity();
+	}
+});
+
+Deno.test("Monitor: API health reports degraded while the pipeline is unreachable", async () => {
+	resetConnectivity();
+	initAPI(testConfig());
+	const health = async () => await (await handleAPIRequest(new Request("http://localhost/api/health"), "10.0.0.1")).json();
+
+	assertEquals((await health()).status, "degraded", "Not checked yet");
+	recordHealthCheck(false);
+	assertEquals((await health()).pipeline.consecutiveFailures, 1);
+	recordHealthCheck(true);
+	assertEquals((await health()).status, "ok");
+	resetConnectivity();
+});
+
+Deno.test("Monitor: checks while the breaker is open count as failures", async () => {
+	resetConnectivity();
+	initPipelineClient(testConfig({
+		pipelineTimeoutMs: 1000,
+		pipelineRetries: 0,
+		pipelineRetryBaseMs: 1,
+		pipelineRetryMaxMs: 2,
+		breakerThreshold: 1,
+		breakerResetMs: 60000,
+	}));
+	initAPI(testConfig());
+	const original = globalThis.fetch;
+	let calls = 0;
+	globalThis.fetch = () => {
+		calls++;
+		return Promise.resolve(new Response("ok", { status: calls === 1 ? 200 : 503 }));
+	};
+	try {
+		assertEquals(await checkPipeline("http://pipeline"), true);
+		await (await pipelineFetch("http://pipeline/source/active", {}, { operation: "x", idempotent: false })).body?.cancel();
+		assertEquals(getBreakerStatus().state, "open");
+
+		assertEquals(await checkPipeline("http://pipeline"), false);
+		assertEquals(calls, 2, "The pipeline is not contacted while the breaker is open");
+		assertEquals(getConnectivity().reachable, false);
+		assertEquals(getConnectivity().consecutiveFailures, 1);
+
+		const health = await (await handleAPIRequest(new Request("http://localhost/api/health"), "10.0.0.1")).json();
+		assertEquals(health.status, "degraded");
+	} finally {
+		globalThis.fetch = original;
+		initPipelineClient(testConfig({ pipelineRetries: 0 }));
+		resetConnectivity();
+	}
+});
@@ -0,0 +1,381 @@
+/**
+ * Tests for overlay control: the pipeline overlay client, the desired overlay
+ * kept by the switcher and the /api/overlay routes
+ */
+
+import { assertEquals } from "@std/assert";
+import type { OverlayStatus, OverlayUpdate } from "../src/overlay/client.ts";
+import { OverlayError, getOverlayStatus, refreshOverlay, verifyOverlay } from "../src/overlay/client.ts";
+import {
+	initOverlay,
+	overlayDifference,
+	reconcileOverlay,
+	resolveOverlayTarget,
+	setDesiredOverlay,
+	setOverlayBindings,
+} from "../src/switcher/overlay.ts";
+import { switchEvents } from "../src/switcher/pipeline.ts";
+import { getBreakerStatus, initPipelineClient } from "../src/switcher/client.ts";
+import type { OverlayBinding } from "../src/switcher/types.ts";
+import { handleAPIRequest, initAPI } from "../src/switcher/api.ts";
+import { loadState, setStateStore, state } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
+import { testConfig } from "./helpers.ts";
+import { configureLogging } from "../src/logger.ts";
+import { run } from "../overlay.ts";
+
+const BASE_URL = "http://pipeline";
+
+const config = testConfig({
+	baseUrl: BASE_URL,
+	apiTokens: [
+		{ label: "viewer", token: "read-token-0123456789", role: "read" },
+		{ label: "operator", token: "operator-token-0123456789", role: "operator" },
+	],
+});
+
+interface FakePipeline {
+	overlay: OverlayStatus;
+	status: number; // Response status for every overlay request
+	puts: OverlayUpdate[];
+	ignorePuts?: boolean; // Accept updates without applying them
+}
+
+/**
+ * Replace fetch with a pipeline holding overlay state; returns a restore function
+ */
+function fakePipeline(pipeline: FakePipeline): () => void {
+	const original = globalThis.fetch;
+	globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+		if (String(input).endsWith("/health")) {
+			return Promise.resolve(Response.json({ status: "ok" }));
+		}
+		if (pipeline.status !== 200) {
+			return Promise.resolve(new Response("overlay unavailable", { status: pipeline.status }));
+		}
+		if (init?.method === "PUT") {
+			const update = JSON.parse(String(init.body)) as OverlayUpdate;
+			pipeline.puts.push(update);
+			if (!pipeline.ignorePuts) {
+				pipeline.overlay = { ...pipeline.overlay, ...update };
+			}
+		}
+		return Promise.resolve(Response.json(pipeline.overlay));
+	}) as typeof fetch;
+	return () => globalThis.fetch = original;
+}
+
+/**
+ * The OverlayError a call fails with
+ */
+async function overlayError(promise: Promise<unknown>): Promise<OverlayError> {
+	try {
+		await promise;
+	} catch (error) {
+		if (error instanceof OverlayError) {
+			return error;
+		}
+		throw error;
+	}
+	throw new Error("Expected an OverlayError");
+}
+
+function resetOverlay(): void {
+	setStateStore(new MemoryStateStore());
+	state.overlay = { url: null, visible: null, pinned: false };
+	state.overlayBindings = [];
+	state.overlayDefault = null;
+	initOverlay(config);
+}
+
+/**
+ * Run the overlay CLI quietly; returns the exit code and what it printed on stdout
+ */
+async function runCli(argv: string[]): Promise<{ exitCode: number; output: string[] }> {
+	const output: string[] = [];
+	const original = console.log;
+	console.log = (line: string) => output.push(line);
+	try {
+		const exitCode = await run(argv, { logLevel: "error", logFormat: "text" }, BASE_URL);
+		return { exitCode, output };
+	} finally {
+		console.log = original;
+		configureLogging({ logLevel: "info", logFormat: "text" });
+	}
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test("Overlay: client classifies pipeline failures", async () => {
+	const pipeline: FakePipeline = { overlay: { enabled: true }, status: 500, puts: [] };
+	const restore = fakePipeline(pipeline);
+	const clientConfig = testConfig({
+		pipelineTimeoutMs: 1000,
+		pipelineRetries: 2,
+		pipelineRetryBaseMs: 1,
+		pipelineRetryMaxMs: 2,
+		breakerThreshold: 1,
+		breakerResetMs: 60000,
+	});
+	initPipelineClient(clientConfig);
+	try {
+		const notInitialized = await overlayError(getOverlayStatus(BASE_URL));
+		assertEquals([notInitialized.kind, notInitialized.status], ["not-initialized", 500]);
+		assertEquals(getBreakerStatus().state, "closed", "A missing overlay is not a pipeline failure");
+
+		pipeline.status = 400;
+		assertEquals((await overlayError(getOverlayStatus(BASE_URL))).kind, "rejected");
+
+		pipeline.status = 200;
+		assertEquals((await overlayError(refreshOverlay(BASE_URL))).message, "No URL configured for overlay");
+	} finally {
+		restore();
+		initPipelineClient({ ...clientConfig, breakerThreshold: 0 });
+	}
+
+	const original = globalThis.fetch;
+	globalThis.fetch = () => Promise.reject(new TypeError("connection refused"));
+	try {
+		assertEquals((await overlayError(getOverlayStatus(BASE_URL))).kind, "unreachable");
+	} finally {
+		globalThis.fetch = original;
+	}
+});
+
+Deno.test("Overlay: verifying an update re-reads the pipeline's status", async () => {
+	const pipeline: FakePipeline = { overlay: { enabled: true, url: "https://a/" }, status: 200, puts: [] };
+	const restore = fakePipeline(pipeline);
+	try {
+		assertEquals(await verifyOverlay(BASE_URL, { url: "https://a/", visible: false }), pipeline.overlay);
+
+		const notApplied = await overlayError(verifyOverlay(BASE_URL, { url: "https://b/", visible: true }));
+		assertEquals(notApplied.kind, "not-applied");
+		assertEquals(
+			notApplied.message,
+			"Pipeline did not apply the change: url is https://a/, expected https://b/; visible is false, expected true"
+		);
+	} finally {
+		restore();
+	}
+});
+
+Deno.test("Overlay: only changed fields are compared and sent", async () => {
+	assertEquals(overlayDifference({ url: null, visible: null, pinned: false }, { url: "https://a/", visible: true }), {});
+	assertEquals(
+		overlayDifference({ url: "https://a/", visible: false, pinned: false }, { enabled: true, url: "https://a/" }),
+		{},
+		"Missing visibility counts as hidden"
+	);
+	assertEquals(overlayDifference({ url: "https://b/", visible: true, pinned: false }, { url: "https://a/" }), {
+		url: "https://b/",
+		visible: true,
+	});
+
+	resetOverlay();
+	const pipeline: FakePipeline = { overlay: { enabled: true, url: "https://a/", visible: false }, status: 200, puts: [] };
+	const restore = fakePipeline(pipeline);
+	try {
+		await setDesiredOverlay({ url: "https://a/" });
+		await setDesiredOverlay({ visible: true });
+		assertEquals(pipeline.puts, [{ url: "https://a/" }, { visible: true }], "Showing must not reload the page");
+		assertEquals(state.overlay, { url: "https://a/", visible: true, pinned: false });
+
+		await setDesiredOverlay({}, true);
+		assertEquals(pipeline.puts.at(-1), { url: "https://a/" }, "Refresh re-sets the current URL");
+	} finally {
+		restore();
+	}
+});
+
+Deno.test("Overlay: desired settings are persisted and re-applied after a pipeline restart", async () => {
+	resetOverlay();
+	const store = new MemoryStateStore();
+	setStateStore(store);
+	const pipeline: FakePipeline = { overlay: { enabled: true, visible: false }, status: 200, puts: [] };
+	const restore = fakePipeline(pipeline);
+	try {
+		await setDesiredOverlay({ url: "https://overlay.example/", visible: true });
+		assertEquals(((await store.load()) as Record<string, unknown>).overlay, {
+			url: "https://overlay.example/",
+			visible: true,
+			pinned: false,
+		});
+
+		state.overlay = { url: null, visible: null, pinned: false };
+		await loadState();
+		assertEquals(state.overlay, { url: "https://overlay.example/", visible: true, pinned: false });
+
+		// The restarted pipeline comes back with its defaults
+		pipeline.overlay = { enabled: true, url: "https://default.example/", visible: false };
+		pipeline.puts = [];
+		assertEquals(await reconcileOverlay(), true);
+		assertEquals(pipeline.puts, [{ url: "https://overlay.example/", visible: true }]);
+		assertEquals(await reconcileOverlay(), false, "Nothing to do once applied");
+
+		pipeline.status = 500;
+		assertEquals(await reconcileOverlay(), false, "Failures are logged, not thrown");
+	} finally {
+		restore();
+	}
+});
+
+Deno.test("Overlay: /api/overlay reads and changes the overlay", async () => {
+	resetOverlay();
+	initAPI(config);
+	const pipeline: FakePipeline = { overlay: { enabled: true, url: "https://a/", visible: false }, status: 200, puts: [] };
+	const restore = fakePipeline(pipeline);
+	const call = (method: string, token: string, body?: unknown) =>
+		handleAPIRequest(
+			new Request("http://localhost/api/overlay", {
+				method,
+				headers: { Authorization: `Bearer ${token}` },
+				body: body !== undefined ? JSON.stringify(body) : undefined,
+			}),
+			"10.0.0.1"
+		);
+	try {
+		const read = await call("GET", "read-token-0123456789");
+		assertEquals(await read.json(), {
+			desired: { url: null, visible: null, pinned: false },
+			actual: { enabled: true, url: "https://a/", visible: false },
+			default: null,
+			bindings: [],
+		});
+
+		assertEquals((await call("PUT", "read-token-0123456789", { visible: true })).status, 403);
+		const invalid = await call("PUT", "operator-token-0123456789", { url: "javascript:alert(1)" });
+		assertEquals(invalid.status, 422);
+		await invalid.body?.cancel();
+
+		const changed = await call("PUT", "operator-token-0123456789", { visible: true });
+		assertEquals(changed.status, 200);
+		assertEquals((await changed.json()).desired, { url: null, visible: true, pinned: false });
+		assertEquals(pipeline.overlay.visible, true);
+
+		pipeline.status = 500;
+		const failed = await call("PUT", "operator-token-0123456789", { url: "https://b/" });
+		assertEquals(failed.status, 500);
+		assertEquals((await failed.json()).desired, { url: "https://b/", visible: true, pinned: false }, "Kept for re-applying");
+	} finally {
+		restore();
+	}
+});
+
+const bindings: OverlayBinding[] = [
+	{ sourceId: 1, url: "https://weather/", visible: true },
+	{ sourceId: 1, scheduleIndex: 2, url: "https://sponsor/", visible: true },
+	{ sourceId: 1, scheduleName: "night", scheduleIndex: 0, visible: false },
+	{ sourceId: 2, url: "https://map/", visible: true },
+];
+
+Deno.test("Overlay: bindings prefer the schedule item, then the source, then the default", () => {
+	const fallback = { visible: false };
+	const live = (sourceId: number, scheduleName: string | null = null, scheduleIndex: number | null = null) =>
+		resolveOverlayTarget({ sourceId, scheduleName, scheduleIndex }, bindings, fallback);
+
+	assertEquals(live(1), { url: "https://weather/", visible: true });
+	assertEquals(live(1, null, 2), { url: "https://sponsor/", visible: true });
+	assertEquals(live(1, "night", 2), { url: "https://weather/", visible: true }, "Item of another schedule");
+	assertEquals(live(1, "night", 0), { visible: false });
+	assertEquals(live(3), fallback);
+	assertEquals(resolveOverlayTarget({ sourceId: 3, scheduleName: null, scheduleIndex: null }, bindings, null), null);
+});
+
+Deno.test("Overlay: bindings follow successful switches unless pinned", async () => {
+	resetOverlay();
+	const pipeline: FakePipeline = { overlay: { enabled: true }, status: 200, puts: [] };
+	const restore = fakePipeline(pipeline);
+	const switched = async (sourceId: number) => {
+		switchEvents.emit("switched", { sourceId, sourceName: `Cam ${sourceId}`, timestamp: "", reason: "manual" });
+		await delay(10);
+	};
+	try {
+		await setOverlayBindings(bindings, { visible: false });
+		await switched(2);
+		assertEquals(pipeline.overlay, { enabled: true, url: "https://map/", visible: true });
+		await switched(3);
+		assertEquals(pipeline.puts.at(-1), { visible: false }, "Default keeps the URL");
+
+		pipeline.puts = [];
+		await switched(3);
+		assertEquals(pipeline.puts, [], "Nothing sent when the overlay already matches");
+
+		state.overlay = { ...state.overlay, pinned: true };
+		await switched(1);
+		assertEquals(pipeline.puts, [], "Pinned overlay is left alone");
+		assertEquals(state.overlay.visible, false);
+	} finally {
+		restore();
+	}
+});
+
+Deno.test("Overlay: command line exit codes and --json results", async () => {
+	const pipeline: FakePipeline = { overlay: { enabled: true, url: "https://a/", visible: true }, status: 200, puts: [] };
+	const restore = fakePipeline(pipeline);
+	try {
+		assertEquals(await runCli(["--json", "status"]), {
+			exitCode: 0,
+			output: [JSON.stringify({ command: "status", ok: true, exitCode: 0, overlay: pipeline.overlay })],
+		});
+
+		pipeline.status = 500;
+		const notInitialized = await runCli(["--json", "enable"]);
+		assertEquals(notInitialized.exitCode, 3);
+		assertEquals(JSON.parse(notInitialized.output[0]), {
+			command: "enable",
+			ok: false,
+			exitCode: 3,
+			error: { kind: "not-initialized", message: "HTML overlay not initialized (500 - overlay unavailable)", status: 500 },
+		});
+
+		pipeline.status = 400;
+		const rejected = await runCli(["--json", "disable"]);
+		assertEquals([rejected.exitCode, JSON.parse(rejected.output[0]).error.kind], [4, "rejected"]);
+
+		pipeline.status = 200;
+		pipeline.ignorePuts = true;
+		const notApplied = await runCli(["--json", "--verify", "set-url", "https://b/"]);
+		assertEquals([notApplied.exitCode, JSON.parse(notApplied.output[0]).error.kind], [5, "not-applied"]);
+	} finally {
+		restore();
+	}
+
+	const original = globalThis.fetch;
+	globalThis.fetch = () => Promise.reject(new TypeError("connection refused"));
+	try {
+		const unreachable = await runCli(["--json", "status"]);
+		assertEquals([unreachable.exitCode, JSON.parse(unreachable.output[0]).error.kind], [2, "unreachable"]);
+	} finally {
+		globalThis.fetch = original;
+	}
+});
+
+Deno.test("Overlay: command line set-url shows the overlay unless --keep-visibility is given", async () => {
+	const pipeline: FakePipeline = { overlay: { enabled: true, url: "https://a/", visible: false }, status: 200, puts: [] };
+	const restore = fakePipeline(pipeline);
+	try {
+		assertEquals((await runCli(["--json", "set-url", "https://b/", "--keep-visibility"])).exitCode, 0);
+		assertEquals((await runCli(["--json", "set-url", "https://c/"])).exitCode, 0);
+		assertEquals(pipeline.puts, [{ url: "https://b/" }, { url: "https://c/", visible: true }]);
+	} finally {
+		restore();
+	}
+});
+
+Deno.test("Overlay: command line usage errors are printed as JSON with --json", async () => {
+	const usage = await runCli(["--json", "enable", "--keep-visibility"]);
+	assertEquals(usage.exitCode, 1);
+	assertEquals(JSON.parse(usage.output[0]), {
+		command: "enable",
+		ok: false,
+		exitCode: 1,
+		error: { kind: "usage", message: "--keep-visibility only applies to set-url", status: null },
+	});
+	assertEquals(JSON.parse((await runCli(["--json", "--bogus"])).output[0]).error.message, "Unknown option '--bogus'");
+
+	const text = await runCli(["frobnicate"]);
+	assertEquals(text.exitCode, 1);
+	assertEquals(text.output.join("").includes("Usage:"), true, "Without --json the usage is printed");
+});
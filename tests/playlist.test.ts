@@ -0,0 +1,211 @@
+/**
+ * Tests for the overlay playlist and the /api/overlay/playlist routes
+ */
+
+import { assertEquals } from "@std/assert";
+import type { OverlayStatus, OverlayUpdate } from "../src/overlay/client.ts";
+import { initOverlay, setDesiredOverlay, setOverlayBindings } from "../src/switcher/overlay.ts";
+import {
+	getOverlayPlaylistStatus,
+	nextPlaylistEntry,
+	setOverlayPlaylist,
+	startOverlayPlaylist,
+	stopOverlayPlaylist,
+} from "../src/switcher/playlist.ts";
+import { switchEvents } from "../src/switcher/pipeline.ts";
+import type { OverlayPlaylistEntry } from "../src/switcher/types.ts";
+import { handleAPIRequest, initAPI } from "../src/switcher/api.ts";
+import { setStateStore, state } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
+import { testConfig } from "./helpers.ts";
+
+const config = testConfig({
+	apiTokens: [
+		{ label: "viewer", token: "read-token-0123456789", role: "read" },
+		{ label: "operator", token: "operator-token-0123456789", role: "operator" },
+	],
+});
+
+/**
+ * Replace fetch with a pipeline that records overlay updates; returns a restore function
+ */
+function fakePipeline(puts: OverlayUpdate[]): () => void {
+	const original = globalThis.fetch;
+	let overlay: OverlayStatus = { enabled: true };
+	globalThis.fetch = ((_input: RequestInfo | URL, init?: RequestInit) => {
+		if (init?.method === "PUT") {
+			const update = JSON.parse(String(init.body)) as OverlayUpdate;
+			puts.push(update);
+			overlay = { ...overlay, ...update };
+		}
+		return Promise.resolve(Response.json(overlay));
+	}) as typeof fetch;
+	return () => globalThis.fetch = original;
+}
+
+function resetPlaylist(): void {
+	stopOverlayPlaylist();
+	setStateStore(new MemoryStateStore());
+	state.overlay = { url: null, visible: null, pinned: false };
+	state.overlayBindings = [];
+	state.overlayDefault = null;
+	state.overlayPlaylist = { enabled: false, entries: [] };
+	state.overlayPlaylistIndex = null;
+	initOverlay(config);
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test("Playlist: entries outside their window are skipped, wrapping around", () => {
+	const now = new Date("2025-01-15T12:00:00Z"); // Wednesday
+	const entries: OverlayPlaylistEntry[] = [
+		{ url: "https://overlay.example.com/a", durationSeconds: 10 },
+		{
+			url: "https://overlay.example.com/night",
+			durationSeconds: 10,
+			window: { startTime: "22:00", endTime: "06:00", timezone: "UTC" },
+		},
+		{
+			url: "https://overlay.example.com/weekend",
+			durationSeconds: 10,
+			window: { weekdays: [0, 6], timezone: "UTC" },
+		},
+	];
+
+	assertEquals(nextPlaylistEntry(entries, 0, now), 0);
+	assertEquals(nextPlaylistEntry(entries, 1, now), 0, "Should wrap past inactive entries");
+	assertEquals(nextPlaylistEntry(entries, 1, new Date("2025-01-15T23:00:00Z")), 1);
+	assertEquals(nextPlaylistEntry(entries.slice(1), 0, now), null);
+	assertEquals(nextPlaylistEntry([], 0, now), null);
+});
+
+Deno.test("Playlist: entries are shown in turn with hidden gaps", async () => {
+	resetPlaylist();
+	const puts: OverlayUpdate[] = [];
+	const restore = fakePipeline(puts);
+	try {
+		await setOverlayPlaylist({
+			enabled: true,
+			entries: [
+				{ url: "https://overlay.example.com/a", durationSeconds: 0.03, hideSeconds: 0.03 },
+				{ url: "https://overlay.example.com/b", durationSeconds: 0.03 },
+			],
+		});
+		assertEquals(getOverlayPlaylistStatus().phase, "stopped", "Should wait for startOverlayPlaylist");
+
+		startOverlayPlaylist();
+		await delay(10);
+		assertEquals(getOverlayPlaylistStatus().phase, "showing");
+		assertEquals(getOverlayPlaylistStatus().index, 0);
+		await delay(200);
+		stopOverlayPlaylist();
+
+		assertEquals(puts.slice(0, 4), [
+			{ url: "https://overlay.example.com/a", visible: true },
+			{ visible: false },
+			{ url: "https://overlay.example.com/b", visible: true },
+			{ url: "https://overlay.example.com/a" },
+		]);
+		assertEquals(getOverlayPlaylistStatus(), { phase: "stopped", index: null, until: null });
+		assertEquals(state.overlayPlaylistIndex !== null, true, "Position should be saved for restarts");
+	} finally {
+		stopOverlayPlaylist();
+		restore();
+	}
+});
+
+Deno.test("Playlist: resumes from the saved entry, and new entries start over", async () => {
+	resetPlaylist();
+	const puts: OverlayUpdate[] = [];
+	const restore = fakePipeline(puts);
+	try {
+		const entries = [
+			{ url: "https://overlay.example.com/a", durationSeconds: 60 },
+			{ url: "https://overlay.example.com/b", durationSeconds: 60 },
+		];
+		state.overlayPlaylist = { enabled: true, entries };
+		state.overlayPlaylistIndex = 1;
+		startOverlayPlaylist();
+		await delay(10);
+		assertEquals(getOverlayPlaylistStatus().index, 1);
+
+		await setOverlayPlaylist({ enabled: true, entries: [...entries].reverse() });
+		await delay(10);
+		assertEquals(getOverlayPlaylistStatus().index, 0);
+		assertEquals(state.overlay.url, "https://overlay.example.com/b");
+	} finally {
+		stopOverlayPlaylist();
+		restore();
+	}
+});
+
+Deno.test("Playlist: a pinned overlay is left alone and bindings wait while it runs", async () => {
+	resetPlaylist();
+	const puts: OverlayUpdate[] = [];
+	const restore = fakePipeline(puts);
+	try {
+		await setOverlayBindings([{ sourceId: 2, url: "https://overlay.example.com/bound", visible: true }], null);
+		await setDesiredOverlay({ url: "https://overlay.example.com/pinned", visible: true, pinned: true });
+		puts.length = 0;
+
+		await setOverlayPlaylist({
+			enabled: true,
+			entries: [{ url: "https://overlay.example.com/a", durationSeconds: 60 }],
+		});
+		startOverlayPlaylist();
+		await delay(10);
+		assertEquals(getOverlayPlaylistStatus().phase, "showing", "Timing should continue while pinned");
+		assertEquals(puts, []);
+
+		state.overlay = { ...state.overlay, pinned: false };
+		switchEvents.emit("switched", { sourceId: 2, sourceName: "Cam 2", timestamp: "", reason: "manual" });
+		await delay(10);
+		assertEquals(puts, [], "Bindings should not apply while the playlist is enabled");
+	} finally {
+		stopOverlayPlaylist();
+		restore();
+	}
+});
+
+Deno.test("Playlist: GET/PUT /api/overlay/playlist check roles and validate entries", async () => {
+	resetPlaylist();
+	initAPI(config);
+	const restore = fakePipeline([]);
+	const call = (method: string, token: string, body?: unknown) =>
+		handleAPIRequest(
+			new Request("http://localhost/api/overlay/playlist", {
+				method,
+				headers: { Authorization: `Bearer ${token}` },
+				body: body !== undefined ? JSON.stringify(body) : undefined,
+			}),
+			"10.0.0.1"
+		);
+	try {
+		const entries = [{ url: "https://overlay.example.com/sponsor", durationSeconds: 20, hideSeconds: 280 }];
+
+		const forbidden = await call("PUT", "read-token-0123456789", { enabled: true });
+		assertEquals(forbidden.status, 403);
+		await forbidden.body?.cancel();
+
+		const invalid = await call("PUT", "operator-token-0123456789", {
+			entries: [{ url: "ftp://overlay.example.com/", durationSeconds: 0 }],
+		});
+		assertEquals(invalid.status, 422);
+		await invalid.body?.cancel();
+
+		const updated = await call("PUT", "operator-token-0123456789", { enabled: true, entries });
+		assertEquals(updated.status, 200);
+		assertEquals((await updated.json()).entries, entries);
+		assertEquals(state.overlayPlaylist, { enabled: true, entries });
+
+		const read = await call("GET", "read-token-0123456789");
+		const body = await read.json();
+		assertEquals(body.enabled, true);
+		assertEquals(body.status.phase, "stopped");
+	} finally {
+		stopOverlayPlaylist();
+		restore();
+	}
+});
@@ -3,8 +3,16 @@
  */
 
 import { assertEquals, assert } from "@std/assert";
-import { state, stateEvents, saveState } from "../src/switcher/state.ts";
+import { state, stateEvents, saveState, setStateStore } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
 import type { Source } from "../src/switcher/types.ts";
+import { runRotationLoop, stopRotation } from "../src/switcher/rotation.ts";
+import { getSources } from "../src/switcher/pipeline.ts";
+import { getBreakerStatus, initPipelineClient } from "../src/switcher/client.ts";
+import { testConfig } from "./helpers.ts";
+
+// Keep test state off disk
+setStateStore(new MemoryStateStore());
 
 // Mock switchToSource to track calls and prevent infinite loops
 let switchToSourceCallCount = 0;
@@ -209,3 +217,152 @@ Deno.test("Rotation: available sources filtering", () => {
 	assertEquals(filteredSources[0].id, 1, "Should be source 1");
 });
 
+const BASE_URL = "http://pipeline";
+
+const clientConfig = testConfig({
+	pipelineTimeoutMs: 1000,
+	pipelineRetries: 0,
+	pipelineRetryBaseMs: 1,
+	pipelineRetryMaxMs: 2,
+	breakerThreshold: 1,
+	breakerResetMs: 50,
+});
+
+interface FakePipeline {
+	down: boolean; // Every request fails with 503
+	rejected: number[]; // Source IDs the pipeline refuses to switch to (400)
+	attempts: number[]; // Source IDs of every switch request
+}
+
+const sources: Source[] = [1, 2, 3].map((id) => ({
+	id,
+	name: `Cam ${id}`,
+	source_type: "srt",
+	enabled: true,
+	is_healthy: true,
+}));
+
+/**
+ * Replace fetch with a pipeline serving the sources above; returns a restore function
+ */
+function fakePipeline(pipeline: FakePipeline): () => void {
+	const original = globalThis.fetch;
+	globalThis.fetch = ((_input: RequestInfo | URL, init?: RequestInit) => {
+		if (init?.method === "PUT") {
+			pipeline.attempts.push(JSON.parse(String(init.body)).id);
+		}
+		if (pipeline.down) {
+			return Promise.resolve(new Response("unavailable", { status: 503 }));
+		}
+		if (init?.method === "PUT") {
+			const id = pipeline.attempts.at(-1)!;
+			return Promise.resolve(
+				pipeline.rejected.includes(id)
+					? new Response("no such input", { status: 400 })
+					: Response.json({ success: true })
+			);
+		}
+		return Promise.resolve(Response.json({ sources }));
+	}) as typeof fetch;
+	return () => globalThis.fetch = original;
+}
+
+function resetRotation(): void {
+	resetTestState();
+	state.rotationEnabled = true;
+	state.rotationMode = "sequential";
+	state.rotationSchedule = [1, 2, 3].map((cameraId) => ({ cameraId, durationSeconds: 3600 }));
+	state.schedules = [];
+	state.activeScheduleName = null;
+	state.currentScheduleIndex = null;
+	state.failover = null;
+	state.override = null;
+	initPipelineClient(clientConfig);
+}
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test("Rotation: a failed switch with the pipeline up skips to the next item", async () => {
+	resetRotation();
+	const pipeline: FakePipeline = { down: false, rejected: [1], attempts: [] };
+	const restore = fakePipeline(pipeline);
+	try {
+		await runRotationLoop(BASE_URL, sources, 3600);
+		assertEquals(pipeline.attempts, [1]);
+		assertEquals(getBreakerStatus().state, "closed", "A refused switch is not a pipeline failure");
+		assertEquals(state.currentScheduleIndex, 1, "Camera 1 should be skipped");
+		assertEquals(state.currentSourceId, null);
+
+		await saveState(); // Re-evaluate now instead of after the retry delay
+		await delay(10);
+		assertEquals(pipeline.attempts, [1, 2]);
+		assertEquals(state.currentSourceId, 2);
+	} finally {
+		stopRotation();
+		restore();
+		initPipelineClient({ ...clientConfig, breakerThreshold: 0 });
+	}
+});
+
+Deno.test("Rotation: weighted mode idles when every weight is 0", async () => {
+	resetRotation();
+	state.rotationMode = "weighted";
+	state.rotationSchedule = [1, 2, 3].map((cameraId) => ({ cameraId, durationSeconds: 3600, weight: 0 }));
+	const pipeline: FakePipeline = { down: false, rejected: [], attempts: [] };
+	const restore = fakePipeline(pipeline);
+	try {
+		await runRotationLoop(BASE_URL, sources, 3600);
+		assertEquals(pipeline.attempts, [], "Nothing should be put on air");
+		assertEquals(state.currentScheduleIndex, null);
+
+		state.rotationSchedule[1].weight = 1;
+		await saveState();
+		await delay(10);
+		assertEquals(pipeline.attempts, [2], "Rotation starts once an item can be picked");
+	} finally {
+		stopRotation();
+		restore();
+		initPipelineClient({ ...clientConfig, breakerThreshold: 0 });
+	}
+});
+
+Deno.test("Rotation: an open breaker pauses on the current item and rotation resumes with it", async () => {
+	resetRotation();
+	const pipeline: FakePipeline = { down: false, rejected: [], attempts: [] };
+	const restore = fakePipeline(pipeline);
+	try {
+		await runRotationLoop(BASE_URL, sources, 3600);
+		assertEquals(state.currentSourceId, 1);
+		assertEquals(state.currentScheduleIndex, 1);
+
+		pipeline.down = true;
+		await saveState(); // Advance to camera 2
+		await delay(10);
+		assertEquals(pipeline.attempts, [1, 2]);
+		assertEquals(getBreakerStatus().state, "open");
+		assertEquals(state.currentScheduleIndex, 1, "Camera 2 should be kept for later");
+		assertEquals(state.currentSourceId, 1, "Camera 1 stays on air");
+
+		await saveState();
+		await delay(10);
+		assertEquals(pipeline.attempts, [1, 2], "No switches while the breaker is open");
+		assertEquals(state.currentScheduleIndex, 1);
+
+		// A successful trial call closes the breaker, which resumes rotation
+		pipeline.down = false;
+		await delay(60);
+		assertEquals(getBreakerStatus().state, "half-open");
+		await getSources(BASE_URL);
+		await delay(10);
+		assertEquals(getBreakerStatus().state, "closed");
+		assertEquals(pipeline.attempts, [1, 2, 2]);
+		assertEquals(state.currentSourceId, 2);
+		assertEquals(state.currentScheduleIndex, 2);
+	} finally {
+		stopRotation();
+		restore();
+		initPipelineClient({ ...clientConfig, breakerThreshold: 0 });
+	}
+});
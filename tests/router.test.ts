@@ -0,0 +1,162 @@
+/**
+ * Tests for the declarative router and generated OpenAPI document
+ */
+
+import { assertEquals, assert, assertThrows } from "@std/assert";
+import { Router } from "../src/switcher/router.ts";
+import { buildOpenApiDocument } from "../src/switcher/openapi.ts";
+import { corsHeaders } from "../src/switcher/cors.ts";
+import { getRoutes, handleAPIRequest, initAPI } from "../src/switcher/api.ts";
+import { setStateStore } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
+import type { Config } from "../src/switcher/config.ts";
+import { testConfig } from "./helpers.ts";
+
+// Keep test state off disk
+setStateStore(new MemoryStateStore());
+
+const ok = () => new Response("ok");
+
+function apiConfig(overrides: Partial<Config> = {}): Config {
+	return testConfig({
+		baseUrl: "http://127.0.0.1:9",
+		apiTokens: [
+			{ label: "viewer", token: "read-token-0123456789", role: "read" },
+			{ label: "admin", token: "admin-token-0123456789", role: "admin" },
+		],
+		corsOrigins: ["https://dashboard.example"],
+		...overrides,
+	});
+}
+
+function request(method: string, path: string, token?: string, headers: Record<string, string> = {}): Request {
+	return new Request(`http://localhost${path}`, {
+		method,
+		headers: token ? { Authorization: `Bearer ${token}`, ...headers } : headers,
+	});
+}
+
+Deno.test("Router: matches exact paths and path parameters", () => {
+	const router = new Router()
+		.add({ method: "GET", path: "/a", summary: "a", handler: ok })
+		.add({ method: "PUT", path: "/a", summary: "a", handler: ok })
+		.add({ method: "DELETE", path: "/items/:id", summary: "item", handler: ok });
+
+	const match = router.match("DELETE", "/items/cam%201");
+	assert(match !== null && "route" in match);
+	assertEquals(match.params, { id: "cam 1" });
+
+	assertEquals(router.match("DELETE", "/a"), { path: "/a", allowed: ["GET", "PUT"] });
+	assertEquals(router.match("GET", "/b"), null);
+	assertEquals(router.match("GET", "/items/"), null, "Empty parameter does not match");
+	assertEquals(router.match("DELETE", "/items/%E0"), null, "Malformed encoding does not match");
+	assertThrows(() => router.add({ method: "GET", path: "/a", summary: "again", handler: ok }), Error, "Duplicate");
+});
+
+Deno.test("Router: wrong method returns 405 with Allow", async () => {
+	initAPI(apiConfig());
+	const response = await handleAPIRequest(request("DELETE", "/api/state", "admin-token-0123456789"), "10.0.0.1");
+	assertEquals(response.status, 405);
+	assertEquals(response.headers.get("Allow"), "GET, PUT, OPTIONS");
+
+	const missing = await handleAPIRequest(request("GET", "/api/nope", "admin-token-0123456789"), "10.0.0.1");
+	assertEquals(missing.status, 404);
+});
+
+Deno.test("Router: preflight requests get CORS headers for allowed origins", async () => {
+	initAPI(apiConfig());
+	const preflight = await handleAPIRequest(
+		request("OPTIONS", "/api/state", undefined, { Origin: "https://dashboard.example" }),
+		"10.0.0.1"
+	);
+	assertEquals(preflight.status, 204);
+	assertEquals(preflight.headers.get("Access-Control-Allow-Origin"), "https://dashboard.example");
+	assertEquals(preflight.headers.get("Access-Control-Allow-Methods"), "GET, PUT, OPTIONS");
+
+	const other = await handleAPIRequest(
+		request("OPTIONS", "/api/state", undefined, { Origin: "https://evil.example" }),
+		"10.0.0.1"
+	);
+	assertEquals(other.headers.get("Access-Control-Allow-Origin"), null);
+
+	assertEquals(corsHeaders("https://any.example", ["*"])["Access-Control-Allow-Origin"], "https://any.example");
+	assertEquals(corsHeaders(null, ["*"]), {});
+});
+
+Deno.test("Router: auth and role metadata are enforced", async () => {
+	initAPI(apiConfig());
+	assertEquals((await handleAPIRequest(request("GET", "/api/health"), "10.0.0.1")).status, 200);
+	assertEquals((await handleAPIRequest(request("GET", "/api/state"), "10.0.0.1")).status, 401);
+	assertEquals((await handleAPIRequest(request("GET", "/api/state", "read-token-0123456789"), "10.0.0.1")).status, 200);
+
+	const denied = await handleAPIRequest(request("DELETE", "/api/override", "read-token-0123456789"), "10.0.0.1");
+	assertEquals(denied.status, 403);
+	assertEquals((await denied.json()).requiredRole, "operator");
+});
+
+Deno.test("Router: body-dependent roles are checked before the body is validated", async () => {
+	initAPI(apiConfig());
+	const original = globalThis.fetch;
+	let pipelineCalls = 0;
+	globalThis.fetch = () => {
+		pipelineCalls++;
+		return Promise.resolve(Response.json({ sources: [] }));
+	};
+	const put = (token: string, body: string) =>
+		handleAPIRequest(
+			new Request("http://localhost/api/state", { method: "PUT", headers: { Authorization: `Bearer ${token}` }, body }),
+			"10.0.0.1"
+		);
+	try {
+		const denied = await put("read-token-0123456789", JSON.stringify({ fixedSourceId: 9 }));
+		assertEquals(denied.status, 403);
+		assertEquals((await denied.json()).requiredRole, "operator");
+		assertEquals(pipelineCalls, 0, "Source IDs are not looked up for unauthorized clients");
+
+		const notObject = await put("read-token-0123456789", "[1]");
+		assertEquals(notObject.status, 403, "Malformed bodies are not validated for read tokens either");
+		await notObject.body?.cancel();
+
+		const invalid = await put("admin-token-0123456789", JSON.stringify({ fixedSourceId: 9 }));
+		assertEquals(invalid.status, 422);
+		assertEquals((await invalid.json()).details, [{ path: "$.fixedSourceId", message: "unknown source ID 9" }]);
+		assertEquals(pipelineCalls, 1);
+	} finally {
+		globalThis.fetch = original;
+	}
+});
+
+Deno.test("Router: control panel is served without a token", async () => {
+	initAPI(apiConfig());
+	const response = await handleAPIRequest(request("GET", "/"), "10.0.0.1");
+	assertEquals(response.status, 200);
+	assertEquals(response.headers.get("Content-Type"), "text/html; charset=utf-8");
+	assert(response.headers.get("Content-Security-Policy")?.includes("connect-src 'self'"));
+	assert((await response.text()).includes("/api/events"), "Panel uses the event stream");
+});
+
+Deno.test("Router: OpenAPI document covers every route", async () => {
+	initAPI(apiConfig());
+	const response = await handleAPIRequest(request("GET", "/api/openapi.json"), "10.0.0.1");
+	assertEquals(response.status, 200);
+	const doc = await response.json();
+
+	assertEquals(doc.openapi, "3.0.3");
+	for (const route of getRoutes()) {
+		assert(doc.paths[route.path]?.[route.method.toLowerCase()], `Missing ${route.method} ${route.path}`);
+	}
+
+	const putSchedule = doc.paths["/api/rotation/schedule"].put;
+	assertEquals(putSchedule["x-required-role"], "admin");
+	assertEquals(putSchedule.requestBody.content["application/json"].schema.required, ["schedule"]);
+	assert(putSchedule.responses["422"], "Body routes document validation errors");
+	assertEquals(doc.paths["/api/health"].get.security, [], "Public routes need no token");
+});
+
+Deno.test("Router: OpenAPI path parameters use braces", () => {
+	const router = new Router().add({ method: "GET", path: "/items/:id", summary: "item", handler: ok });
+	const doc = buildOpenApiDocument(router.routes) as { paths: Record<string, { get: { parameters: unknown[] } }> };
+	assertEquals(doc.paths["/items/{id}"].get.parameters, [
+		{ name: "id", in: "path", required: true, schema: { type: "string" } },
+	]);
+});
@@ -0,0 +1,90 @@
+/**
+ * Tests for named schedules and activation windows
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import {
+	getLocalTime,
+	isWindowActive,
+	parseTimeOfDay,
+	resolveSchedule,
+} from "../src/switcher/schedules.ts";
+import type { NamedSchedule } from "../src/switcher/types.ts";
+
+// 2024-01-15 is a Monday
+const mondayNoonUtc = new Date("2024-01-15T12:00:00Z");
+const mondayLateUtc = new Date("2024-01-15T22:30:00Z");
+const tuesdayEarlyUtc = new Date("2024-01-16T03:00:00Z");
+
+const schedules: NamedSchedule[] = [
+	{
+		name: "night",
+		items: [{ cameraId: 1, durationSeconds: 60 }, { cameraId: 2, durationSeconds: 60 }],
+		window: { startTime: "20:00", endTime: "06:00", timezone: "UTC" },
+	},
+	{
+		name: "daytime",
+		items: [
+			{ cameraId: 1, durationSeconds: 30 },
+			{ cameraId: 2, durationSeconds: 30 },
+			{ cameraId: 3, durationSeconds: 30 },
+			{ cameraId: 4, durationSeconds: 30 },
+		],
+		window: { startTime: "06:00", endTime: "20:00", weekdays: [1, 2, 3, 4, 5], timezone: "UTC" },
+	},
+];
+
+Deno.test("Schedules: parseTimeOfDay parses HH:MM", () => {
+	assertEquals(parseTimeOfDay("00:00"), 0);
+	assertEquals(parseTimeOfDay("6:30"), 390);
+	assertEquals(parseTimeOfDay("23:59"), 1439);
+	assertThrows(() => parseTimeOfDay("24:00"));
+	assertThrows(() => parseTimeOfDay("noon"));
+});
+
+Deno.test("Schedules: local time respects timezone", () => {
+	const utc = getLocalTime(mondayLateUtc, "UTC");
+	assertEquals(utc.date, "2024-01-15");
+	assertEquals(utc.weekday, 1);
+
+	// Tokyo is UTC+9, so 22:30 UTC Monday is 07:30 Tuesday
+	const tokyo = getLocalTime(mondayLateUtc, "Asia/Tokyo");
+	assertEquals(tokyo.date, "2024-01-16");
+	assertEquals(tokyo.weekday, 2);
+	assertEquals(tokyo.minutes, 7 * 60 + 30);
+});
+
+Deno.test("Schedules: time window boundaries", () => {
+	const window = { startTime: "06:00", endTime: "20:00", timezone: "UTC" };
+	assertEquals(isWindowActive(window, new Date("2024-01-15T06:00:00Z")), true, "Start is inclusive");
+	assertEquals(isWindowActive(window, new Date("2024-01-15T19:59:00Z")), true);
+	assertEquals(isWindowActive(window, new Date("2024-01-15T20:00:00Z")), false, "End is exclusive");
+});
+
+Deno.test("Schedules: window wrapping past midnight uses the start day", () => {
+	// Window runs Monday night only
+	const window = { startTime: "20:00", endTime: "06:00", weekdays: [1], timezone: "UTC" };
+	assertEquals(isWindowActive(window, mondayLateUtc), true, "Monday 22:30 is inside");
+	assertEquals(isWindowActive(window, tuesdayEarlyUtc), true, "Tuesday 03:00 belongs to Monday night");
+	assertEquals(isWindowActive(window, mondayNoonUtc), false, "Monday noon is outside");
+	assertEquals(isWindowActive(window, new Date("2024-01-15T03:00:00Z")), false, "Monday 03:00 belongs to Sunday night");
+});
+
+Deno.test("Schedules: date range is inclusive", () => {
+	const window = { startDate: "2024-01-15", endDate: "2024-01-16", timezone: "UTC" };
+	assertEquals(isWindowActive(window, mondayNoonUtc), true);
+	assertEquals(isWindowActive(window, new Date("2024-01-16T23:59:00Z")), true);
+	assertEquals(isWindowActive(window, new Date("2024-01-17T00:00:00Z")), false);
+});
+
+Deno.test("Schedules: first active schedule wins, default otherwise", () => {
+	const defaultSchedule = [{ cameraId: 9, durationSeconds: 10 }];
+
+	assertEquals(resolveSchedule(schedules, defaultSchedule, mondayNoonUtc).name, "daytime");
+	assertEquals(resolveSchedule(schedules, defaultSchedule, mondayLateUtc).name, "night");
+
+	// Saturday noon: daytime only runs on weekdays
+	const weekend = resolveSchedule(schedules, defaultSchedule, new Date("2024-01-20T12:00:00Z"));
+	assertEquals(weekend.name, null, "Default schedule should be used");
+	assertEquals(weekend.items, defaultSchedule);
+});
@@ -0,0 +1,91 @@
+/**
+ * Tests for API hardening helpers
+ */
+
+import { assertEquals, assertRejects } from "@std/assert";
+import {
+	AuthLockout,
+	BodyTooLargeError,
+	RateLimiter,
+	parseBearerToken,
+	readLimitedText,
+	timingSafeEqual,
+} from "../src/switcher/security.ts";
+
+Deno.test("Security: bearer tokens are parsed strictly", () => {
+	assertEquals(parseBearerToken("Bearer abc.DEF-123_~+/="), "abc.DEF-123_~+/=");
+	assertEquals(parseBearerToken("bearer abc"), "abc", "Scheme is case-insensitive");
+	assertEquals(parseBearerToken(null), null);
+	assertEquals(parseBearerToken("abc"), null, "Token without scheme is rejected");
+	assertEquals(parseBearerToken("Basic abc"), null);
+	assertEquals(parseBearerToken("Bearer "), null);
+	assertEquals(parseBearerToken("Bearer  abc"), null);
+	assertEquals(parseBearerToken("Bearer abc def"), null);
+	assertEquals(parseBearerToken("xBearer abc"), null);
+});
+
+Deno.test("Security: timing-safe comparison", () => {
+	assertEquals(timingSafeEqual("secret-token", "secret-token"), true);
+	assertEquals(timingSafeEqual("secret-tokeN", "secret-token"), false);
+	assertEquals(timingSafeEqual("secret", "secret-token"), false);
+	assertEquals(timingSafeEqual("secret-token-longer", "secret-token"), false);
+	assertEquals(timingSafeEqual("", "secret-token"), false);
+});
+
+Deno.test("Security: rate limiter allows a fixed number of requests per window", () => {
+	const limiter = new RateLimiter(3, 60);
+	const start = 1_000_000;
+
+	for (let i = 0; i < 3; i++) {
+		assertEquals(limiter.check("10.0.0.1", start).allowed, true);
+	}
+	assertEquals(limiter.check("10.0.0.1", start + 15_000), { allowed: false, retryAfterSeconds: 45 });
+	assertEquals(limiter.check("10.0.0.2", start + 15_000).allowed, true, "Other clients are unaffected");
+	assertEquals(limiter.check("10.0.0.1", start + 60_000).allowed, true, "A new window starts");
+
+	const disabled = new RateLimiter(0, 60);
+	for (let i = 0; i < 10; i++) {
+		assertEquals(disabled.check("10.0.0.1", start).allowed, true);
+	}
+});
+
+Deno.test("Security: repeated auth failures lock a client out temporarily", () => {
+	const lockout = new AuthLockout(3, 300);
+	const start = 1_000_000;
+
+	assertEquals(lockout.recordFailure("10.0.0.1", start), false);
+	assertEquals(lockout.recordFailure("10.0.0.1", start + 1000), false);
+	assertEquals(lockout.check("10.0.0.1", start + 1000).allowed, true);
+	assertEquals(lockout.recordFailure("10.0.0.1", start + 2000), true, "Third failure locks out");
+
+	assertEquals(lockout.check("10.0.0.1", start + 62_000), { allowed: false, retryAfterSeconds: 240 });
+	assertEquals(lockout.check("10.0.0.2", start + 62_000).allowed, true);
+	assertEquals(lockout.check("10.0.0.1", start + 302_000).allowed, true, "Lockout expires");
+});
+
+Deno.test("Security: successful auth resets the failure count", () => {
+	const lockout = new AuthLockout(2, 300);
+	lockout.recordFailure("10.0.0.1", 0);
+	lockout.recordSuccess("10.0.0.1");
+	assertEquals(lockout.recordFailure("10.0.0.1", 1000), false);
+});
+
+Deno.test("Security: request bodies are limited", async () => {
+	const small = new Request("http://localhost/", { method: "PUT", body: '{"id": 1}' });
+	assertEquals(await readLimitedText(small, 100), '{"id": 1}');
+
+	const large = new Request("http://localhost/", { method: "PUT", body: "x".repeat(200) });
+	await assertRejects(() => readLimitedText(large, 100), BodyTooLargeError);
+
+	// Streamed bodies have no Content-Length and are cut off while reading
+	const stream = new ReadableStream<Uint8Array>({
+		start(controller) {
+			for (let i = 0; i < 5; i++) {
+				controller.enqueue(new TextEncoder().encode("x".repeat(50)));
+			}
+			controller.close();
+		},
+	});
+	const streamed = new Request("http://localhost/", { method: "PUT", body: stream });
+	await assertRejects(() => readLimitedText(streamed, 100), BodyTooLargeError);
+});
@@ -0,0 +1,86 @@
+/**
+ * Tests for the graceful shutdown coordinator
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+	initShutdown,
+	isShuttingDown,
+	onShutdown,
+	resetShutdown,
+	shutdown,
+	trackOperation,
+	waitForPendingOperations,
+} from "../src/switcher/shutdown.ts";
+import { testConfig } from "./helpers.ts";
+
+function delay(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test("Shutdown: steps run once, in order", async () => {
+	resetShutdown();
+	const ran: string[] = [];
+	onShutdown("first", () => {
+		ran.push("first");
+	});
+	onShutdown("second", async () => {
+		await delay(1);
+		ran.push("second");
+	});
+
+	assertEquals(isShuttingDown(), false);
+	const [a, b] = await Promise.all([shutdown("SIGTERM"), shutdown("SIGINT")]);
+	assertEquals([a, b], [true, true]);
+	assertEquals(ran, ["first", "second"]);
+	assertEquals(isShuttingDown(), true);
+	resetShutdown();
+});
+
+Deno.test("Shutdown: waits for tracked operations, including ones started meanwhile", async () => {
+	resetShutdown();
+	const finished: string[] = [];
+	trackOperation(delay(5).then(() => {
+		finished.push("write");
+		trackOperation(delay(5).then(() => finished.push("follow-up")));
+	}));
+	onShutdown("pending operations", waitForPendingOperations);
+	onShutdown("exit", () => {
+		finished.push("exit");
+	});
+
+	assertEquals(await shutdown("SIGTERM"), true);
+	assertEquals(finished, ["write", "follow-up", "exit"]);
+	resetShutdown();
+});
+
+Deno.test("Shutdown: a failing step does not stop the rest", async () => {
+	resetShutdown();
+	const ran: string[] = [];
+	onShutdown("broken", () => {
+		throw new Error("boom");
+	});
+	onShutdown("next", () => {
+		ran.push("next");
+	});
+
+	assertEquals(await shutdown("SIGINT"), true);
+	assertEquals(ran, ["next"]);
+	resetShutdown();
+});
+
+Deno.test("Shutdown: the deadline bounds slow steps", async () => {
+	resetShutdown();
+	initShutdown(testConfig({ shutdownTimeout: 0.02 }));
+	const ran: string[] = [];
+	let release = () => {};
+	onShutdown("stuck", () => new Promise<void>((resolve) => release = resolve));
+	onShutdown("after", () => {
+		ran.push("after");
+	});
+
+	assertEquals(await shutdown("SIGTERM"), false);
+	assertEquals(ran, [], "Steps after the deadline are skipped");
+	release();
+	resetShutdown();
+});
@@ -0,0 +1,77 @@
+/**
+ * Tests for source list diffing and change events
+ */
+
+import { assertEquals } from "@std/assert";
+import { diffSources, sourceEvents } from "../src/switcher/sources.ts";
+import { isSourceHealthy } from "../src/switcher/sourcelist.ts";
+import type { Source } from "../src/switcher/types.ts";
+
+const baseSources: Source[] = [
+	{ id: 1, name: "Source 1", source_type: "srt", enabled: true, is_healthy: true },
+	{ id: 2, name: "Source 2", source_type: "srt", enabled: true, is_healthy: true },
+];
+
+Deno.test("Sources: identical lists produce no changes", () => {
+	const diff = diffSources(baseSources, baseSources.map((s) => ({ ...s })));
+
+	assertEquals(diff.added.length, 0, "Nothing should be added");
+	assertEquals(diff.removed.length, 0, "Nothing should be removed");
+	assertEquals(diff.healthChanged.length, 0, "No health changes expected");
+});
+
+Deno.test("Sources: added and removed sources are detected", () => {
+	const newSources: Source[] = [
+		baseSources[0],
+		{ id: 3, name: "Source 3", source_type: "srt", enabled: true, is_healthy: true },
+	];
+
+	const diff = diffSources(baseSources, newSources);
+
+	assertEquals(diff.added.map((s) => s.id), [3], "Source 3 should be added");
+	assertEquals(diff.removed.map((s) => s.id), [2], "Source 2 should be removed");
+});
+
+Deno.test("Sources: health changes are detected", () => {
+	const newSources: Source[] = [
+		{ ...baseSources[0], is_healthy: false },
+		baseSources[1],
+	];
+
+	const diff = diffSources(baseSources, newSources);
+
+	assertEquals(diff.healthChanged.length, 1, "One health change expected");
+	assertEquals(diff.healthChanged[0].source.id, 1, "Source 1 changed health");
+	assertEquals(diff.healthChanged[0].previous?.is_healthy, true, "Previous health should be kept");
+});
+
+Deno.test("Sources: missing is_healthy is treated as healthy", () => {
+	const unknown: Source = { id: 1, source_type: "srt", enabled: true };
+
+	assertEquals(isSourceHealthy(unknown), true);
+	assertEquals(isSourceHealthy({ ...unknown, is_healthy: false }), false);
+	assertEquals(
+		diffSources([unknown], [{ ...unknown, is_healthy: true }]).healthChanged.length,
+		0,
+		"undefined and true should be equivalent"
+	);
+	assertEquals(
+		diffSources([unknown], [{ ...unknown, is_healthy: false }]).healthChanged.length,
+		1,
+		"Reporting is_healthy: false should be a health change"
+	);
+});
+
+Deno.test("Sources: events deliver the changed source", () => {
+	const received: number[] = [];
+	const listener = ({ source }: { source: Source }) => {
+		received.push(source.id);
+	};
+
+	sourceEvents.on("sourceAdded", listener);
+	sourceEvents.emit("sourceAdded", { source: baseSources[1] });
+	sourceEvents.off("sourceAdded", listener);
+	sourceEvents.emit("sourceAdded", { source: baseSources[0] });
+
+	assertEquals(received, [2], "Only events emitted while subscribed should be received");
+});
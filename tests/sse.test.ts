@@ -0,0 +1,70 @@
+/**
+ * Tests for the Server-Sent Events stream
+ */
+
+import { assertEquals, assert } from "@std/assert";
+import { createEventStream, getEventsSince, initEventStream, publishEvent } from "../src/switcher/sse.ts";
+import { state, stateEvents, saveState, setStateStore } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
+import { switchEvents } from "../src/switcher/pipeline.ts";
+
+// Keep test state off disk
+setStateStore(new MemoryStateStore());
+
+async function readChunk(reader: ReadableStreamDefaultReader<Uint8Array>): Promise<string> {
+	const { value } = await reader.read();
+	return new TextDecoder().decode(value);
+}
+
+Deno.test("SSE: published events get increasing IDs", () => {
+	const before = getEventsSince(0).length;
+	publishEvent("test", { n: 1 });
+	publishEvent("test", { n: 2 });
+
+	const events = getEventsSince(0);
+	assertEquals(events.length, before + 2, "Both events should be buffered");
+	assert(events[events.length - 1].id > events[events.length - 2].id, "IDs should increase");
+	assertEquals(events[events.length - 1].data, { n: 2 }, "Payload should round-trip");
+});
+
+Deno.test("SSE: stateChanged and switch events are forwarded", async () => {
+	stateEvents.removeAllListeners();
+	initEventStream();
+	const lastId = getEventsSince(0).at(-1)?.id ?? 0;
+
+	state.rotationEnabled = true;
+	await saveState();
+	switchEvents.emit("switched", { sourceId: 2, sourceName: "Source 2", timestamp: new Date().toISOString(), reason: "rotation" });
+
+	const events = getEventsSince(lastId);
+	assertEquals(events.map((e) => e.event), ["stateChanged", "switched"], "Events should be forwarded in order");
+
+	stateEvents.removeAllListeners();
+	state.rotationEnabled = false;
+});
+
+Deno.test("SSE: Last-Event-ID replays newer events only", async () => {
+	publishEvent("test", { n: "old" });
+	const lastId = getEventsSince(0).at(-1)!.id;
+	publishEvent("test", { n: "new" });
+
+	const response = createEventStream(lastId);
+	assertEquals(response.headers.get("Content-Type"), "text/event-stream");
+
+	const reader = response.body!.getReader();
+	const chunk = await readChunk(reader);
+	await reader.cancel();
+
+	assert(chunk.includes(`id: ${lastId + 1}`), "Newer event should be replayed");
+	assert(chunk.includes(`"new"`), "Replayed payload should be included");
+	assert(!chunk.includes(`"old"`), "Already-seen event should not be replayed");
+});
+
+Deno.test("SSE: new clients receive a state snapshot", async () => {
+	const response = createEventStream(null);
+	const reader = response.body!.getReader();
+	const chunk = await readChunk(reader);
+	await reader.cancel();
+
+	assert(chunk.startsWith("event: state\n"), "First event should be the state snapshot");
+});
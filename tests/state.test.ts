@@ -2,8 +2,13 @@
  * Tests for state management and event emission
  */
 
-import { assertEquals, assert } from "@std/assert";
-import { state, stateEvents, saveState } from "../src/switcher/state.ts";
+import { assertEquals, assert, assertRejects, assertThrows } from "@std/assert";
+import { state, stateEvents, loadState, saveState, setStateStore } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
+import { CURRENT_SCHEMA_VERSION, StateVersionError, migrateState } from "../src/switcher/migrations.ts";
+
+// Keep test state off disk
+setStateStore(new MemoryStateStore());
 
 // Reset state before each test
 function resetState() {
@@ -130,3 +135,109 @@ Deno.test("State: listeners can be removed", async () => {
 	assertEquals(eventCount, 1, "Listener should NOT receive event after removal");
 });
 
+async function loadFixture(name: string): Promise<Record<string, unknown>> {
+	const url = new URL(`./fixtures/${name}`, import.meta.url);
+	return JSON.parse(await Deno.readTextFile(url));
+}
+
+Deno.test("State: unversioned (v1) state is migrated to the current schema", async () => {
+	resetState();
+	const fixture = await loadFixture("state-v1.json");
+	const { data, fromVersion, applied } = migrateState(fixture);
+
+	assertEquals(fromVersion, 1, "State without schemaVersion should be treated as v1");
+	assertEquals(applied.length, CURRENT_SCHEMA_VERSION - 1);
+	assertEquals(data.schemaVersion, CURRENT_SCHEMA_VERSION);
+	assertEquals(data.rotationMode, "sequential");
+	assertEquals(data.schedules, []);
+	assertEquals(data.failover, undefined, "Stale failover should be dropped");
+	assertEquals(data.rotationSchedule, fixture.rotationSchedule, "Existing fields should be kept");
+});
+
+Deno.test("State: loadState upgrades and re-saves an older state file", async () => {
+	resetState();
+	const store = new MemoryStateStore(await loadFixture("state-v1.json"));
+	setStateStore(store);
+	try {
+		await loadState();
+		assertEquals(state.selectedCameraIds, [1, 2]);
+		assertEquals(state.currentSourceId, 2);
+
+		const saved = await store.load();
+		assertEquals(saved?.schemaVersion, CURRENT_SCHEMA_VERSION, "Migrated state should be written back");
+	} finally {
+		setStateStore(new MemoryStateStore());
+	}
+});
+
+Deno.test("State: v2 state gains unmanaged overlay settings", async () => {
+	resetState();
+	const fixture = await loadFixture("state-v2.json");
+	const { data, fromVersion } = migrateState(fixture);
+
+	assertEquals(fromVersion, 2);
+	assertEquals(data.overlay, { url: null, visible: null, pinned: false });
+	assertEquals(data.rotationMode, "shuffle", "Existing fields should be kept");
+});
+
+Deno.test("State: v3 overlay settings are kept, unpinned and without bindings", async () => {
+	resetState();
+	const fixture = await loadFixture("state-v3.json");
+	const { data, fromVersion } = migrateState(fixture);
+
+	assertEquals(fromVersion, 3);
+	assertEquals(data.overlay, { url: "https://overlay.example.com/summit", visible: true, pinned: false });
+	assertEquals(data.overlayBindings, []);
+	assertEquals(data.overlayDefault, null);
+});
+
+Deno.test("State: v4 state gains a disabled, empty overlay playlist", async () => {
+	resetState();
+	const fixture = await loadFixture("state-v4.json");
+	const { data, fromVersion } = migrateState(fixture);
+
+	assertEquals(fromVersion, 4);
+	assertEquals(data.overlayPlaylist, { enabled: false, entries: [] });
+	assertEquals(data.overlayPlaylistIndex, null);
+	assertEquals(data.overlayBindings, fixture.overlayBindings, "Existing fields should be kept");
+});
+
+Deno.test("State: current-version state loads unchanged", async () => {
+	resetState();
+	const fixture = await loadFixture("state-v5.json");
+	const { data, applied } = migrateState(fixture);
+
+	assertEquals(applied, []);
+	assertEquals(data, fixture);
+});
+
+Deno.test("State: state from a newer version is refused", async () => {
+	resetState();
+	const fixture = await loadFixture("state-future.json");
+	assertThrows(() => migrateState(fixture), StateVersionError, "schema version 99");
+
+	const store = new MemoryStateStore(fixture);
+	setStateStore(store);
+	try {
+		await assertRejects(() => loadState(), StateVersionError);
+		assertEquals((await store.load())?.schemaVersion, 99, "Newer state must not be overwritten");
+	} finally {
+		setStateStore(new MemoryStateStore());
+	}
+});
+
+Deno.test("State: invalid schemaVersion is rejected", async () => {
+	resetState();
+	assertThrows(() => migrateState({ schemaVersion: "2" }), Error, "invalid schemaVersion");
+
+	const saved: Record<string, unknown> = { schemaVersion: "2", rotationEnabled: true };
+	const store = new MemoryStateStore(saved);
+	setStateStore(store);
+	try {
+		await assertRejects(() => loadState(), Error, "invalid schemaVersion");
+		assertEquals(state.rotationEnabled, false, "Nothing should be loaded");
+		assertEquals((await store.load())?.schemaVersion, "2", "Invalid state must not be overwritten");
+	} finally {
+		setStateStore(new MemoryStateStore());
+	}
+});
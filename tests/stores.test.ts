@@ -0,0 +1,97 @@
+/**
+ * Tests for state storage backends
+ */
+
+import { assertEquals, assert, assertRejects } from "@std/assert";
+import { FileStateStore, MemoryStateStore } from "../src/switcher/stores.ts";
+import { state, loadState, saveState, setStateStore } from "../src/switcher/state.ts";
+import type { SwitcherState } from "../src/switcher/types.ts";
+
+function makeState(overrides: Partial<SwitcherState> = {}): SwitcherState {
+	return { ...state, ...overrides };
+}
+
+async function exists(path: string): Promise<boolean> {
+	try {
+		await Deno.stat(path);
+		return true;
+	} catch (_error) {
+		return false;
+	}
+}
+
+Deno.test("Stores: file store round-trips state and creates the data directory", async () => {
+	const dir = await Deno.makeTempDir();
+	try {
+		const store = new FileStateStore(`${dir}/nested/data`);
+		assertEquals(await store.load(), null, "Empty store should load null");
+
+		await store.save(makeState({ rotationEnabled: true, selectedCameraIds: [1, 2] }));
+		const loaded = await store.load();
+
+		assertEquals(loaded?.rotationEnabled, true);
+		assertEquals(loaded?.selectedCameraIds, [1, 2]);
+		assert(!await exists(`${dir}/nested/data/state.json.tmp`), "Temporary file should be renamed away");
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("Stores: file store keeps a backup and recovers from a corrupt file", async () => {
+	const dir = await Deno.makeTempDir();
+	try {
+		const store = new FileStateStore(dir);
+		await store.save(makeState({ fixedSourceId: 1 }));
+		await store.save(makeState({ fixedSourceId: 2 }));
+
+		const backup = JSON.parse(await Deno.readTextFile(`${dir}/state.json.bak`));
+		assertEquals(backup.fixedSourceId, 1, "Backup should hold the previous state");
+
+		// Simulate a torn write
+		await Deno.writeTextFile(`${dir}/state.json`, '{"fixedSourceId": 2, "rotati');
+		const loaded = await store.load();
+		assertEquals(loaded?.fixedSourceId, 1, "Backup should be used when state.json is corrupt");
+
+		await Deno.remove(`${dir}/state.json.bak`);
+		await assertRejects(() => store.load(), SyntaxError);
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("Stores: concurrent file saves do not collide", async () => {
+	const dir = await Deno.makeTempDir();
+	try {
+		const store = new FileStateStore(dir);
+		await Promise.all(
+			[1, 2, 3, 4, 5].map((id) => store.save(makeState({ currentSourceId: id })))
+		);
+		const loaded = await store.load();
+		assertEquals(loaded?.currentSourceId, 5, "Last save should win");
+	} finally {
+		await Deno.remove(dir, { recursive: true });
+	}
+});
+
+Deno.test("Stores: memory store returns copies", async () => {
+	const store = new MemoryStateStore();
+	const saved = makeState({ selectedCameraIds: [1] });
+	await store.save(saved);
+	saved.selectedCameraIds.push(2);
+
+	const loaded = await store.load();
+	assertEquals(loaded?.selectedCameraIds, [1], "Later mutations should not leak into the store");
+});
+
+Deno.test("Stores: loadState and saveState use the configured store", async () => {
+	const store = new MemoryStateStore({ rotationMode: "shuffle", selectedCameraIds: [4] });
+	setStateStore(store);
+
+	await loadState();
+	assertEquals(state.rotationMode, "shuffle");
+	assertEquals(state.selectedCameraIds, [4]);
+
+	state.rotationMode = "weighted";
+	await saveState(false);
+	assertEquals((await store.load())?.rotationMode, "weighted");
+});
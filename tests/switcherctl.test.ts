@@ -0,0 +1,199 @@
+/**
+ * Tests for the switcherctl CLI: profile selection, schedule editing and the API client
+ */
+
+import { assertEquals, assertThrows } from "@std/assert";
+import type { CtlConfig } from "../src/switcherctl/profiles.ts";
+import { parseCtlConfig, resolveInstance } from "../src/switcherctl/profiles.ts";
+import {
+	addScheduleItem,
+	moveScheduleItem,
+	parsePosition,
+	parseScheduleItem,
+	removeScheduleItem,
+} from "../src/switcherctl/schedule.ts";
+import type { ServerEvent } from "../src/switcherctl/client.ts";
+import { SwitcherApiError, apiRequest, parseEventStream } from "../src/switcherctl/client.ts";
+import { configureLogging } from "../src/logger.ts";
+import { run } from "../switcherctl.ts";
+
+const config: CtlConfig = {
+	default: "summit",
+	profiles: {
+		summit: { url: "http://summit.local:3000/", token: "summit-token" },
+		valley: { url: "http://valley.local:3000", tokenEnv: "VALLEY_TOKEN" },
+	},
+};
+
+const env = (name: string) => (name === "VALLEY_TOKEN" ? "valley-token" : undefined);
+
+const instance = { name: null, url: "http://switcher", token: "token-0123456789" };
+
+/**
+ * The SwitcherApiError a call fails with
+ */
+async function apiError(promise: Promise<unknown>): Promise<SwitcherApiError> {
+	try {
+		await promise;
+	} catch (error) {
+		if (error instanceof SwitcherApiError) {
+			return error;
+		}
+		throw error;
+	}
+	throw new Error("Expected a SwitcherApiError");
+}
+
+Deno.test("switcherctl: the chosen profile wins over the environment, which overrides the default", () => {
+	const selection = { envUrl: "http://env:3000", envToken: "env-token" };
+
+	assertEquals(
+		resolveInstance(config, {}, env),
+		{ name: "summit", url: "http://summit.local:3000", token: "summit-token" }
+	);
+	assertEquals(resolveInstance(config, selection, env), { name: "summit", url: "http://env:3000", token: "env-token" });
+	assertEquals(
+		resolveInstance(config, { ...selection, profile: "valley" }, env),
+		{ name: "valley", url: "http://valley.local:3000", token: "valley-token" },
+		"tokenEnv should be read for the chosen profile"
+	);
+	assertEquals(
+		resolveInstance(config, { ...selection, profile: "valley", url: "http://flag:3000" }, env).url,
+		"http://flag:3000"
+	);
+	assertEquals(
+		resolveInstance({ profiles: {} }, { envToken: "env-token" }, env),
+		{ name: null, url: "http://localhost:3000", token: "env-token" }
+	);
+});
+
+Deno.test("switcherctl: unknown profiles, missing tokens and malformed config files are refused", () => {
+	assertThrows(
+		() => resolveInstance(config, { profile: "peak" }, env),
+		Error,
+		'Unknown profile "peak" (known: summit, valley)'
+	);
+	assertThrows(() => resolveInstance(config, { profile: "valley" }, () => undefined), Error, "No API token");
+	assertThrows(() => resolveInstance({ profiles: {} }, {}, env), Error, "No API token");
+
+	assertThrows(() => parseCtlConfig("{", "ctl.json"), Error, "not valid JSON");
+	assertThrows(() => parseCtlConfig("{}", "ctl.json"), Error, '"profiles" object');
+	assertThrows(() => parseCtlConfig('{"profiles": {"a": {"url": 1}}}', "ctl.json"), Error, "profiles.a.url");
+	assertThrows(() => parseCtlConfig('{"default": "b", "profiles": {}}', "ctl.json"), Error, '"b" is not defined');
+	assertEquals(parseCtlConfig(JSON.stringify(config), "ctl.json"), config);
+});
+
+Deno.test("switcherctl: schedule items are edited by 1-based position", () => {
+	const schedule = ["1:60", "2:30", "3:90"].map(parseScheduleItem);
+	schedule[1].weight = 2;
+
+	assertEquals(schedule[0], { cameraId: 1, durationSeconds: 60 });
+	assertEquals(addScheduleItem(schedule, { cameraId: 4, durationSeconds: 10 }).map((i) => i.cameraId), [1, 2, 3, 4]);
+	assertEquals(addScheduleItem(schedule, { cameraId: 4, durationSeconds: 10 }, 1).map((i) => i.cameraId), [4, 1, 2, 3]);
+	assertEquals(removeScheduleItem(schedule, 2).map((i) => i.cameraId), [1, 3]);
+	assertEquals(moveScheduleItem(schedule, 3, 1).map((i) => i.cameraId), [3, 1, 2]);
+	assertEquals(
+		moveScheduleItem(schedule, 2, 3)[2],
+		{ cameraId: 2, durationSeconds: 30, weight: 2 },
+		"Optional fields are kept"
+	);
+	assertEquals(schedule.map((i) => i.cameraId), [1, 2, 3], "Edits should not change the original");
+
+	assertEquals(parsePosition("4", 3, true), 4);
+	assertThrows(() => parsePosition("4", 3), Error, "(1-3)");
+	assertThrows(() => parsePosition("1.5", 3), Error, "whole number");
+	assertThrows(() => parsePosition("1", 0), Error, "the schedule is empty");
+	assertThrows(() => parseScheduleItem("1=60"), Error, "CAMERA_ID:SECONDS");
+});
+
+Deno.test("switcherctl: event streams are parsed across chunk boundaries", async () => {
+	async function* chunks(): AsyncGenerator<string> {
+		yield 'event: state\ndata: {"currentSourceId":1}\n\n: keepalive\n\nid: 7\nevent: swi';
+		yield 'tched\ndata: {"sourceId":2}\n';
+		yield "\nid: 8\r\nevent: note\r\ndata: plain text\r\n\r\n";
+	}
+
+	const events: ServerEvent[] = [];
+	for await (const event of parseEventStream(chunks())) {
+		events.push(event);
+	}
+	assertEquals(events, [
+		{ id: null, event: "state", data: { currentSourceId: 1 } },
+		{ id: 7, event: "switched", data: { sourceId: 2 } },
+		{ id: 8, event: "note", data: "plain text" },
+	]);
+});
+
+Deno.test("switcherctl: API failures are classified for exit codes", async () => {
+	const original = globalThis.fetch;
+	let response = () => Response.json({ error: "Forbidden" }, { status: 403 });
+	let seen: Request | null = null;
+	globalThis.fetch = ((input: RequestInfo | URL, init?: RequestInit) => {
+		seen = new Request(input, init);
+		return Promise.resolve(response());
+	}) as typeof fetch;
+	try {
+		const forbidden = await apiError(apiRequest(instance, "PUT", "/api/state", { rotationEnabled: true }));
+		assertEquals([forbidden.kind, forbidden.status, forbidden.message], ["unauthorized", 403, "Forbidden"]);
+		assertEquals(seen!.headers.get("Authorization"), "Bearer token-0123456789");
+		assertEquals(seen!.headers.get("Content-Type"), "application/json");
+
+		response = () =>
+			Response.json({
+				error: "Validation failed",
+				details: [{ path: "$.id", message: "unknown source ID 9" }],
+			}, { status: 422 });
+		const invalid = await apiError(apiRequest(instance, "PUT", "/api/source/active", { id: 9 }));
+		assertEquals(invalid.kind, "rejected");
+		assertEquals(invalid.message, "Validation failed\n   $.id: unknown source ID 9");
+
+		response = () => Response.json({ error: "Failed to switch source", detail: "pipeline down" }, { status: 500 });
+		const failed = await apiError(apiRequest(instance, "PUT", "/api/source/active", { id: 1 }));
+		assertEquals([failed.kind, failed.message], ["server", "Failed to switch source: pipeline down"]);
+
+		response = () => Response.json({ success: true });
+		assertEquals(await apiRequest(instance, "GET", "/api/state"), { success: true });
+	} finally {
+		globalThis.fetch = original;
+	}
+
+	globalThis.fetch = () => Promise.reject(new TypeError("connection refused"));
+	try {
+		assertEquals((await apiError(apiRequest(instance, "GET", "/api/state"))).kind, "unreachable");
+	} finally {
+		globalThis.fetch = original;
+	}
+});
+
+Deno.test("switcherctl: usage errors are printed as JSON with --json", async () => {
+	const output: string[] = [];
+	const original = console.log;
+	console.log = (line: string) => output.push(line);
+	const env: Record<string, string> = {
+		SWITCHERCTL_CONFIG: "/nonexistent/switcherctl.json",
+		SWITCHER_TOKEN: "token-0123456789",
+	};
+	const cli = (argv: string[]) => run(argv, { logLevel: "error", logFormat: "text" }, (name) => env[name]);
+	try {
+		assertEquals(await cli(["--json", "frobnicate"]), 1);
+		assertEquals(JSON.parse(output.pop()!), {
+			command: "frobnicate",
+			ok: false,
+			exitCode: 1,
+			error: { kind: "usage", message: "Unknown command 'frobnicate'", status: null },
+		});
+
+		assertEquals(await cli(["--json", "--url"]), 1);
+		assertEquals(JSON.parse(output.pop()!).error.message, "--url needs a value");
+
+		assertEquals(await cli(["--json", "--url", "http://switcher", "rotation", "maybe"]), 1, "Checked inside the command");
+		const rotation = JSON.parse(output.pop()!);
+		assertEquals([rotation.command, rotation.error.message], ["rotation maybe", "rotation takes on or off"]);
+
+		assertEquals(await cli([]), 1);
+		assertEquals(output.join("").includes("Usage:"), true, "Without --json the usage is printed");
+	} finally {
+		console.log = original;
+		configureLogging({ logLevel: "info", logFormat: "text" });
+	}
+});
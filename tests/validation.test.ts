@@ -0,0 +1,142 @@
+/**
+ * Tests for request body validation
+ */
+
+import { assertEquals } from "@std/assert";
+import {
+	validateRequestBody,
+	validateSchema,
+	setScheduleSchema,
+	setSchedulesSchema,
+	stateUpdateSchema,
+	switchSourceSchema,
+} from "../src/switcher/validation.ts";
+
+Deno.test("Validation: valid state update passes", () => {
+	const issues = validateSchema(stateUpdateSchema, {
+		rotationEnabled: true,
+		rotationMode: "shuffle",
+		fixedSourceId: null,
+		selectedCameraIds: [1, 2],
+		rotationSchedule: [{ cameraId: 1, durationSeconds: 60 }],
+	});
+	assertEquals(issues, [], "No issues expected");
+});
+
+Deno.test("Validation: wrong types are reported with JSON paths", () => {
+	const issues = validateSchema(stateUpdateSchema, {
+		rotationSchedule: [{ cameraId: "x" }],
+	});
+	assertEquals(issues, [
+		{ path: "$.rotationSchedule[0].durationSeconds", message: "is required" },
+		{ path: "$.rotationSchedule[0].cameraId", message: "must be integer, got string" },
+	]);
+});
+
+Deno.test("Validation: zero, negative and absurd durations are rejected", () => {
+	const issues = validateSchema(setScheduleSchema, {
+		schedule: [
+			{ cameraId: 1, durationSeconds: 0 },
+			{ cameraId: 2, durationSeconds: -5 },
+			{ cameraId: 3, durationSeconds: 1e9 },
+			{ cameraId: 4, durationSeconds: 30 },
+		],
+	});
+	assertEquals(issues.map((i) => i.path), [
+		"$.schedule[0].durationSeconds",
+		"$.schedule[1].durationSeconds",
+		"$.schedule[2].durationSeconds",
+	]);
+});
+
+Deno.test("Validation: unknown fields are rejected", () => {
+	const issues = validateSchema(stateUpdateSchema, { rotationEnabled: true, currentSourceId: 3 });
+	assertEquals(issues, [{ path: "$.currentSourceId", message: "is not a known field" }]);
+});
+
+Deno.test("Validation: fields named after Object.prototype members are unknown fields", () => {
+	const body = JSON.parse('{"toString": 1, "constructor": {}, "hasOwnProperty": "x", "__proto__": null}');
+	const issues = validateSchema(stateUpdateSchema, body);
+	assertEquals(issues, [
+		{ path: "$.toString", message: "is not a known field" },
+		{ path: "$.constructor", message: "is not a known field" },
+		{ path: "$.hasOwnProperty", message: "is not a known field" },
+		{ path: "$.__proto__", message: "is not a known field" },
+	]);
+});
+
+Deno.test("Validation: a duration range with min above max is rejected", () => {
+	const issues = validateSchema(setScheduleSchema, {
+		schedule: [
+			{ cameraId: 1, durationSeconds: 60, minDurationSeconds: 90, maxDurationSeconds: 30 },
+			{ cameraId: 2, durationSeconds: 60, minDurationSeconds: 30, maxDurationSeconds: 30 },
+		],
+	});
+	assertEquals(issues, [
+		{ path: "$.schedule[0].minDurationSeconds", message: "must not be greater than maxDurationSeconds" },
+	]);
+});
+
+Deno.test("Validation: non-object bodies are rejected", () => {
+	assertEquals(validateSchema(switchSourceSchema, [1]), [{ path: "$", message: "must be object, got array" }]);
+	assertEquals(validateSchema(switchSourceSchema, null), [{ path: "$", message: "must be object, got null" }]);
+});
+
+Deno.test("Validation: schedule windows are checked", () => {
+	const issues = validateSchema(setSchedulesSchema, {
+		schedules: [
+			{
+				name: "night",
+				items: [{ cameraId: 1, durationSeconds: 60 }],
+				window: { startTime: "25:00", weekdays: [7], timezone: "Mars/Olympus" },
+			},
+		],
+	});
+	assertEquals(issues.map((i) => i.path), [
+		"$.schedules[0].window.startTime",
+		"$.schedules[0].window.weekdays[0]",
+		"$.schedules[0].window.timezone",
+	]);
+});
+
+Deno.test("Validation: source IDs must exist in the pipeline unless it is unreachable", async () => {
+	const original = globalThis.fetch;
+	let pipelineCalls = 0;
+	globalThis.fetch = () => {
+		pipelineCalls++;
+		return Promise.resolve(Response.json({
+			sources: [1, 2].map((id) => ({ id, name: `Cam ${id}`, source_type: "srt", enabled: true })),
+		}));
+	};
+	try {
+		assertEquals(
+			await validateRequestBody(stateUpdateSchema, { fixedSourceId: 3, selectedCameraIds: [1, 9] }, "http://pipeline"),
+			[
+				{ path: "$.fixedSourceId", message: "unknown source ID 3" },
+				{ path: "$.selectedCameraIds[1]", message: "unknown source ID 9" },
+			]
+		);
+		assertEquals(
+			await validateRequestBody(setScheduleSchema, { schedule: [{ cameraId: 2, durationSeconds: 60 }] }, "http://pipeline"),
+			[]
+		);
+		assertEquals(pipelineCalls, 2);
+
+		const invalid = await validateRequestBody(stateUpdateSchema, { fixedSourceId: 9, rotationEnabled: 1 }, "http://pipeline");
+		assertEquals(invalid.map((i) => i.path), ["$.rotationEnabled"]);
+		assertEquals(pipelineCalls, 2, "Bodies with schema errors are not checked against the pipeline");
+	} finally {
+		globalThis.fetch = original;
+	}
+
+	globalThis.fetch = () => Promise.reject(new TypeError("connection refused"));
+	try {
+		assertEquals(
+			await validateRequestBody(stateUpdateSchema, { fixedSourceId: 9 }, "http://pipeline"),
+			[],
+			"IDs are accepted when the pipeline cannot be asked"
+		);
+	} finally {
+		globalThis.fetch = original;
+	}
+});
@@ -0,0 +1,216 @@
+/**
+ * Tests for the WebSocket control channel
+ */
+
+import { assertEquals } from "@std/assert";
+import { handleAPIRequest, initAPI } from "../src/switcher/api.ts";
+import { closeWebSockets, initWebSocket } from "../src/switcher/ws.ts";
+import { setStateStore, state } from "../src/switcher/state.ts";
+import { MemoryStateStore } from "../src/switcher/stores.ts";
+import type { Config } from "../src/switcher/config.ts";
+import { testConfig } from "./helpers.ts";
+
+const READ_TOKEN = "read-token-0123456789";
+const ADMIN_TOKEN = "admin-token-0123456789";
+
+const config = testConfig({
+	apiTokens: [
+		{ label: "viewer", token: READ_TOKEN, role: "read" },
+		{ label: "automation", token: ADMIN_TOKEN, role: "admin" },
+	],
+	authMaxFailures: 2,
+});
+
+type Message = Record<string, unknown>;
+
+interface TestClient {
+	socket: WebSocket;
+	next(): Promise<Message>; // Next message received
+	closed: Promise<number>; // Close code
+}
+
+/**
+ * Open a WebSocket and queue the messages it receives
+ */
+function connect(url: string, headers?: Record<string, string>): Promise<TestClient> {
+	const socket = new WebSocket(url, headers ? { headers } : undefined);
+	const received: Message[] = [];
+	const waiting: Array<(message: Message) => void> = [];
+	socket.onmessage = (event) => {
+		const message = JSON.parse(event.data) as Message;
+		const resolve = waiting.shift();
+		if (resolve) {
+			resolve(message);
+		} else {
+			received.push(message);
+		}
+	};
+	const closed = new Promise<number>((resolve) => socket.addEventListener("close", (event) => resolve(event.code)));
+	const next = () =>
+		received.length > 0 ? Promise.resolve(received.shift()!) : new Promise<Message>((resolve) => waiting.push(resolve));
+	return new Promise((resolve, reject) => {
+		socket.onopen = () => resolve({ socket, next, closed });
+		socket.onerror = () => reject(new Error(`Could not connect to ${url}`));
+	});
+}
+
+/**
+ * Run a test against an API server on a free port
+ */
+async function withServer(
+	fn: (host: string, clients: TestClient[]) => Promise<void>,
+	overrides: Partial<Config> = {}
+): Promise<void> {
+	setStateStore(new MemoryStateStore());
+	state.rotationEnabled = true;
+	initAPI({ ...config, ...overrides });
+	initWebSocket({ ...config, ...overrides });
+	const server = Deno.serve(
+		{ hostname: "127.0.0.1", port: 0, onListen() {} },
+		(request, info) => handleAPIRequest(request, info.remoteAddr.hostname)
+	);
+	const clients: TestClient[] = [];
+	try {
+		await fn(`127.0.0.1:${server.addr.port}`, clients);
+	} finally {
+		for (const client of clients) {
+			client.socket.close();
+		}
+		closeWebSockets();
+		await Promise.all(clients.map((client) => client.closed));
+		await server.shutdown();
+	}
+}
+
+Deno.test("WebSocket: header, query and first-message tokens authenticate", async () => {
+	await withServer(async (host, clients) => {
+		const byHeader = await connect(`ws://${host}/api/ws`, { Authorization: `Bearer ${READ_TOKEN}` });
+		clients.push(byHeader);
+		assertEquals((await byHeader.next()).type, "state", "Header auth gets the state right away");
+
+		const byQuery = await connect(`ws://${host}/api/ws?token=${READ_TOKEN}`);
+		clients.push(byQuery);
+		const snapshot = await byQuery.next();
+		assertEquals(snapshot.type, "state");
+		assertEquals((snapshot.state as Message).rotationEnabled, true);
+
+		const byMessage = await connect(`ws://${host}/api/ws`);
+		clients.push(byMessage);
+		byMessage.socket.send(JSON.stringify({ type: "auth", token: READ_TOKEN }));
+		assertEquals(await byMessage.next(), { type: "auth", success: true });
+		assertEquals((await byMessage.next()).type, "state");
+
+		const plain = await fetch(`http://${host}/api/ws?token=${READ_TOKEN}`);
+		assertEquals(plain.status, 426, "Requests without an upgrade are refused");
+		await plain.body?.cancel();
+	});
+});
+
+Deno.test("WebSocket: invalid tokens are refused and lock the client out", async () => {
+	await withServer(async (host, clients) => {
+		const badQuery = await fetch(`http://${host}/api/ws?token=wrong-token-0123456789`);
+		assertEquals(badQuery.status, 401);
+		await badQuery.body?.cancel();
+
+		const badMessage = await connect(`ws://${host}/api/ws`);
+		clients.push(badMessage);
+		badMessage.socket.send(JSON.stringify({ type: "auth", token: "wrong-token-0123456789" }));
+		assertEquals(await badMessage.next(), { type: "error", error: "Unauthorized" });
+		assertEquals(await badMessage.closed, 4001);
+
+		const lockedOut = await fetch(`http://${host}/api/ws?token=${READ_TOKEN}`);
+		assertEquals(lockedOut.status, 429, "Two failures reach AUTH_MAX_FAILURES");
+		await lockedOut.body?.cancel();
+	});
+});
+
+Deno.test("WebSocket: commands are checked against the token's role and changes are broadcast", async () => {
+	await withServer(async (host, clients) => {
+		const viewer = await connect(`ws://${host}/api/ws?token=${READ_TOKEN}`);
+		const admin = await connect(`ws://${host}/api/ws?token=${ADMIN_TOKEN}`);
+		clients.push(viewer, admin);
+		await viewer.next();
+		await admin.next();
+
+		viewer.socket.send(JSON.stringify({ type: "setState", requestId: "a1", body: { rotationEnabled: false } }));
+		assertEquals(await viewer.next(), {
+			type: "result",
+			requestId: "a1",
+			status: 403,
+			body: { error: "Forbidden", requiredRole: "operator" },
+		});
+		assertEquals(state.rotationEnabled, true);
+
+		admin.socket.send(JSON.stringify({ type: "setState", requestId: 7, body: { rotationEnabled: false } }));
+		const broadcast = await viewer.next();
+		assertEquals(broadcast.type, "state", "Other clients get the new state");
+		assertEquals((broadcast.state as Message).rotationEnabled, false);
+		assertEquals((await admin.next()).type, "state");
+		const result = await admin.next();
+		assertEquals([result.type, result.requestId, result.status], ["result", 7, 200]);
+		assertEquals(state.rotationEnabled, false);
+
+		admin.socket.send(JSON.stringify({ type: "setState", requestId: "a2", body: { rotationEnabled: "no" } }));
+		const invalid = await admin.next();
+		assertEquals(invalid.status, 422);
+		assertEquals((invalid.body as Message).error, "Validation failed");
+	});
+});
+
+Deno.test("WebSocket: malformed messages are answered with an error", async () => {
+	await withServer(async (host, clients) => {
+		const admin = await connect(`ws://${host}/api/ws?token=${ADMIN_TOKEN}`);
+		clients.push(admin);
+		await admin.next();
+
+		const cases: Array<[string, string]> = [
+			["not json", "Invalid message"],
+			["null", "Message must be a JSON object"],
+			["[1, 2]", "Message must be a JSON object"],
+			['{"requestId": "a1"}', '"type" must be a string'],
+			['{"type": "getState", "requestId": {}}', '"requestId" must be a string or number'],
+			['{"type": "switchSource", "body": [2]}', '"body" must be an object'],
+		];
+		for (const [data, error] of cases) {
+			admin.socket.send(data);
+			assertEquals(await admin.next(), { type: "error", error }, data);
+		}
+
+		admin.socket.send(JSON.stringify({ type: "constructor", requestId: "a3" }));
+		assertEquals(await admin.next(), {
+			type: "result",
+			requestId: "a3",
+			status: 400,
+			body: { error: "Unknown command: constructor" },
+		});
+
+		admin.socket.send(JSON.stringify({ type: "getState", requestId: "a4" }));
+		const result = await admin.next();
+		assertEquals([result.requestId, result.status], ["a4", 200], "The connection stays usable");
+	});
+});
+
+Deno.test("WebSocket: commands share the HTTP rate limit and messages the body size limit", async () => {
+	await withServer(async (host, clients) => {
+		const admin = await connect(`ws://${host}/api/ws?token=${ADMIN_TOKEN}`);
+		clients.push(admin);
+		await admin.next();
+
+		admin.socket.send(JSON.stringify({ type: "getState", requestId: "big", body: { padding: "x".repeat(300) } }));
+		assertEquals(await admin.next(), { type: "error", error: "Message too large", limit: 256 });
+
+		// The upgrade request was the first of three
+		for (const requestId of ["a1", "a2"]) {
+			admin.socket.send(JSON.stringify({ type: "getState", requestId }));
+			assertEquals((await admin.next()).status, 200);
+		}
+		admin.socket.send(JSON.stringify({ type: "getState", requestId: "a3" }));
+		const limited = await admin.next();
+		assertEquals([limited.requestId, limited.status], ["a3", 429]);
+		assertEquals((limited.body as Message).error, "Too many requests");
+
+		const rest = await fetch(`http://${host}/api/state`, { headers: { Authorization: `Bearer ${ADMIN_TOKEN}` } });
+		assertEquals(rest.status, 429, "REST requests from the same client are limited too");
+		await rest.body?.cancel();
+	}, { rateLimitRequests: 3, maxBodyBytes: 256 });
+});